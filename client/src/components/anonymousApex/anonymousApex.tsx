@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { Alert, Box, Button, Card, CardContent, CircularProgress, TextField, Typography } from '@mui/material';
+import PlayArrowIcon from '@mui/icons-material/PlayArrow';
+
+declare type AnonymousApexResult = {
+    compiled: boolean;
+    success: boolean;
+    compileProblem: string | null;
+    exceptionMessage: string | null;
+    exceptionStackTrace: string | null;
+    line: number;
+    column: number;
+    logId: string | null;
+};
+
+declare type ExecuteResponse = {
+    success: boolean;
+    result?: AnonymousApexResult;
+    error?: string;
+};
+
+// Run anonymous Apex from the sidebar; the log of the run opens in the debug log analyzer
+export default function AnonymousApex() {
+    const [code, setCode] = useState('');
+    const [running, setRunning] = useState(false);
+    const [result, setResult] = useState<AnonymousApexResult | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleExecute = async () => {
+        if (!window.callServerApi || !code.trim()) return;
+        setRunning(true);
+        setError(null);
+        setResult(null);
+        try {
+            const response: ExecuteResponse = await window.callServerApi('/api/anonymousApex/execute', 'POST', {
+                code,
+            });
+            if (response?.success && response.result) {
+                setResult(response.result);
+            } else {
+                setError(response?.error ?? 'Failed to execute anonymous Apex');
+            }
+        } catch (e) {
+            setError('Error executing anonymous Apex: ' + (e instanceof Error ? e.message : String(e)));
+        } finally {
+            setRunning(false);
+        }
+    };
+
+    return (
+        <Card sx={{ borderRadius: '0.25rem', height: '100%', display: 'flex', flexDirection: 'column' }}>
+            <CardContent sx={{ flexGrow: 1, display: 'flex', flexDirection: 'column', gap: 1, overflow: 'auto' }}>
+                <Typography variant="h6">Anonymous Apex</Typography>
+                <TextField
+                    multiline
+                    minRows={8}
+                    placeholder="System.debug('Hello');"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    onKeyDown={(e) => {
+                        // Ctrl+Enter / Cmd+Enter runs the code
+                        if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+                            e.preventDefault();
+                            handleExecute();
+                        }
+                    }}
+                    slotProps={{ input: { sx: { fontFamily: 'monospace', fontSize: '0.8rem' } } }}
+                />
+                <Box>
+                    <Button
+                        variant="contained"
+                        size="small"
+                        startIcon={running ? <CircularProgress size={16} /> : <PlayArrowIcon />}
+                        disabled={running || !code.trim()}
+                        onClick={handleExecute}
+                    >
+                        Execute
+                    </Button>
+                </Box>
+
+                {error && <Alert severity="error">{error}</Alert>}
+                {result && !result.compiled && (
+                    <Alert severity="error">
+                        Line {result.line}, column {result.column}: {result.compileProblem}
+                    </Alert>
+                )}
+                {result && result.compiled && !result.success && (
+                    <Alert severity="error">
+                        {result.exceptionMessage}
+                        {result.exceptionStackTrace && (
+                            <Typography
+                                component="pre"
+                                variant="caption"
+                                sx={{ whiteSpace: 'pre-wrap', fontFamily: 'monospace', m: 0, mt: 1 }}
+                            >
+                                {result.exceptionStackTrace}
+                            </Typography>
+                        )}
+                    </Alert>
+                )}
+                {result && result.success && (
+                    <Alert severity="success">
+                        Executed successfully.{' '}
+                        {result.logId ? 'The log is open in the debug log analyzer.' : 'No debug log was found.'}
+                    </Alert>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
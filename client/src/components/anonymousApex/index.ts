@@ -0,0 +1,2 @@
+import AnonymousApex from './anonymousApex';
+export default AnonymousApex;
@@ -0,0 +1,367 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Box, Button, Chip, CircularProgress, IconButton, Tooltip, Typography } from '@mui/material';
+import { useTheme } from '@mui/material/styles';
+import ArrowBackIcon from '@mui/icons-material/ArrowBack';
+import ZoomOutMapIcon from '@mui/icons-material/ZoomOutMap';
+
+// Node of the execution tree returned by /api/debugLogs/:id/tree
+declare type LogNode = {
+    kind: 'root' | 'codeUnit' | 'method' | 'soql' | 'dml' | 'callout' | 'flow' | 'execution';
+    name: string;
+    startNanos: number;
+    endNanos: number;
+    durationNanos: number;
+    startLine: number;
+    endLine: number | null;
+    sourceLine: number | null;
+    depth: number;
+    rows?: number;
+    children: LogNode[];
+};
+
+declare type TreeResponse = {
+    success: boolean;
+    logId: string;
+    root: LogNode;
+    totalNanos: number;
+    lineCount: number;
+    error?: string;
+};
+
+// Colors for each kind of node in the flame chart
+const KIND_COLORS: Record<LogNode['kind'], string> = {
+    root: '#607d8b',
+    execution: '#78909c',
+    codeUnit: '#5c6bc0',
+    method: '#26a69a',
+    soql: '#ffa726',
+    dml: '#ef5350',
+    callout: '#ab47bc',
+    flow: '#42a5f5',
+};
+
+const ROW_HEIGHT = 18;
+const OVERVIEW_HEIGHT = 32;
+const MIN_VIEW_NANOS = 1000; // Do not zoom in further than 1 microsecond
+
+// Format elapsed nanoseconds for display
+const formatNanos = (nanos: number) => {
+    if (nanos >= 1e9) return `${(nanos / 1e9).toFixed(2)} s`;
+    if (nanos >= 1e6) return `${(nanos / 1e6).toFixed(2)} ms`;
+    if (nanos >= 1e3) return `${(nanos / 1e3).toFixed(1)} µs`;
+    return `${nanos} ns`;
+};
+
+// Flatten the tree into one array of nodes per depth, skipping the root so its children (depth 1) form the first row
+function groupByDepth(root: LogNode): LogNode[][] {
+    const rows: LogNode[][] = [];
+    const visit = (node: LogNode) => {
+        for (const child of node.children) {
+            (rows[child.depth - 1] ??= []).push(child);
+            visit(child);
+        }
+    };
+    visit(root);
+    return rows;
+}
+
+export default function DebugLogAnalyzer({ logId, onClose }: { logId: string; onClose: () => void }) {
+    const theme = useTheme();
+    const [tree, setTree] = useState<TreeResponse | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [view, setView] = useState<{ start: number; end: number }>({ start: 0, end: 1 });
+    const [hovered, setHovered] = useState<{ node: LogNode; x: number; y: number } | null>(null);
+    const [width, setWidth] = useState(800);
+
+    const containerRef = useRef<HTMLDivElement | null>(null);
+    const canvasRef = useRef<HTMLCanvasElement | null>(null);
+    const overviewRef = useRef<HTMLCanvasElement | null>(null);
+    const dragRef = useRef<{ x: number; start: number; end: number; moved: boolean } | null>(null);
+
+    const rows = useMemo(() => (tree ? groupByDepth(tree.root) : []), [tree]);
+    const totalNanos = Math.max(tree?.totalNanos ?? 1, 1);
+
+    // Load the execution tree for the log
+    useEffect(() => {
+        let cancelled = false;
+        const fetchTree = async () => {
+            if (!window.callServerApi) return;
+            setLoading(true);
+            setError(null);
+            try {
+                const response: TreeResponse = await window.callServerApi(`/api/debugLogs/${logId}/tree`);
+                if (cancelled) return;
+                if (response?.success) {
+                    setTree(response);
+                    setView({ start: 0, end: Math.max(response.totalNanos, 1) });
+                } else {
+                    setError(response?.error ?? 'Failed to parse log');
+                }
+            } catch (e) {
+                if (!cancelled) setError(e instanceof Error ? e.message : String(e));
+            } finally {
+                if (!cancelled) setLoading(false);
+            }
+        };
+        fetchTree();
+        return () => {
+            cancelled = true;
+        };
+    }, [logId]);
+
+    // Track the available width
+    useEffect(() => {
+        const node = containerRef.current;
+        if (!node) return;
+        const observer = new ResizeObserver((entries) => {
+            setWidth(Math.max(200, Math.floor(entries[0].contentRect.width)));
+        });
+        observer.observe(node);
+        return () => observer.disconnect();
+    }, []);
+
+    // Draw the flame chart
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        const ratio = window.devicePixelRatio || 1;
+        const height = Math.max(rows.length, 1) * ROW_HEIGHT;
+        canvas.width = width * ratio;
+        canvas.height = height * ratio;
+        canvas.style.width = `${width}px`;
+        canvas.style.height = `${height}px`;
+
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return;
+        ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+        ctx.clearRect(0, 0, width, height);
+        ctx.font = `11px ${theme.typography.fontFamily}`;
+        ctx.textBaseline = 'middle';
+
+        const scale = width / (view.end - view.start);
+        rows.forEach((nodes, depth) => {
+            const y = depth * ROW_HEIGHT;
+            for (const node of nodes) {
+                if (node.endNanos < view.start || node.startNanos > view.end) continue;
+                const x = (node.startNanos - view.start) * scale;
+                const w = Math.max(1, node.durationNanos * scale);
+                ctx.fillStyle = KIND_COLORS[node.kind];
+                ctx.fillRect(x, y, w, ROW_HEIGHT - 1);
+                if (w > 30) {
+                    ctx.save();
+                    ctx.beginPath();
+                    ctx.rect(Math.max(x, 0), y, w, ROW_HEIGHT);
+                    ctx.clip();
+                    ctx.fillStyle = '#fff';
+                    ctx.fillText(node.name, Math.max(x, 0) + 3, y + ROW_HEIGHT / 2);
+                    ctx.restore();
+                }
+            }
+        });
+    }, [rows, view, width, theme]);
+
+    // Draw the overview timeline with the current viewport highlighted
+    useEffect(() => {
+        const canvas = overviewRef.current;
+        if (!canvas) return;
+        const ratio = window.devicePixelRatio || 1;
+        canvas.width = width * ratio;
+        canvas.height = OVERVIEW_HEIGHT * ratio;
+        canvas.style.width = `${width}px`;
+        canvas.style.height = `${OVERVIEW_HEIGHT}px`;
+
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return;
+        ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+        ctx.clearRect(0, 0, width, OVERVIEW_HEIGHT);
+
+        // Only the top levels are drawn to keep the overview readable
+        const scale = width / totalNanos;
+        const levelHeight = OVERVIEW_HEIGHT / 4;
+        rows.slice(0, 4).forEach((nodes, depth) => {
+            for (const node of nodes) {
+                ctx.fillStyle = KIND_COLORS[node.kind];
+                ctx.fillRect(
+                    node.startNanos * scale,
+                    depth * levelHeight,
+                    Math.max(1, node.durationNanos * scale),
+                    levelHeight - 1,
+                );
+            }
+        });
+
+        ctx.fillStyle = theme.palette.mode === 'dark' ? 'rgba(255,255,255,0.2)' : 'rgba(0,0,0,0.15)';
+        ctx.fillRect(view.start * scale, 0, Math.max(2, (view.end - view.start) * scale), OVERVIEW_HEIGHT);
+    }, [rows, view, width, totalNanos, theme]);
+
+    // Clamp and apply a new viewport
+    const applyView = useCallback(
+        (start: number, end: number) => {
+            let span = Math.max(MIN_VIEW_NANOS, end - start);
+            span = Math.min(span, totalNanos);
+            const clampedStart = Math.min(Math.max(0, start), totalNanos - span);
+            setView({ start: clampedStart, end: clampedStart + span });
+        },
+        [totalNanos],
+    );
+
+    // Find the node under the mouse
+    const hitTest = (clientX: number, clientY: number) => {
+        const canvas = canvasRef.current;
+        if (!canvas) return null;
+        const rect = canvas.getBoundingClientRect();
+        const depth = Math.floor((clientY - rect.top) / ROW_HEIGHT);
+        const time = view.start + ((clientX - rect.left) / width) * (view.end - view.start);
+        const tolerance = (view.end - view.start) / width; // One pixel
+        const nodes = rows[depth] ?? [];
+        return nodes.find((n) => n.startNanos - tolerance <= time && n.endNanos + tolerance >= time) ?? null;
+    };
+
+    const handleWheel = (event: React.WheelEvent<HTMLCanvasElement>) => {
+        const rect = event.currentTarget.getBoundingClientRect();
+        const anchor = view.start + ((event.clientX - rect.left) / width) * (view.end - view.start);
+        const factor = event.deltaY > 0 ? 1.25 : 0.8;
+        applyView(anchor - (anchor - view.start) * factor, anchor + (view.end - anchor) * factor);
+    };
+
+    const handleMouseDown = (event: React.MouseEvent<HTMLCanvasElement>) => {
+        dragRef.current = { x: event.clientX, start: view.start, end: view.end, moved: false };
+    };
+
+    const handleMouseMove = (event: React.MouseEvent<HTMLCanvasElement>) => {
+        const drag = dragRef.current;
+        if (drag) {
+            const dx = event.clientX - drag.x;
+            if (Math.abs(dx) > 2) drag.moved = true;
+            const shift = (dx / width) * (drag.end - drag.start);
+            applyView(drag.start - shift, drag.end - shift);
+            return;
+        }
+        const node = hitTest(event.clientX, event.clientY);
+        setHovered(node ? { node, x: event.clientX, y: event.clientY } : null);
+    };
+
+    const handleMouseUp = (event: React.MouseEvent<HTMLCanvasElement>) => {
+        const drag = dragRef.current;
+        dragRef.current = null;
+        if (drag?.moved) return;
+
+        // A click without dragging opens the log at the line of the clicked node
+        const node = hitTest(event.clientX, event.clientY);
+        if (node && window.callServerApi) {
+            window.callServerApi(`/api/debugLogs/${logId}/openLine`, 'POST', { line: node.startLine }).catch(() => {
+                /* empty */
+            });
+        }
+    };
+
+    // Clicking the overview centers the viewport on that time
+    const handleOverviewClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
+        const rect = event.currentTarget.getBoundingClientRect();
+        const center = ((event.clientX - rect.left) / width) * totalNanos;
+        const span = view.end - view.start;
+        applyView(center - span / 2, center + span / 2);
+    };
+
+    return (
+        <Box sx={{ display: 'flex', flexDirection: 'column', height: '100%', overflow: 'hidden' }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, p: '0.5rem 1rem' }}>
+                <Tooltip title="Back to debug logs">
+                    <IconButton size="small" onClick={onClose}>
+                        <ArrowBackIcon fontSize="small" />
+                    </IconButton>
+                </Tooltip>
+                <Typography variant="subtitle1">Execution Timeline</Typography>
+                <Typography variant="caption" color="text.secondary">
+                    {logId}
+                </Typography>
+                {tree && <Chip size="small" label={`Total ${formatNanos(tree.totalNanos)}`} />}
+                {tree && (
+                    <Chip size="small" variant="outlined" label={`Visible ${formatNanos(view.end - view.start)}`} />
+                )}
+                <Box sx={{ flexGrow: 1 }} />
+                <Button
+                    size="small"
+                    startIcon={<ZoomOutMapIcon />}
+                    disabled={!tree}
+                    onClick={() => applyView(0, totalNanos)}
+                >
+                    Reset zoom
+                </Button>
+            </Box>
+
+            <Box sx={{ display: 'flex', gap: 1, px: '1rem', pb: 1, flexWrap: 'wrap' }}>
+                {(Object.keys(KIND_COLORS) as LogNode['kind'][])
+                    .filter((kind) => kind !== 'root')
+                    .map((kind) => (
+                        <Chip
+                            key={kind}
+                            size="small"
+                            label={kind}
+                            sx={{ backgroundColor: KIND_COLORS[kind], color: '#fff', height: 18 }}
+                        />
+                    ))}
+            </Box>
+
+            <Box ref={containerRef} sx={{ flexGrow: 1, overflow: 'auto', px: '1rem', position: 'relative' }}>
+                {loading && (
+                    <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+                        <CircularProgress size={24} />
+                    </Box>
+                )}
+                {error && (
+                    <Typography color="error" variant="body2" sx={{ p: 2 }}>
+                        {error}
+                    </Typography>
+                )}
+                {tree && !loading && (
+                    <>
+                        <canvas ref={overviewRef} onClick={handleOverviewClick} style={{ cursor: 'pointer' }} />
+                        <canvas
+                            ref={canvasRef}
+                            onWheel={handleWheel}
+                            onMouseDown={handleMouseDown}
+                            onMouseMove={handleMouseMove}
+                            onMouseUp={handleMouseUp}
+                            onMouseLeave={() => {
+                                dragRef.current = null;
+                                setHovered(null);
+                            }}
+                            style={{ cursor: hovered ? 'pointer' : 'grab', display: 'block', marginTop: 4 }}
+                        />
+                    </>
+                )}
+            </Box>
+
+            {hovered && (
+                <Box
+                    sx={{
+                        position: 'fixed',
+                        left: hovered.x + 12,
+                        top: hovered.y + 12,
+                        maxWidth: 480,
+                        p: 1,
+                        pointerEvents: 'none',
+                        bgcolor: 'background.paper',
+                        border: 1,
+                        borderColor: 'divider',
+                        borderRadius: 1,
+                        boxShadow: 3,
+                        zIndex: 10,
+                    }}
+                >
+                    <Typography variant="body2" sx={{ wordBreak: 'break-all' }}>
+                        {hovered.node.name}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary" component="div">
+                        {hovered.node.kind} · {formatNanos(hovered.node.durationNanos)} · log line{' '}
+                        {hovered.node.startLine}
+                        {hovered.node.sourceLine !== null ? ` · source line ${hovered.node.sourceLine}` : ''}
+                        {hovered.node.rows !== undefined ? ` · ${hovered.node.rows} rows` : ''}
+                    </Typography>
+                </Box>
+            )}
+        </Box>
+    );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import {
     Card,
     TableContainer,
@@ -27,6 +27,7 @@ import {
     Grid,
     Divider,
     InputAdornment,
+    Checkbox,
 } from '@mui/material';
 import RefreshIcon from '@mui/icons-material/Refresh';
 import DownloadIcon from '@mui/icons-material/Download';
@@ -36,6 +37,27 @@ import KeyboardArrowDownIcon from '@mui/icons-material/KeyboardArrowDown';
 
 import DeleteSweepIcon from '@mui/icons-material/DeleteSweep';
 import PersonRemoveIcon from '@mui/icons-material/PersonRemove';
+import BugReportIcon from '@mui/icons-material/BugReport';
+import SensorsIcon from '@mui/icons-material/Sensors';
+import SensorsOffIcon from '@mui/icons-material/SensorsOff';
+import TuneIcon from '@mui/icons-material/Tune';
+import DeleteIcon from '@mui/icons-material/Delete';
+import FolderIcon from '@mui/icons-material/Folder';
+import ManageSearchIcon from '@mui/icons-material/ManageSearch';
+import CompareArrowsIcon from '@mui/icons-material/CompareArrows';
+import WhatshotIcon from '@mui/icons-material/Whatshot';
+import ErrorOutlineIcon from '@mui/icons-material/ErrorOutline';
+import IosShareIcon from '@mui/icons-material/IosShare';
+import DebugLogAnalyzer from '../debugLogAnalyzer/debugLogAnalyzer';
+import LogLimits from './logLimits';
+import TraceFlagManager from './traceFlagManager';
+import LocalLogs from './localLogs';
+import LogSearch from './logSearch';
+import LogDiff from './logDiff';
+import LogHotspots from './logHotspots';
+import LogErrors, { type LogError } from './logErrors';
+import { openEventStream, type ServerEvent } from './eventStream';
+import { requestMethodName } from './methodNameBatcher';
 
 // Extend window interface to include server properties
 declare global {
@@ -66,12 +88,26 @@ declare type Response = {
         totalSize: number;
         done: boolean;
     };
+    nextCursor: string | null;
 };
 
-declare type MethodNameResponse = {
-    success: boolean;
-    methodName: string;
-    logId: string;
+// Server-side filters shown in the extra filter row
+declare type LogFilters = {
+    operation: string;
+    status: string;
+    application: string;
+    requestIdentifier: string;
+    startTimeFrom: string;
+    startTimeTo: string;
+};
+
+const EMPTY_FILTERS: LogFilters = {
+    operation: '',
+    status: '',
+    application: '',
+    requestIdentifier: '',
+    startTimeFrom: '',
+    startTimeTo: '',
 };
 
 declare type User = {
@@ -89,91 +125,29 @@ declare type UsersResponse = {
     };
 };
 
-// Create a cache for method names
-interface MethodNameCache {
-    [logId: string]: {
-        methodName: string;
-        timestamp: number;
-    };
-}
-
-// Global cache that persists between renders
-const methodNameCache: MethodNameCache = {};
-
-// Rate limiter for API requests
-const activeRequests = new Set<string>();
-const MAX_CONCURRENT_REQUESTS = 3;
-const requestQueue: string[] = [];
-
-// Process the next item in the queue
-function processNextInQueue() {
-    if (requestQueue.length === 0 || activeRequests.size >= MAX_CONCURRENT_REQUESTS) {
-        return;
-    }
-
-    const logId = requestQueue.shift();
-    if (logId && !activeRequests.has(logId)) {
-        // Dispatch a custom event to trigger the fetch for this specific logId
-        window.dispatchEvent(new CustomEvent('process-method-name', { detail: { logId } }));
-    }
-}
-
-// Method Name Component
+// Method Name Component, requested in batches once the row is visible
 function MethodName({ logId }: { logId: string }) {
     const [methodName, setMethodName] = useState<string | null>(null);
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
-    const [shouldFetch, setShouldFetch] = useState(false);
-    const [isQueued, setIsQueued] = useState(false);
     const ref = useRef<HTMLSpanElement | null>(null);
-    // Add timeout ref to track and cancel long-running requests
-    const timeoutRef = useRef<NodeJS.Timeout | null>(null);
-
-    // Listen for the custom event to process this specific logId
-    useEffect(() => {
-        const handleProcessEvent = (event: Event) => {
-            // Check if this event is for this component
-            const customEvent = event as CustomEvent;
-            if (customEvent.detail?.logId === logId) {
-                setIsQueued(false);
-                setShouldFetch(true);
-            }
-        };
-
-        window.addEventListener('process-method-name', handleProcessEvent);
-
-        return () => {
-            window.removeEventListener('process-method-name', handleProcessEvent);
-        };
-    }, [logId]);
 
     useEffect(() => {
         // Use Intersection Observer to trigger fetch only when visible
         const node = ref.current;
         if (!node) return;
+        let stopListening: (() => void) | null = null;
         const observer = new window.IntersectionObserver(
             (entries) => {
-                entries.forEach((entry) => {
-                    if (entry.isIntersecting) {
-                        // Check if we already have a cached value
-                        const cachedData = methodNameCache[logId];
-                        const cacheExpiration = 30 * 60 * 1000; // 30 minutes in milliseconds
-                        const now = Date.now();
-
-                        if (cachedData && now - cachedData.timestamp < cacheExpiration) {
-                            setMethodName(cachedData.methodName);
-                            return;
-                        }
-
-                        // If we're already at max concurrent requests, queue this one
-                        if (activeRequests.size >= MAX_CONCURRENT_REQUESTS) {
-                            if (!requestQueue.includes(logId) && !activeRequests.has(logId)) {
-                                requestQueue.push(logId);
-                                setIsQueued(true);
-                            }
-                        } else if (!activeRequests.has(logId)) {
-                            setShouldFetch(true);
-                        }
+                if (stopListening || !entries.some((entry) => entry.isIntersecting)) return;
+                observer.disconnect();
+                setLoading(true);
+                stopListening = requestMethodName(logId, (result) => {
+                    setLoading(false);
+                    if (result.error) {
+                        setError(result.error);
+                    } else {
+                        setMethodName(result.methodName);
                     }
                 });
             },
@@ -181,115 +155,14 @@ function MethodName({ logId }: { logId: string }) {
         );
         observer.observe(node);
         return () => {
-            observer.unobserve(node);
-            // If this component is unmounted while in the queue, remove it
-            const queueIndex = requestQueue.indexOf(logId);
-            if (queueIndex > -1) {
-                requestQueue.splice(queueIndex, 1);
-            }
+            observer.disconnect();
+            stopListening?.();
         };
     }, [logId]);
 
-    useEffect(() => {
-        if (!shouldFetch) return;
-        let cancelled = false;
-
-        // Add to active requests set
-        activeRequests.add(logId);
-
-        // Clear any existing timeout
-        if (timeoutRef.current) {
-            clearTimeout(timeoutRef.current);
-            timeoutRef.current = null;
-        }
-
-        const fetchMethodName = async () => {
-            // Check if we have a cached value that's less than 30 minutes old
-            const cachedData = methodNameCache[logId];
-            const cacheExpiration = 30 * 60 * 1000; // 30 minutes in milliseconds
-            const now = Date.now();
-
-            if (cachedData && now - cachedData.timestamp < cacheExpiration) {
-                setMethodName(cachedData.methodName);
-                activeRequests.delete(logId);
-                processNextInQueue();
-                return;
-            }
-
-            if (!window.callServerApi) return;
-            setLoading(true);
-            setError(null);
-
-            // Set a timeout to prevent the spinner from being stuck
-            timeoutRef.current = setTimeout(() => {
-                if (!cancelled) {
-                    setLoading(false);
-                    setError('Request timed out');
-                    // Add to cache to prevent immediate retry
-                    methodNameCache[logId] = {
-                        methodName: 'TIMEOUT',
-                        timestamp: now,
-                    };
-                }
-                activeRequests.delete(logId);
-                processNextInQueue();
-            }, 10000); // 10 second timeout
-
-            try {
-                const response: MethodNameResponse = await window.callServerApi(`/api/debugLogs/${logId}/methodName`);
-                // Clear the timeout since we got a response
-                if (timeoutRef.current) {
-                    clearTimeout(timeoutRef.current);
-                    timeoutRef.current = null;
-                }
-
-                if (response?.success) {
-                    const newMethodName = response.methodName;
-                    if (!cancelled) setMethodName(newMethodName);
-                    methodNameCache[logId] = {
-                        methodName: newMethodName,
-                        timestamp: now,
-                    };
-                } else {
-                    if (!cancelled) setError('Failed to fetch method name');
-                }
-            } catch (error) {
-                // Clear the timeout since we got an error
-                if (timeoutRef.current) {
-                    clearTimeout(timeoutRef.current);
-                    timeoutRef.current = null;
-                }
-
-                console.error('Error fetching method name:', error);
-                if (!cancelled) setError('Error fetching method name');
-            } finally {
-                if (!cancelled) setLoading(false);
-                activeRequests.delete(logId);
-                processNextInQueue();
-            }
-        };
-
-        fetchMethodName();
-
-        return () => {
-            cancelled = true;
-            // Clear timeout on cleanup
-            if (timeoutRef.current) {
-                clearTimeout(timeoutRef.current);
-                timeoutRef.current = null;
-            }
-            // Remove from active requests and process next in queue
-            activeRequests.delete(logId);
-            processNextInQueue();
-        };
-    }, [logId, shouldFetch]);
-
     if (loading) {
         return <CircularProgress size={16} />;
     }
-    if (isQueued) {
-        return <span style={{ color: 'gray', fontStyle: 'italic' }}>Queued...</span>;
-    }
     if (error) {
         return (
             <Tooltip title={error}>
@@ -316,6 +189,33 @@ interface DeleteLogsResponse {
     error?: string;
 }
 
+// Log the extension asked to analyze, e.g. after running anonymous Apex. The request can arrive
+// before the fetcher is mounted, so it is kept here until the fetcher picks it up.
+let requestedAnalysisLogId: string | null = null;
+window.addEventListener('message', (event: MessageEvent) => {
+    if (event.data?.command === 'analyzeLog' && event.data.data?.logId) {
+        requestedAnalysisLogId = event.data.data.logId;
+        window.dispatchEvent(new Event('analyze-log-requested'));
+    }
+});
+
+// Result of exporting logs to a bundle file
+interface ExportLogsResponse {
+    success: boolean;
+    cancelled?: boolean;
+    filePath?: string;
+    exported?: number;
+    error?: string;
+}
+
+// Progress reported after every chunk of a bulk delete
+interface DeleteLogsProgress {
+    deleted: number;
+    failed: number;
+    total: number;
+    deletedIds: string[];
+}
+
 export default function DebugLogFetcher() {
     const [logs, setLogs] = useState<Log[]>([]);
     const [loading, setLoading] = useState(false);
@@ -325,14 +225,32 @@ export default function DebugLogFetcher() {
     const [currentUser, setCurrentUser] = useState<{ display_name: string; username: string } | null>(null);
     const [loadingUsers, setLoadingUsers] = useState(false);
     const [deleting, setDeleting] = useState(false);
+    const [exporting, setExporting] = useState(false);
     const [snackbar, setSnackbar] = useState<{ open: boolean; message: string; severity: 'success' | 'error' }>({
         open: false,
         message: '',
         severity: 'success',
     });
-    const [pendingDelete, setPendingDelete] = useState<{ userName: string | null } | null>(null);
+    const [pendingDelete, setPendingDelete] = useState<{ userName: string | null; logIds?: string[] } | null>(null);
+    const [selectedLogIds, setSelectedLogIds] = useState<string[]>([]);
+    const [deleteProgress, setDeleteProgress] = useState<{ deleted: number; failed: number; total: number } | null>(
+        null,
+    );
     const [logSize, setLogSize] = useState<string>('');
     const [logSizeDirection, setLogSizeDirection] = useState<'above' | 'below'>('above');
+    const [analyzingLogId, setAnalyzingLogId] = useState<string | null>(null);
+    const [traceFlagsOpen, setTraceFlagsOpen] = useState(false);
+    const [showLocalLogs, setShowLocalLogs] = useState(false);
+    const [showSearch, setShowSearch] = useState(false);
+    const [errorsOnly, setErrorsOnly] = useState(false);
+    const [errorCounts, setErrorCounts] = useState<{ [logId: string]: number | null }>({});
+    const [hotspotLogId, setHotspotLogId] = useState<string | null>(null);
+    const [comparingLogIds, setComparingLogIds] = useState<[string, string] | null>(null);
+    const [tailing, setTailing] = useState(false);
+    const [filters, setFilters] = useState<LogFilters>(EMPTY_FILTERS);
+    const [showFilters, setShowFilters] = useState(false);
+    const [nextCursor, setNextCursor] = useState<string | null>(null);
+    const [loadingMore, setLoadingMore] = useState(false);
 
     // Fetch users for the autocomplete dropdown
     const fetchUsers = async (searchTerm: string = '') => {
@@ -369,10 +287,17 @@ export default function DebugLogFetcher() {
         }
     };
 
-    const fetchLogs = async (userFilter: string | null = null, size?: string, sizeDirection?: 'above' | 'below') => {
+    // Fetch the first page of logs, or the next page when a cursor is given
+    const fetchLogs = async (
+        userFilter: string | null = null,
+        size?: string,
+        sizeDirection?: 'above' | 'below',
+        cursor?: string,
+    ) => {
         if (!window.callServerApi) return;
 
-        setLoading(true);
+        const setBusy = cursor ? setLoadingMore : setLoading;
+        setBusy(true);
         try {
             let endpoint = '/api/debugLogs';
             const params = [];
@@ -385,21 +310,39 @@ export default function DebugLogFetcher() {
             if (sizeDirection) {
                 params.push(`sizeDirection=${encodeURIComponent(sizeDirection)}`);
             }
+            for (const [name, value] of Object.entries(filters)) {
+                if (value) {
+                    // Date inputs are in local time, the server expects UTC
+                    const paramValue = name.startsWith('startTime') ? new Date(value).toISOString() : value;
+                    params.push(`${name}=${encodeURIComponent(paramValue)}`);
+                }
+            }
+            if (cursor) {
+                params.push(`cursor=${encodeURIComponent(cursor)}`);
+            }
             if (params.length > 0) {
                 endpoint += `?${params.join('&')}`;
             }
             const response: Response = await window.callServerApi(endpoint);
             if (response?.success) {
-                setLogs(response?.logs?.records || []);
+                const records = response?.logs?.records || [];
+                setLogs((current) => (cursor ? [...current, ...records] : records));
+                setNextCursor(response.nextCursor ?? null);
             }
             // eslint-disable-next-line @typescript-eslint/no-unused-vars
         } catch (_) {
             /* empty */
         } finally {
-            setLoading(false);
+            setBusy(false);
         }
     };
 
+    // Load the next page of logs with the current filters
+    const handleLoadMore = () => {
+        if (!nextCursor) return;
+        fetchLogs(selectedUser ? selectedUser.Name : 'all', logSize, logSizeDirection, nextCursor);
+    };
+
     // Handle user selection change
     const handleUserChange = (_event: React.SyntheticEvent, newValue: User | { Id: string; Name: string } | null) => {
         setSelectedUser(newValue);
@@ -440,31 +383,103 @@ export default function DebugLogFetcher() {
         }
     };
 
-    // Delete logs handler
-    const handleDeleteLogs = async (userName: string | null) => {
+    // Remove deleted logs from the list and the selection
+    const removeLogs = (logIds: string[]) => {
+        setLogs((current) => current.filter((log) => !logIds.includes(log.Id)));
+        setSelectedLogIds((current) => current.filter((id) => !logIds.includes(id)));
+    };
+
+    // Delete a single log
+    const handleDeleteLog = async (logId: string) => {
         if (!window.callServerApi) return;
         setDeleting(true);
         try {
-            const response: unknown = await window.callServerApi('/api/debugLogs/delete', 'POST', { userName });
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            const isDeleteResponse = (resp: any): resp is DeleteLogsResponse =>
-                typeof resp === 'object' && resp !== null && 'success' in resp;
-            if (isDeleteResponse(response) && response.success) {
+            const response: DeleteLogsResponse = await window.callServerApi(`/api/debugLogs/${logId}`, 'DELETE');
+            if (response?.success) {
+                removeLogs([logId]);
+                setSnackbar({ open: true, message: 'Deleted log', severity: 'success' });
+            } else {
                 setSnackbar({
                     open: true,
-                    message: `Deleted ${response.deleted ?? 0} logs${response.failed && response.failed > 0 ? ', failed: ' + response.failed : ''}`,
+                    message: 'Failed to delete log: ' + (response?.error ?? 'Unknown error'),
+                    severity: 'error',
+                });
+            }
+        } catch (e) {
+            setSnackbar({
+                open: true,
+                message: 'Error deleting log: ' + (e instanceof Error ? e.message : String(e)),
+                severity: 'error',
+            });
+        } finally {
+            setDeleting(false);
+        }
+    };
+
+    // Export the selected logs, with their org and user context, to a bundle file
+    const handleExportLogs = async () => {
+        if (!window.callServerApi) return;
+        setExporting(true);
+        try {
+            const response: ExportLogsResponse = await window.callServerApi('/api/debugLogs/export', 'POST', {
+                logIds: selectedLogIds,
+            });
+            if (response?.success) {
+                setSnackbar({
+                    open: true,
+                    message: `Exported ${response.exported ?? 0} logs to ${response.filePath}`,
                     severity: 'success',
                 });
-                fetchLogs(userName && userName !== 'all' ? userName : 'all');
-            } else {
+            } else if (!response?.cancelled) {
                 setSnackbar({
                     open: true,
-                    message:
-                        'Failed to delete logs: ' +
-                        (isDeleteResponse(response) && response.error ? response.error : 'Unknown error'),
+                    message: 'Failed to export logs: ' + (response?.error ?? 'Unknown error'),
                     severity: 'error',
                 });
             }
+        } catch (e) {
+            setSnackbar({
+                open: true,
+                message: 'Error exporting logs: ' + (e instanceof Error ? e.message : String(e)),
+                severity: 'error',
+            });
+        } finally {
+            setExporting(false);
+        }
+    };
+
+    // Delete the given logs, or all logs of a user, showing progress as chunks are deleted
+    const handleDeleteLogs = async (userName: string | null, logIds?: string[]) => {
+        if (!window.serverBaseUrl) return;
+        setDeleting(true);
+        try {
+            await openEventStream(
+                '/api/debugLogs/delete',
+                ({ event, data }) => {
+                    if (event === 'progress') {
+                        const progress = data as DeleteLogsProgress;
+                        setDeleteProgress(progress);
+                        removeLogs(progress.deletedIds);
+                    } else if (event === 'done') {
+                        const response = data as DeleteLogsResponse;
+                        setSnackbar({
+                            open: true,
+                            message: `Deleted ${response.deleted ?? 0} logs${response.failed && response.failed > 0 ? ', failed: ' + response.failed : ''}`,
+                            severity: response.failed ? 'error' : 'success',
+                        });
+                    } else if (event === 'error') {
+                        setSnackbar({
+                            open: true,
+                            message:
+                                'Failed to delete logs: ' + ((data as DeleteLogsResponse).error ?? 'Unknown error'),
+                            severity: 'error',
+                        });
+                    }
+                },
+                undefined,
+                'POST',
+                logIds ? { logIds } : { userName },
+            );
         } catch (e) {
             setSnackbar({
                 open: true,
@@ -473,6 +488,7 @@ export default function DebugLogFetcher() {
             });
         } finally {
             setDeleting(false);
+            setDeleteProgress(null);
         }
     };
 
@@ -495,6 +511,22 @@ export default function DebugLogFetcher() {
         // Logs will be fetched after current user is set
     }, []);
 
+    // Open logs the extension asks to analyze
+    useEffect(() => {
+        const handleAnalyzeRequest = () => {
+            if (requestedAnalysisLogId) {
+                setAnalyzingLogId(requestedAnalysisLogId);
+                requestedAnalysisLogId = null;
+            }
+        };
+
+        handleAnalyzeRequest();
+        window.addEventListener('analyze-log-requested', handleAnalyzeRequest);
+        return () => {
+            window.removeEventListener('analyze-log-requested', handleAnalyzeRequest);
+        };
+    }, []);
+
     // Fetch logs when current user is set or log size filter changes
     useEffect(() => {
         if (selectedUser) {
@@ -503,6 +535,73 @@ export default function DebugLogFetcher() {
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [currentUser]);
 
+    // Add logs pushed by the live tail to the top of the list
+    const handleTailEvent = ({ event, data }: ServerEvent) => {
+        if (event === 'logs') {
+            const newLogs = (data as { logs: Log[] }).logs.filter(
+                (log) =>
+                    !logSize ||
+                    (logSizeDirection === 'above' ? log.LogLength > Number(logSize) : log.LogLength < Number(logSize)),
+            );
+            setLogs((current) => [
+                ...newLogs.filter((log) => !current.some((c) => c.Id === log.Id)).reverse(),
+                ...current,
+            ]);
+        } else if (event === 'error') {
+            const { error, retryIn } = data as { error: string; retryIn: number };
+            setSnackbar({
+                open: true,
+                message: `Live tail failed, retrying in ${Math.round(retryIn / 1000)}s: ${error}`,
+                severity: 'error',
+            });
+        }
+    };
+
+    // Stream new logs while tailing, pausing while the panel is hidden
+    useEffect(() => {
+        if (!tailing || !window.serverBaseUrl) return;
+        let controller: AbortController | null = null;
+
+        const start = () => {
+            if (controller || document.visibilityState === 'hidden') return;
+            const current = new AbortController();
+            controller = current;
+            const userFilter = selectedUser && selectedUser.Id !== 'all' ? selectedUser.Name : 'all';
+
+            openEventStream(
+                `/api/debugLogs/tail?user=${encodeURIComponent(userFilter)}`,
+                handleTailEvent,
+                current.signal,
+            )
+                .then(() => {
+                    if (!current.signal.aborted) setTailing(false);
+                })
+                .catch((e) => {
+                    setTailing(false);
+                    setSnackbar({
+                        open: true,
+                        message: 'Live tail stopped: ' + (e instanceof Error ? e.message : String(e)),
+                        severity: 'error',
+                    });
+                });
+        };
+
+        const stop = () => {
+            controller?.abort();
+            controller = null;
+        };
+
+        const handleVisibilityChange = () => (document.visibilityState === 'hidden' ? stop() : start());
+
+        start();
+        document.addEventListener('visibilitychange', handleVisibilityChange);
+        return () => {
+            document.removeEventListener('visibilitychange', handleVisibilityChange);
+            stop();
+        };
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [tailing, selectedUser]);
+
     // Format the date to be more readable
     const formatDate = (dateString: string) => {
         if (!dateString) return '';
@@ -520,17 +619,69 @@ export default function DebugLogFetcher() {
         return `${length.toLocaleString()} bytes`;
     };
 
+    // Remember which logs have errors, for the errors-only filter
+    const handleErrorsLoaded = useCallback((logId: string, errors: LogError[] | null) => {
+        const count = errors ? errors.length : null;
+        setErrorCounts((current) => (current[logId] === count ? current : { ...current, [logId]: count }));
+    }, []);
+
+    // Logs whose errors are still loading stay visible until they are known; logs that are not downloaded
+    // are left out, as their errors are unknown
+    const visibleLogs = errorsOnly
+        ? logs.filter((log) => errorCounts[log.Id] !== 0 && errorCounts[log.Id] !== null)
+        : logs;
+
+    const cardSx = {
+        borderRadius: '0.25rem',
+        height: 'calc(100% - 1rem)',
+        maxHeight: 'calc(100% - 1rem)',
+        display: 'flex',
+        flexDirection: 'column',
+        overflow: 'hidden',
+    };
+
+    // Show the execution timeline of the selected log instead of the list
+    if (analyzingLogId) {
+        return (
+            <Card sx={cardSx}>
+                <DebugLogAnalyzer logId={analyzingLogId} onClose={() => setAnalyzingLogId(null)} />
+            </Card>
+        );
+    }
+
+    // Compare the execution of two selected logs
+    if (comparingLogIds) {
+        return (
+            <Card sx={cardSx}>
+                <LogDiff
+                    leftId={comparingLogIds[0]}
+                    rightId={comparingLogIds[1]}
+                    onClose={() => setComparingLogIds(null)}
+                />
+            </Card>
+        );
+    }
+
+    // Search the content of downloaded logs
+    if (showSearch) {
+        return (
+            <Card sx={cardSx}>
+                <LogSearch onClose={() => setShowSearch(false)} />
+            </Card>
+        );
+    }
+
+    // Show the logs downloaded to the local cache, which works without a connection
+    if (showLocalLogs) {
+        return (
+            <Card sx={cardSx}>
+                <LocalLogs onAnalyze={setAnalyzingLogId} onClose={() => setShowLocalLogs(false)} />
+            </Card>
+        );
+    }
+
     return (
-        <Card
-            sx={{
-                borderRadius: '0.25rem',
-                height: 'calc(100% - 1rem)',
-                maxHeight: 'calc(100% - 1rem)',
-                display: 'flex',
-                flexDirection: 'column',
-                overflow: 'hidden',
-            }}
-        >
+        <Card sx={cardSx}>
             <Grid sx={{ p: '1rem', justifyContent: 'center', alignItems: 'center' }} container spacing={1}>
                 {/* User filter */}
                 <Grid sx={{ height: '100%' }}>
@@ -614,9 +765,129 @@ export default function DebugLogFetcher() {
                     </Tooltip>
                 </Grid>
 
+                {/* Live tail */}
+                <Grid sx={{ height: '100%' }}>
+                    <Tooltip title={tailing ? 'Stop live tail' : 'Live tail: show new logs as they arrive'}>
+                        <IconButton
+                            sx={{ height: '100%' }}
+                            color={tailing ? 'primary' : 'default'}
+                            onClick={() => setTailing(!tailing)}
+                        >
+                            {tailing ? <SensorsIcon /> : <SensorsOffIcon />}
+                        </IconButton>
+                    </Tooltip>
+                </Grid>
+
+                {/* Only show logs with errors */}
+                <Grid sx={{ height: '100%' }}>
+                    <Tooltip
+                        title={errorsOnly ? 'Show all logs' : 'Only show downloaded logs with exceptions or errors'}
+                    >
+                        <IconButton
+                            sx={{ height: '100%' }}
+                            color={errorsOnly ? 'error' : 'default'}
+                            onClick={() => setErrorsOnly(!errorsOnly)}
+                        >
+                            <ErrorOutlineIcon />
+                        </IconButton>
+                    </Tooltip>
+                </Grid>
+
+                {/* More filters */}
+                <Grid sx={{ height: '100%' }}>
+                    <Tooltip title={showFilters ? 'Hide filters' : 'More filters'}>
+                        <IconButton
+                            sx={{ height: '100%' }}
+                            color={Object.values(filters).some(Boolean) ? 'primary' : 'default'}
+                            onClick={() => setShowFilters(!showFilters)}
+                        >
+                            <TuneIcon />
+                        </IconButton>
+                    </Tooltip>
+                </Grid>
+
+                {/* Local logs */}
+                <Grid sx={{ height: '100%' }}>
+                    <Tooltip title="Local logs: browse downloaded logs, even offline">
+                        <IconButton sx={{ height: '100%' }} onClick={() => setShowLocalLogs(true)}>
+                            <FolderIcon />
+                        </IconButton>
+                    </Tooltip>
+                </Grid>
+
+                {/* Search downloaded logs */}
+                <Grid sx={{ height: '100%' }}>
+                    <Tooltip title="Search the content of downloaded logs">
+                        <IconButton sx={{ height: '100%' }} onClick={() => setShowSearch(true)}>
+                            <ManageSearchIcon />
+                        </IconButton>
+                    </Tooltip>
+                </Grid>
+
+                {/* Compare two selected logs */}
+                <Grid sx={{ height: '100%' }}>
+                    <Tooltip title="Compare the two selected logs">
+                        <span style={{ height: '100%', display: 'inline-flex' }}>
+                            <IconButton
+                                sx={{ height: '100%' }}
+                                disabled={selectedLogIds.length !== 2}
+                                onClick={() => setComparingLogIds([selectedLogIds[0], selectedLogIds[1]])}
+                            >
+                                <CompareArrowsIcon />
+                            </IconButton>
+                        </span>
+                    </Tooltip>
+                </Grid>
+
+                {/* Export selected logs as a bundle */}
+                <Grid sx={{ height: '100%' }}>
+                    <Tooltip title="Export the selected logs as a bundle">
+                        <span style={{ height: '100%', display: 'inline-flex' }}>
+                            <IconButton
+                                sx={{ height: '100%' }}
+                                disabled={exporting || selectedLogIds.length === 0}
+                                onClick={handleExportLogs}
+                            >
+                                {exporting ? <CircularProgress size={20} /> : <IosShareIcon />}
+                            </IconButton>
+                        </span>
+                    </Tooltip>
+                </Grid>
+
+                {/* Manage trace flags */}
+                <Grid sx={{ height: '100%' }}>
+                    <Tooltip title="Manage trace flags and debug levels">
+                        <IconButton sx={{ height: '100%' }} onClick={() => setTraceFlagsOpen(true)}>
+                            <BugReportIcon />
+                        </IconButton>
+                    </Tooltip>
+                </Grid>
+
                 {/* Divider */}
                 <Divider orientation="vertical" flexItem />
 
+                {/* Delete selected logs */}
+                <Grid sx={{ height: '100%' }}>
+                    <Tooltip title="Delete selected logs">
+                        <span style={{ height: '100%', display: 'inline-flex' }}>
+                            <IconButton
+                                color="error"
+                                size="small"
+                                disabled={loading || deleting || selectedLogIds.length === 0}
+                                onClick={() => setPendingDelete({ userName: null, logIds: selectedLogIds })}
+                                sx={{ height: '100%' }}
+                            >
+                                <DeleteIcon />
+                                {selectedLogIds.length > 0 && (
+                                    <Typography variant="caption" sx={{ ml: 0.5 }}>
+                                        {selectedLogIds.length}
+                                    </Typography>
+                                )}
+                            </IconButton>
+                        </span>
+                    </Tooltip>
+                </Grid>
+
                 {/* Delete logs for selected user */}
                 <Grid sx={{ height: '100%' }}>
                     <Tooltip title="Delete logs for selected user">
@@ -712,139 +983,301 @@ export default function DebugLogFetcher() {
                 </Grid>
             </Grid>
 
-            {(loading || deleting) && <LinearProgress sx={{ flexShrink: 0 }} />}
-
-            <TableContainer component={Paper}>
-                <Table
-                    stickyHeader
-                    aria-label="debug logs table"
-                    size="small"
-                    sx={{ minWidth: 900 }} // Set a minimum width to ensure horizontal scrolling when needed
-                >
-                    <TableHead>
-                        <TableRow>
-                            <TableCell>
-                                <Tooltip title="User who created this debug log">
-                                    <span>Logged By User</span>
-                                </Tooltip>
-                            </TableCell>
-                            <TableCell>
-                                <Tooltip title="Size of the debug log in bytes">
-                                    <span>Log Length</span>
-                                </Tooltip>
-                            </TableCell>
-                            <TableCell>
-                                <Tooltip title="Date and time when the log was created">
-                                    <span>Start Time</span>
-                                </Tooltip>
-                            </TableCell>
-                            <TableCell>
-                                <Tooltip title="Operation that generated this log">
-                                    <span>Operation</span>
-                                </Tooltip>
-                            </TableCell>
-                            <TableCell>
-                                <Tooltip title="Application that generated this log">
-                                    <span>Application</span>
-                                </Tooltip>
-                            </TableCell>
-                            <TableCell>
-                                <Tooltip title="Success or error status of the operation">
-                                    <span>Status</span>
-                                </Tooltip>
-                            </TableCell>
-                            <TableCell>
-                                <Tooltip title="Primary method executed in this debug log">
-                                    <span>Method Name</span>
-                                </Tooltip>
-                            </TableCell>
-                            <TableCell align="center">{/* Actions column with empty header text */}</TableCell>
-                        </TableRow>
-                    </TableHead>
-                    <TableBody>
-                        {logs?.length === 0 && !loading ? (
+            {showFilters && (
+                <Grid sx={{ px: '1rem', pb: '1rem', alignItems: 'center' }} container spacing={1}>
+                    {(
+                        [
+                            ['operation', 'Operation'],
+                            ['status', 'Status'],
+                            ['application', 'Application'],
+                            ['requestIdentifier', 'Request ID'],
+                        ] as [keyof LogFilters, string][]
+                    ).map(([name, label]) => (
+                        <Grid key={name}>
+                            <TextField
+                                size="small"
+                                label={label}
+                                value={filters[name]}
+                                onChange={(e) => setFilters({ ...filters, [name]: e.target.value })}
+                                onKeyDown={(e) => e.key === 'Enter' && handleRefresh()}
+                            />
+                        </Grid>
+                    ))}
+                    {(
+                        [
+                            ['startTimeFrom', 'From'],
+                            ['startTimeTo', 'To'],
+                        ] as [keyof LogFilters, string][]
+                    ).map(([name, label]) => (
+                        <Grid key={name}>
+                            <TextField
+                                size="small"
+                                type="datetime-local"
+                                label={label}
+                                value={filters[name]}
+                                onChange={(e) => setFilters({ ...filters, [name]: e.target.value })}
+                                slotProps={{ inputLabel: { shrink: true } }}
+                            />
+                        </Grid>
+                    ))}
+                    <Grid>
+                        <Button variant="contained" size="small" onClick={handleRefresh} disabled={loading}>
+                            Apply
+                        </Button>
+                    </Grid>
+                    <Grid>
+                        <Button size="small" onClick={() => setFilters(EMPTY_FILTERS)}>
+                            Clear
+                        </Button>
+                    </Grid>
+                </Grid>
+            )}
+
+            {deleteProgress ? (
+                <Box sx={{ flexShrink: 0, px: '1rem' }}>
+                    <LinearProgress
+                        variant="determinate"
+                        value={
+                            deleteProgress.total > 0
+                                ? ((deleteProgress.deleted + deleteProgress.failed) / deleteProgress.total) * 100
+                                : 0
+                        }
+                    />
+                    <Typography variant="caption" color="text.secondary">
+                        Deleted {deleteProgress.deleted} of {deleteProgress.total} logs
+                        {deleteProgress.failed > 0 ? ` (${deleteProgress.failed} failed)` : ''}
+                    </Typography>
+                </Box>
+            ) : (
+                (loading || deleting) && <LinearProgress sx={{ flexShrink: 0 }} />
+            )}
+
+            <Box sx={{ display: 'flex', gap: 1, flexGrow: 1, minHeight: 0 }}>
+                <TableContainer component={Paper} sx={{ flex: hotspotLogId ? 1 : undefined }}>
+                    <Table
+                        stickyHeader
+                        aria-label="debug logs table"
+                        size="small"
+                        sx={{ minWidth: 900 }} // Set a minimum width to ensure horizontal scrolling when needed
+                    >
+                        <TableHead>
                             <TableRow>
-                                <TableCell colSpan={10} align="center">
-                                    <Typography variant="body2" sx={{ py: 2 }}>
-                                        No logs found. Click refresh to fetch logs.
-                                    </Typography>
+                                <TableCell padding="checkbox">
+                                    <Checkbox
+                                        size="small"
+                                        checked={logs.length > 0 && selectedLogIds.length === logs.length}
+                                        indeterminate={selectedLogIds.length > 0 && selectedLogIds.length < logs.length}
+                                        onChange={(e) =>
+                                            setSelectedLogIds(e.target.checked ? logs.map((log) => log.Id) : [])
+                                        }
+                                        inputProps={{ 'aria-label': 'select all logs' }}
+                                    />
+                                </TableCell>
+                                <TableCell>
+                                    <Tooltip title="User who created this debug log">
+                                        <span>Logged By User</span>
+                                    </Tooltip>
+                                </TableCell>
+                                <TableCell>
+                                    <Tooltip title="Size of the debug log in bytes">
+                                        <span>Log Length</span>
+                                    </Tooltip>
+                                </TableCell>
+                                <TableCell>
+                                    <Tooltip title="Date and time when the log was created">
+                                        <span>Start Time</span>
+                                    </Tooltip>
+                                </TableCell>
+                                <TableCell>
+                                    <Tooltip title="Operation that generated this log">
+                                        <span>Operation</span>
+                                    </Tooltip>
+                                </TableCell>
+                                <TableCell>
+                                    <Tooltip title="Application that generated this log">
+                                        <span>Application</span>
+                                    </Tooltip>
+                                </TableCell>
+                                <TableCell>
+                                    <Tooltip title="Success or error status of the operation">
+                                        <span>Status</span>
+                                    </Tooltip>
+                                </TableCell>
+                                <TableCell>
+                                    <Tooltip title="Primary method executed in this debug log">
+                                        <span>Method Name</span>
+                                    </Tooltip>
                                 </TableCell>
+                                <TableCell>
+                                    <Tooltip title="Governor limit usage reported at the end of the log">
+                                        <span>Limits</span>
+                                    </Tooltip>
+                                </TableCell>
+                                <TableCell align="center">{/* Actions column with empty header text */}</TableCell>
                             </TableRow>
-                        ) : (
-                            logs?.map((log) => (
-                                <TableRow key={log.Id} hover>
-                                    <TableCell>
-                                        <Tooltip title={log.LogUser.Name}>
-                                            <span>{log.LogUser.Name}</span>
-                                        </Tooltip>
-                                    </TableCell>
-                                    <TableCell>
-                                        <Tooltip title={formatLogLength(log.LogLength)}>
-                                            <span>{formatLogLength(log.LogLength)}</span>
-                                        </Tooltip>
-                                    </TableCell>
-                                    <TableCell>
-                                        <Tooltip title={formatDate(log.StartTime)}>
-                                            <span>{formatDate(log.StartTime)}</span>
-                                        </Tooltip>
-                                    </TableCell>
-                                    <TableCell className="scrollable" sx={{ maxWidth: '150px' }}>
-                                        <Tooltip title={log.Operation}>
-                                            <span>{log.Operation}</span>
-                                        </Tooltip>
-                                    </TableCell>
-                                    <TableCell className="scrollable">
-                                        <Tooltip title={log.Application}>
-                                            <span>{log.Application}</span>
-                                        </Tooltip>
+                        </TableHead>
+                        <TableBody>
+                            {visibleLogs?.length === 0 && !loading ? (
+                                <TableRow>
+                                    <TableCell colSpan={10} align="center">
+                                        <Typography variant="body2" sx={{ py: 2 }}>
+                                            {errorsOnly && logs.length > 0
+                                                ? 'None of the downloaded logs contain errors.'
+                                                : 'No logs found. Click refresh to fetch logs.'}
+                                        </Typography>
                                     </TableCell>
-                                    <TableCell className="scrollable" sx={{ maxWidth: '100px' }}>
-                                        <Tooltip title={log.Status}>
-                                            <span>
-                                                <Chip
-                                                    label={log.Status}
-                                                    size="small"
-                                                    color={log.Status === 'Success' ? 'success' : 'error'}
-                                                    variant="outlined"
+                                </TableRow>
+                            ) : (
+                                visibleLogs?.map((log) => (
+                                    <TableRow
+                                        key={log.Id}
+                                        hover
+                                        onClick={() => setAnalyzingLogId(log.Id)}
+                                        sx={{ cursor: 'pointer' }}
+                                        selected={selectedLogIds.includes(log.Id)}
+                                    >
+                                        <TableCell padding="checkbox" onClick={(e) => e.stopPropagation()}>
+                                            <Checkbox
+                                                size="small"
+                                                checked={selectedLogIds.includes(log.Id)}
+                                                onChange={(e) =>
+                                                    setSelectedLogIds((current) =>
+                                                        e.target.checked
+                                                            ? [...current, log.Id]
+                                                            : current.filter((id) => id !== log.Id),
+                                                    )
+                                                }
+                                            />
+                                        </TableCell>
+                                        <TableCell>
+                                            <Tooltip title={log.LogUser.Name}>
+                                                <span>{log.LogUser.Name}</span>
+                                            </Tooltip>
+                                        </TableCell>
+                                        <TableCell>
+                                            <Tooltip title={formatLogLength(log.LogLength)}>
+                                                <span>{formatLogLength(log.LogLength)}</span>
+                                            </Tooltip>
+                                        </TableCell>
+                                        <TableCell>
+                                            <Tooltip title={formatDate(log.StartTime)}>
+                                                <span>{formatDate(log.StartTime)}</span>
+                                            </Tooltip>
+                                        </TableCell>
+                                        <TableCell className="scrollable" sx={{ maxWidth: '150px' }}>
+                                            <Tooltip title={log.Operation}>
+                                                <span>{log.Operation}</span>
+                                            </Tooltip>
+                                        </TableCell>
+                                        <TableCell className="scrollable">
+                                            <Tooltip title={log.Application}>
+                                                <span>{log.Application}</span>
+                                            </Tooltip>
+                                        </TableCell>
+                                        <TableCell className="scrollable" sx={{ maxWidth: '220px' }}>
+                                            {/* Status is often "Success" even when an exception was handled */}
+                                            <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
+                                                <Tooltip title={log.Status}>
+                                                    <span>
+                                                        <Chip
+                                                            label={log.Status}
+                                                            size="small"
+                                                            color={log.Status === 'Success' ? 'success' : 'error'}
+                                                            variant="outlined"
+                                                        />
+                                                    </span>
+                                                </Tooltip>
+                                                <LogErrors
+                                                    logId={log.Id}
+                                                    eager={errorsOnly}
+                                                    onLoaded={handleErrorsLoaded}
                                                 />
-                                            </span>
-                                        </Tooltip>
-                                    </TableCell>
-                                    <TableCell sx={{ minWidth: '250px' }}>
-                                        <MethodName logId={log.Id} />
-                                    </TableCell>
-                                    <TableCell align="center">
-                                        <Tooltip
-                                            title={
-                                                downloadingLogId === log.Id
-                                                    ? 'Opening in VS Code...'
-                                                    : 'Download and open in VS Code'
-                                            }
-                                        >
-                                            <span>
-                                                {' '}
-                                                {/* Wrapper needed for disabled tooltip */}
+                                            </Box>
+                                        </TableCell>
+                                        <TableCell sx={{ minWidth: '250px' }}>
+                                            <MethodName logId={log.Id} />
+                                        </TableCell>
+                                        <TableCell sx={{ minWidth: '220px' }}>
+                                            <LogLimits logId={log.Id} />
+                                        </TableCell>
+                                        <TableCell align="center">
+                                            <Tooltip
+                                                title={
+                                                    downloadingLogId === log.Id
+                                                        ? 'Opening in VS Code...'
+                                                        : 'Download and open in VS Code'
+                                                }
+                                            >
+                                                <span>
+                                                    {' '}
+                                                    {/* Wrapper needed for disabled tooltip */}
+                                                    <IconButton
+                                                        size="small"
+                                                        onClick={(e) => {
+                                                            e.stopPropagation();
+                                                            downloadFullLog(log.Id);
+                                                        }}
+                                                        disabled={downloadingLogId !== null}
+                                                        color="primary"
+                                                    >
+                                                        {downloadingLogId === log.Id ? (
+                                                            <CircularProgress size={18} thickness={5} color="primary" />
+                                                        ) : (
+                                                            <DownloadIcon fontSize="small" />
+                                                        )}
+                                                    </IconButton>
+                                                </span>
+                                            </Tooltip>
+                                            <Tooltip title="SOQL and DML hotspots">
                                                 <IconButton
                                                     size="small"
-                                                    onClick={() => downloadFullLog(log.Id)}
-                                                    disabled={downloadingLogId !== null}
-                                                    color="primary"
+                                                    color={hotspotLogId === log.Id ? 'warning' : 'default'}
+                                                    onClick={(e) => {
+                                                        e.stopPropagation();
+                                                        setHotspotLogId(log.Id);
+                                                    }}
                                                 >
-                                                    {downloadingLogId === log.Id ? (
-                                                        <CircularProgress size={18} thickness={5} color="primary" />
-                                                    ) : (
-                                                        <DownloadIcon fontSize="small" />
-                                                    )}
+                                                    <WhatshotIcon fontSize="small" />
                                                 </IconButton>
-                                            </span>
-                                        </Tooltip>
-                                    </TableCell>
-                                </TableRow>
-                            ))
-                        )}
-                    </TableBody>
-                </Table>
-            </TableContainer>
+                                            </Tooltip>
+                                            <Tooltip title="Delete log">
+                                                <span>
+                                                    <IconButton
+                                                        size="small"
+                                                        color="error"
+                                                        disabled={deleting}
+                                                        onClick={(e) => {
+                                                            e.stopPropagation();
+                                                            setPendingDelete({ userName: null, logIds: [log.Id] });
+                                                        }}
+                                                    >
+                                                        <DeleteIcon fontSize="small" />
+                                                    </IconButton>
+                                                </span>
+                                            </Tooltip>
+                                        </TableCell>
+                                    </TableRow>
+                                ))
+                            )}
+                        </TableBody>
+                    </Table>
+                    {nextCursor && !loading && (
+                        <Box sx={{ display: 'flex', justifyContent: 'center', py: 1 }}>
+                            <Button
+                                size="small"
+                                onClick={handleLoadMore}
+                                disabled={loadingMore}
+                                startIcon={loadingMore ? <CircularProgress size={16} /> : null}
+                            >
+                                {loadingMore ? 'Loading...' : 'Load more'}
+                            </Button>
+                        </Box>
+                    )}
+                </TableContainer>
+
+                {/* SOQL and DML hotspots of a log, next to the list */}
+                {hotspotLogId && <LogHotspots logId={hotspotLogId} onClose={() => setHotspotLogId(null)} />}
+            </Box>
 
             <Snackbar
                 open={snackbar.open}
@@ -860,6 +1293,7 @@ export default function DebugLogFetcher() {
                     {snackbar.message}
                 </Alert>
             </Snackbar>
+            <TraceFlagManager open={traceFlagsOpen} onClose={() => setTraceFlagsOpen(false)} />
             {/* Confirmation Modal for Delete */}
             <Dialog
                 open={!!pendingDelete}
@@ -868,9 +1302,11 @@ export default function DebugLogFetcher() {
             >
                 <DialogTitle id="delete-confirmation-dialog-title">Confirm Deletion</DialogTitle>
                 <DialogContent>
-                    {pendingDelete?.userName
-                        ? `Are you sure you want to delete logs for "${pendingDelete.userName}"?`
-                        : 'Are you sure you want to delete all logs?'}
+                    {pendingDelete?.logIds
+                        ? `Are you sure you want to delete ${pendingDelete.logIds.length === 1 ? 'this log' : `${pendingDelete.logIds.length} selected logs`}?`
+                        : pendingDelete?.userName
+                          ? `Are you sure you want to delete logs for "${pendingDelete.userName}"?`
+                          : 'Are you sure you want to delete all logs?'}
                 </DialogContent>
                 <DialogActions>
                     <Button
@@ -883,7 +1319,11 @@ export default function DebugLogFetcher() {
                     </Button>
                     <Button
                         onClick={() => {
-                            handleDeleteLogs(pendingDelete?.userName ?? null);
+                            if (pendingDelete?.logIds?.length === 1) {
+                                handleDeleteLog(pendingDelete.logIds[0]);
+                            } else {
+                                handleDeleteLogs(pendingDelete?.userName ?? null, pendingDelete?.logIds);
+                            }
                             setPendingDelete(null);
                         }}
                         color="error"
@@ -899,4 +1339,3 @@ export default function DebugLogFetcher() {
         </Card>
     );
 }
-
@@ -0,0 +1,75 @@
+// Extend window interface with the token the Express server expects
+declare global {
+    interface Window {
+        extensionToken: string;
+    }
+}
+
+export declare type ServerEvent = {
+    event: string;
+    data: unknown;
+};
+
+/**
+ * Open a server-sent event stream, such as the live tail of new debug logs.
+ * EventSource cannot send the extension token header, so the stream is read with fetch instead.
+ * Resolves when the stream ends or the signal is aborted.
+ */
+export async function openEventStream(
+    endpoint: string,
+    onEvent: (event: ServerEvent) => void,
+    signal?: AbortSignal,
+    method: string = 'GET',
+    data: unknown = null,
+): Promise<void> {
+    const response = await fetch(window.serverBaseUrl + endpoint, {
+        method,
+        headers: {
+            Accept: 'text/event-stream',
+            'Content-Type': 'application/json',
+            'X-VSCode-Extension-Token': window.extensionToken,
+        },
+        body: data ? JSON.stringify(data) : undefined,
+        signal,
+    });
+    if (!response.ok || !response.body) {
+        throw new Error('API call failed: ' + response.status);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+        for (;;) {
+            const { done, value } = await reader.read();
+            if (done) return;
+            buffer += decoder.decode(value, { stream: true });
+
+            // Events are separated by a blank line
+            let separator = buffer.indexOf('\n\n');
+            while (separator !== -1) {
+                const block = buffer.slice(0, separator);
+                buffer = buffer.slice(separator + 2);
+                separator = buffer.indexOf('\n\n');
+
+                let event = 'message';
+                const data: string[] = [];
+                for (const line of block.split('\n')) {
+                    if (line.startsWith('event:')) {
+                        event = line.slice(6).trim();
+                    } else if (line.startsWith('data:')) {
+                        data.push(line.slice(5).trim());
+                    }
+                }
+                // Lines starting with ':' are heartbeats and carry no data
+                if (data.length > 0) {
+                    onEvent({ event, data: JSON.parse(data.join('\n')) });
+                }
+            }
+        }
+    } catch (e) {
+        if (signal?.aborted) return;
+        throw e;
+    }
+}
@@ -0,0 +1,262 @@
+import { useEffect, useState } from 'react';
+import {
+    Box,
+    Chip,
+    CircularProgress,
+    IconButton,
+    LinearProgress,
+    Paper,
+    Table,
+    TableBody,
+    TableCell,
+    TableContainer,
+    TableHead,
+    TableRow,
+    TextField,
+    Tooltip,
+    Typography,
+} from '@mui/material';
+import ArrowBackIcon from '@mui/icons-material/ArrowBack';
+import RefreshIcon from '@mui/icons-material/Refresh';
+import OpenInNewIcon from '@mui/icons-material/OpenInNew';
+import PushPinIcon from '@mui/icons-material/PushPin';
+import PushPinOutlinedIcon from '@mui/icons-material/PushPinOutlined';
+
+declare type LocalLog = {
+    id: string;
+    org: string;
+    userName: string | null;
+    operation: string | null;
+    application: string | null;
+    status: string | null;
+    startTime: string | null;
+    logLength: number;
+    methodName: string | null;
+    downloadedAt: string;
+    pinned?: boolean;
+};
+
+declare type LocalLogsResponse = {
+    success: boolean;
+    logs: LocalLog[];
+};
+
+// Logs downloaded to the local cache, listed without needing a connection to the org
+export default function LocalLogs({ onAnalyze, onClose }: { onAnalyze: (logId: string) => void; onClose: () => void }) {
+    const [logs, setLogs] = useState<LocalLog[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [search, setSearch] = useState('');
+    const [openingLogId, setOpeningLogId] = useState<string | null>(null);
+
+    const fetchLocalLogs = async () => {
+        if (!window.callServerApi) return;
+        setLoading(true);
+        setError(null);
+        try {
+            const response: LocalLogsResponse = await window.callServerApi('/api/localLogs');
+            if (response?.success) {
+                setLogs(response.logs);
+            } else {
+                setError('Failed to list local logs');
+            }
+        } catch (e) {
+            setError('Error listing local logs: ' + (e instanceof Error ? e.message : String(e)));
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    // Open the stored log in the editor
+    const openLog = async (logId: string) => {
+        if (!window.callServerApi) return;
+        setOpeningLogId(logId);
+        try {
+            await window.callServerApi(`/api/debugLogs/${logId}/download`);
+            // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        } catch (_) {
+            /* empty */
+        } finally {
+            setOpeningLogId(null);
+        }
+    };
+
+    // Pinned logs are never removed by the cache retention policy
+    const togglePinned = async (log: LocalLog) => {
+        if (!window.callServerApi) return;
+        try {
+            const response: { success: boolean; pinned: boolean } = await window.callServerApi(
+                `/api/localLogs/${log.id}/pin`,
+                'POST',
+                { pinned: !log.pinned },
+            );
+            if (response?.success) {
+                setLogs((current) => current.map((l) => (l.id === log.id ? { ...l, pinned: response.pinned } : l)));
+            }
+        } catch (e) {
+            setError('Error pinning log: ' + (e instanceof Error ? e.message : String(e)));
+        }
+    };
+
+    useEffect(() => {
+        fetchLocalLogs();
+    }, []);
+
+    const searchTerm = search.trim().toLowerCase();
+    const filteredLogs = searchTerm
+        ? logs.filter((log) =>
+              [log.id, log.org, log.userName, log.operation, log.application, log.status, log.methodName].some(
+                  (value) => value?.toLowerCase().includes(searchTerm),
+              ),
+          )
+        : logs;
+
+    return (
+        <>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, p: '1rem' }}>
+                <Tooltip title="Back to org logs">
+                    <IconButton onClick={onClose}>
+                        <ArrowBackIcon />
+                    </IconButton>
+                </Tooltip>
+                <Typography variant="subtitle1">Local Logs</Typography>
+                <TextField
+                    size="small"
+                    label="Search"
+                    placeholder="User, operation, method..."
+                    sx={{ ml: 2, width: '20rem' }}
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                />
+                <Tooltip title="Refresh local logs">
+                    <span>
+                        <IconButton onClick={fetchLocalLogs} disabled={loading}>
+                            <RefreshIcon />
+                        </IconButton>
+                    </span>
+                </Tooltip>
+                <Box sx={{ flexGrow: 1 }} />
+                <Typography variant="caption" color="text.secondary">
+                    {filteredLogs.length} of {logs.length} logs
+                </Typography>
+            </Box>
+
+            {loading && <LinearProgress sx={{ flexShrink: 0 }} />}
+
+            <TableContainer component={Paper}>
+                <Table stickyHeader aria-label="local debug logs table" size="small" sx={{ minWidth: 900 }}>
+                    <TableHead>
+                        <TableRow>
+                            <TableCell>Org</TableCell>
+                            <TableCell>Logged By User</TableCell>
+                            <TableCell>Start Time</TableCell>
+                            <TableCell>Operation</TableCell>
+                            <TableCell>Status</TableCell>
+                            <TableCell>Log Length</TableCell>
+                            <TableCell>Method Name</TableCell>
+                            <TableCell align="center">{/* Actions column with empty header text */}</TableCell>
+                        </TableRow>
+                    </TableHead>
+                    <TableBody>
+                        {filteredLogs.length === 0 && !loading ? (
+                            <TableRow>
+                                <TableCell colSpan={8} align="center">
+                                    <Typography variant="body2" sx={{ py: 2 }}>
+                                        {error ?? 'No downloaded logs found.'}
+                                    </Typography>
+                                </TableCell>
+                            </TableRow>
+                        ) : (
+                            filteredLogs.map((log) => (
+                                <TableRow
+                                    key={`${log.org}/${log.id}`}
+                                    hover
+                                    onClick={() => onAnalyze(log.id)}
+                                    sx={{ cursor: 'pointer' }}
+                                >
+                                    <TableCell className="scrollable" sx={{ maxWidth: '180px' }}>
+                                        <Tooltip title={log.org}>
+                                            <span>{log.org}</span>
+                                        </Tooltip>
+                                    </TableCell>
+                                    <TableCell>{log.userName ?? '-'}</TableCell>
+                                    <TableCell>
+                                        <Tooltip title={`Downloaded ${new Date(log.downloadedAt).toLocaleString()}`}>
+                                            <span>
+                                                {log.startTime ? new Date(log.startTime).toLocaleString() : '-'}
+                                            </span>
+                                        </Tooltip>
+                                    </TableCell>
+                                    <TableCell className="scrollable" sx={{ maxWidth: '150px' }}>
+                                        {log.operation ?? '-'}
+                                    </TableCell>
+                                    <TableCell>
+                                        {log.status ? (
+                                            <Chip
+                                                label={log.status}
+                                                size="small"
+                                                color={log.status === 'Success' ? 'success' : 'error'}
+                                                variant="outlined"
+                                            />
+                                        ) : (
+                                            '-'
+                                        )}
+                                    </TableCell>
+                                    <TableCell>{`${log.logLength.toLocaleString()} bytes`}</TableCell>
+                                    <TableCell sx={{ minWidth: '250px' }}>
+                                        <Tooltip title={log.methodName ?? 'No method found'}>
+                                            <span>{log.methodName ?? 'N/A'}</span>
+                                        </Tooltip>
+                                    </TableCell>
+                                    <TableCell align="center" sx={{ whiteSpace: 'nowrap' }}>
+                                        <Tooltip
+                                            title={
+                                                log.pinned
+                                                    ? 'Unpin: allow the retention policy to remove this log'
+                                                    : 'Pin: keep this log when the cache is cleaned up'
+                                            }
+                                        >
+                                            <IconButton
+                                                size="small"
+                                                color={log.pinned ? 'primary' : 'default'}
+                                                onClick={(e) => {
+                                                    e.stopPropagation();
+                                                    togglePinned(log);
+                                                }}
+                                            >
+                                                {log.pinned ? (
+                                                    <PushPinIcon fontSize="small" />
+                                                ) : (
+                                                    <PushPinOutlinedIcon fontSize="small" />
+                                                )}
+                                            </IconButton>
+                                        </Tooltip>
+                                        <Tooltip title="Open in VS Code">
+                                            <span>
+                                                <IconButton
+                                                    size="small"
+                                                    color="primary"
+                                                    disabled={openingLogId !== null}
+                                                    onClick={(e) => {
+                                                        e.stopPropagation();
+                                                        openLog(log.id);
+                                                    }}
+                                                >
+                                                    {openingLogId === log.id ? (
+                                                        <CircularProgress size={18} thickness={5} />
+                                                    ) : (
+                                                        <OpenInNewIcon fontSize="small" />
+                                                    )}
+                                                </IconButton>
+                                            </span>
+                                        </Tooltip>
+                                    </TableCell>
+                                </TableRow>
+                            ))
+                        )}
+                    </TableBody>
+                </Table>
+            </TableContainer>
+        </>
+    );
+}
@@ -0,0 +1,216 @@
+import { useEffect, useState } from 'react';
+import {
+    Alert,
+    Box,
+    Chip,
+    FormControlLabel,
+    IconButton,
+    LinearProgress,
+    Switch,
+    Table,
+    TableBody,
+    TableCell,
+    TableContainer,
+    TableHead,
+    TableRow,
+    Tooltip,
+    Typography,
+} from '@mui/material';
+import ArrowBackIcon from '@mui/icons-material/ArrowBack';
+
+declare type DiffStats = {
+    count: number;
+    durationNanos: number;
+    rows: number;
+};
+
+declare type DiffEntry = {
+    kind: string;
+    name: string;
+    status: 'onlyLeft' | 'onlyRight' | 'changed' | 'same';
+    left: DiffStats | null;
+    right: DiffStats | null;
+};
+
+declare type LimitValue = { name: string; used: number; max: number };
+
+declare type LogDiffResult = {
+    entries: DiffEntry[];
+    limits: { name: string; left: LimitValue | null; right: LimitValue | null }[];
+    totalNanos: { left: number; right: number };
+};
+
+const KIND_LABELS: Record<string, string> = {
+    codeUnit: 'Code unit',
+    method: 'Method',
+    soql: 'SOQL',
+    dml: 'DML',
+    callout: 'Callout',
+    flow: 'Flow',
+};
+
+const STATUS_COLORS: Record<DiffEntry['status'], string | undefined> = {
+    onlyLeft: 'error.main',
+    onlyRight: 'success.main',
+    changed: 'warning.main',
+    same: undefined,
+};
+
+// Format elapsed nanoseconds for display
+const formatNanos = (nanos: number) => {
+    if (nanos >= 1e9) return `${(nanos / 1e9).toFixed(2)} s`;
+    if (nanos >= 1e6) return `${(nanos / 1e6).toFixed(2)} ms`;
+    if (nanos >= 1e3) return `${(nanos / 1e3).toFixed(1)} µs`;
+    return `${nanos} ns`;
+};
+
+const formatStats = (stats: DiffStats | null, kind: string) => {
+    if (!stats) return '—';
+    const rows = kind === 'soql' || kind === 'dml' ? `, ${stats.rows} rows` : '';
+    return `${stats.count}× · ${formatNanos(stats.durationNanos)}${rows}`;
+};
+
+const formatDelta = (entry: DiffEntry) => {
+    const count = (entry.right?.count ?? 0) - (entry.left?.count ?? 0);
+    return count === 0 ? '' : `${count > 0 ? '+' : ''}${count}`;
+};
+
+// Structural comparison of two logs: what ran in one but not the other, and how counts changed
+export default function LogDiff({
+    leftId,
+    rightId,
+    onClose,
+}: {
+    leftId: string;
+    rightId: string;
+    onClose: () => void;
+}) {
+    const [diff, setDiff] = useState<LogDiffResult | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [differencesOnly, setDifferencesOnly] = useState(true);
+
+    useEffect(() => {
+        const loadDiff = async () => {
+            if (!window.callServerApi) return;
+            setLoading(true);
+            try {
+                const result: { success: boolean; diff?: LogDiffResult; error?: string } = await window.callServerApi(
+                    `/api/debugLogs/diff?left=${leftId}&right=${rightId}`,
+                    'GET',
+                );
+                if (result?.success && result.diff) {
+                    setDiff(result.diff);
+                } else {
+                    setError(result?.error ?? 'Failed to compare logs');
+                }
+            } catch (e) {
+                setError('Error comparing logs: ' + (e instanceof Error ? e.message : String(e)));
+            } finally {
+                setLoading(false);
+            }
+        };
+        loadDiff();
+    }, [leftId, rightId]);
+
+    const entries = diff?.entries.filter((e) => !differencesOnly || e.status !== 'same') ?? [];
+    const changedLimits = diff?.limits.filter((l) => l.left?.used !== l.right?.used) ?? [];
+
+    return (
+        <>
+            <Box sx={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: 1, p: '1rem' }}>
+                <Tooltip title="Back to org logs">
+                    <IconButton onClick={onClose}>
+                        <ArrowBackIcon />
+                    </IconButton>
+                </Tooltip>
+                <Typography variant="subtitle1">
+                    {leftId} ↔ {rightId}
+                </Typography>
+                {diff && (
+                    <Typography variant="caption" color="text.secondary">
+                        {formatNanos(diff.totalNanos.left)} vs {formatNanos(diff.totalNanos.right)}
+                    </Typography>
+                )}
+                <Box sx={{ flexGrow: 1 }} />
+                <FormControlLabel
+                    control={
+                        <Switch
+                            size="small"
+                            checked={differencesOnly}
+                            onChange={(e) => setDifferencesOnly(e.target.checked)}
+                        />
+                    }
+                    label="Differences only"
+                />
+            </Box>
+
+            {loading && <LinearProgress sx={{ flexShrink: 0 }} />}
+            {error && (
+                <Alert severity="error" sx={{ mx: '1rem', mb: 1 }}>
+                    {error}
+                </Alert>
+            )}
+            {changedLimits.length > 0 && (
+                <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, px: '1rem', pb: 1 }}>
+                    {changedLimits.map((limit) => (
+                        <Chip
+                            key={limit.name}
+                            size="small"
+                            variant="outlined"
+                            label={`${limit.name}: ${limit.left?.used ?? '—'} → ${limit.right?.used ?? '—'}`}
+                        />
+                    ))}
+                </Box>
+            )}
+
+            {diff && (
+                <TableContainer sx={{ flexGrow: 1, overflow: 'auto' }}>
+                    <Table stickyHeader size="small">
+                        <TableHead>
+                            <TableRow>
+                                <TableCell>Type</TableCell>
+                                <TableCell>Name</TableCell>
+                                <TableCell>{leftId}</TableCell>
+                                <TableCell>{rightId}</TableCell>
+                                <TableCell align="right">Δ Count</TableCell>
+                            </TableRow>
+                        </TableHead>
+                        <TableBody>
+                            {entries.map((entry) => (
+                                <TableRow key={`${entry.kind}|${entry.name}`} hover>
+                                    <TableCell>
+                                        <Chip size="small" label={KIND_LABELS[entry.kind] ?? entry.kind} />
+                                    </TableCell>
+                                    <TableCell
+                                        sx={{
+                                            color: STATUS_COLORS[entry.status],
+                                            fontFamily: 'monospace',
+                                            wordBreak: 'break-all',
+                                        }}
+                                    >
+                                        {entry.name}
+                                    </TableCell>
+                                    <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                                        {formatStats(entry.left, entry.kind)}
+                                    </TableCell>
+                                    <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                                        {formatStats(entry.right, entry.kind)}
+                                    </TableCell>
+                                    <TableCell align="right">{formatDelta(entry)}</TableCell>
+                                </TableRow>
+                            ))}
+                            {entries.length === 0 && (
+                                <TableRow>
+                                    <TableCell colSpan={5} align="center">
+                                        Both logs ran the same operations.
+                                    </TableCell>
+                                </TableRow>
+                            )}
+                        </TableBody>
+                    </Table>
+                </TableContainer>
+            )}
+        </>
+    );
+}
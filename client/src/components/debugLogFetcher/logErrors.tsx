@@ -0,0 +1,144 @@
+import { useEffect, useRef, useState } from 'react';
+import { Box, Chip, CircularProgress, Tooltip, Typography } from '@mui/material';
+import ErrorOutlineIcon from '@mui/icons-material/ErrorOutline';
+import { runLimited } from './requestLimiter';
+
+export declare type LogError = {
+    type: string;
+    message: string;
+    lineNumber: number;
+    sourceLine: number | null;
+};
+
+declare type ErrorsResponse = {
+    success: boolean;
+    logId: string;
+    errors: LogError[] | null; // Null when the log is not downloaded
+};
+
+const TYPE_LABELS: Record<string, string> = {
+    FATAL_ERROR: 'Fatal error',
+    EXCEPTION_THROWN: 'Exception',
+    VALIDATION_FAIL: 'Validation',
+};
+
+// Errors only change when the log is re-downloaded, so they are kept for the session
+const errorsCache: { [logId: string]: LogError[] } = {};
+
+// Chip marking a log whose body contains exceptions, fatal errors or failed validations.
+// Errors are read from downloaded logs once the row scrolls into view, or right away when `eager` is set.
+// Logs that are not downloaded are never fetched for this, their errors show as unknown.
+export default function LogErrors({
+    logId,
+    eager = false,
+    onLoaded,
+}: {
+    logId: string;
+    eager?: boolean;
+    onLoaded?: (logId: string, errors: LogError[] | null) => void;
+}) {
+    // Undefined until loaded, null when unknown
+    const [errors, setErrors] = useState<LogError[] | null | undefined>(errorsCache[logId]);
+    const [visible, setVisible] = useState(eager);
+    const [loading, setLoading] = useState(false);
+    const ref = useRef<HTMLSpanElement | null>(null);
+
+    useEffect(() => {
+        if (eager) setVisible(true);
+    }, [eager]);
+
+    useEffect(() => {
+        const node = ref.current;
+        if (!node || errors !== undefined || visible) return;
+        const observer = new window.IntersectionObserver(
+            (entries) => {
+                if (entries.some((entry) => entry.isIntersecting)) {
+                    setVisible(true);
+                    observer.disconnect();
+                }
+            },
+            { threshold: 0.1 },
+        );
+        observer.observe(node);
+        return () => observer.disconnect();
+    }, [errors, visible]);
+
+    // Report cached errors too, so the errors-only filter knows about them
+    useEffect(() => {
+        if (errors !== undefined) onLoaded?.(logId, errors);
+    }, [logId, errors, onLoaded]);
+
+    useEffect(() => {
+        if (!visible || errors !== undefined || !window.callServerApi) return;
+        let cancelled = false;
+
+        const fetchErrors = async () => {
+            setLoading(true);
+            try {
+                const response: ErrorsResponse = await runLimited(() =>
+                    window.callServerApi(`/api/debugLogs/${logId}/errors`),
+                );
+                if (response?.success) {
+                    // Unknown errors are asked again next time, the log may have been downloaded by then
+                    if (response.errors) errorsCache[logId] = response.errors;
+                    if (!cancelled) setErrors(response.errors);
+                }
+            } catch {
+                // The row simply shows no error chip; the limits column reports download failures
+            } finally {
+                if (!cancelled) setLoading(false);
+            }
+        };
+
+        fetchErrors();
+        return () => {
+            cancelled = true;
+        };
+    }, [logId, visible, errors]);
+
+    if (loading) {
+        return <CircularProgress size={14} />;
+    }
+    if (errors === undefined) {
+        return <span ref={ref} />;
+    }
+    if (errors === null) {
+        return (
+            <Tooltip title="Errors are unknown until the log is downloaded">
+                <Typography variant="caption" color="text.secondary">
+                    unknown
+                </Typography>
+            </Tooltip>
+        );
+    }
+    if (errors.length === 0) {
+        return null;
+    }
+
+    const first = errors[0];
+    const firstLine = first.message.split('\n')[0];
+    return (
+        <Tooltip
+            title={
+                <Box component="span" sx={{ whiteSpace: 'pre-line' }}>
+                    {errors
+                        .slice(0, 5)
+                        .map(
+                            (e) =>
+                                `${TYPE_LABELS[e.type] ?? e.type} (line ${e.lineNumber}): ${e.message.split('\n')[0]}`,
+                        )
+                        .join('\n')}
+                    {errors.length > 5 ? `\n…and ${errors.length - 5} more` : ''}
+                </Box>
+            }
+        >
+            <Chip
+                size="small"
+                color="error"
+                icon={<ErrorOutlineIcon />}
+                label={`${errors.length > 1 ? `${errors.length}× ` : ''}${firstLine || TYPE_LABELS[first.type]}`}
+                sx={{ maxWidth: '16rem' }}
+            />
+        </Tooltip>
+    );
+}
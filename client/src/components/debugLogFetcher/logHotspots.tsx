@@ -0,0 +1,190 @@
+import { useEffect, useState } from 'react';
+import {
+    Alert,
+    Box,
+    Chip,
+    IconButton,
+    LinearProgress,
+    Paper,
+    Table,
+    TableBody,
+    TableCell,
+    TableContainer,
+    TableHead,
+    TableRow,
+    TableSortLabel,
+    ToggleButton,
+    ToggleButtonGroup,
+    Tooltip,
+    Typography,
+} from '@mui/material';
+import CloseIcon from '@mui/icons-material/Close';
+
+declare type Hotspot = {
+    kind: 'soql' | 'dml';
+    statement: string;
+    sourceLine: number | null;
+    method: string | null;
+    count: number;
+    rows: number;
+    totalNanos: number;
+    callSites: number;
+    inLoop: boolean;
+};
+
+declare type HotspotResponse = {
+    success: boolean;
+    statements: Hotspot[];
+    callSites: Hotspot[];
+    error?: string;
+};
+
+declare type SortKey = 'count' | 'rows' | 'totalNanos';
+
+// Format elapsed nanoseconds as milliseconds
+const formatMillis = (nanos: number) => `${(nanos / 1e6).toFixed(2)} ms`;
+
+// SOQL and DML of a log grouped by statement or call site, flagging statements repeated inside loops
+export default function LogHotspots({ logId, onClose }: { logId: string; onClose: () => void }) {
+    const [report, setReport] = useState<HotspotResponse | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [groupBy, setGroupBy] = useState<'callSites' | 'statements'>('callSites');
+    const [sortKey, setSortKey] = useState<SortKey>('count');
+    const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
+
+    useEffect(() => {
+        const loadHotspots = async () => {
+            if (!window.callServerApi) return;
+            setLoading(true);
+            setError(null);
+            try {
+                const result: HotspotResponse = await window.callServerApi(`/api/debugLogs/${logId}/hotspots`, 'GET');
+                if (result?.success) {
+                    setReport(result);
+                } else {
+                    setError(result?.error ?? 'Failed to analyze log');
+                }
+            } catch (e) {
+                setError('Error analyzing log: ' + (e instanceof Error ? e.message : String(e)));
+            } finally {
+                setLoading(false);
+            }
+        };
+        loadHotspots();
+    }, [logId]);
+
+    const handleSort = (key: SortKey) => {
+        if (key === sortKey) {
+            setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
+        } else {
+            setSortKey(key);
+            setSortDirection('desc');
+        }
+    };
+
+    const rows = [...(report?.[groupBy] ?? [])].sort((a, b) =>
+        sortDirection === 'asc' ? a[sortKey] - b[sortKey] : b[sortKey] - a[sortKey],
+    );
+    const loopCount = report?.callSites.filter((h) => h.inLoop).length ?? 0;
+
+    const sortableHeader = (key: SortKey, label: string) => (
+        <TableCell align="right" sortDirection={sortKey === key ? sortDirection : false}>
+            <TableSortLabel
+                active={sortKey === key}
+                direction={sortKey === key ? sortDirection : 'desc'}
+                onClick={() => handleSort(key)}
+            >
+                {label}
+            </TableSortLabel>
+        </TableCell>
+    );
+
+    return (
+        <Paper variant="outlined" sx={{ display: 'flex', flexDirection: 'column', overflow: 'hidden', flex: 1 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, p: 1 }}>
+                <Typography variant="subtitle2" sx={{ flexGrow: 1 }}>
+                    SOQL & DML hotspots · {logId}
+                </Typography>
+                <ToggleButtonGroup
+                    size="small"
+                    exclusive
+                    value={groupBy}
+                    onChange={(_, value) => value && setGroupBy(value)}
+                >
+                    <ToggleButton value="callSites">Call site</ToggleButton>
+                    <ToggleButton value="statements">Statement</ToggleButton>
+                </ToggleButtonGroup>
+                <Tooltip title="Close">
+                    <IconButton size="small" onClick={onClose}>
+                        <CloseIcon fontSize="small" />
+                    </IconButton>
+                </Tooltip>
+            </Box>
+
+            {loading && <LinearProgress sx={{ flexShrink: 0 }} />}
+            {error && (
+                <Alert severity="error" sx={{ mx: 1, mb: 1 }}>
+                    {error}
+                </Alert>
+            )}
+            {loopCount > 0 && (
+                <Alert severity="warning" sx={{ mx: 1, mb: 1 }}>
+                    {loopCount} {loopCount === 1 ? 'statement runs' : 'statements run'} inside a loop
+                </Alert>
+            )}
+
+            <TableContainer sx={{ flexGrow: 1, overflow: 'auto' }}>
+                <Table stickyHeader size="small">
+                    <TableHead>
+                        <TableRow>
+                            <TableCell>Statement</TableCell>
+                            <TableCell>{groupBy === 'callSites' ? 'Call site' : 'Call sites'}</TableCell>
+                            {sortableHeader('count', 'Count')}
+                            {sortableHeader('rows', 'Rows')}
+                            {sortableHeader('totalNanos', 'Time')}
+                        </TableRow>
+                    </TableHead>
+                    <TableBody>
+                        {rows.map((hotspot) => (
+                            <TableRow
+                                key={`${hotspot.kind}|${hotspot.statement}|${hotspot.sourceLine}|${hotspot.method}`}
+                                hover
+                            >
+                                <TableCell sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                                    <Chip
+                                        size="small"
+                                        label={hotspot.kind.toUpperCase()}
+                                        color={hotspot.kind === 'soql' ? 'info' : 'secondary'}
+                                        sx={{ mr: 0.5 }}
+                                    />
+                                    {hotspot.inLoop && (
+                                        <Chip size="small" label="Loop" color="warning" sx={{ mr: 0.5 }} />
+                                    )}
+                                    {hotspot.statement}
+                                </TableCell>
+                                <TableCell sx={{ wordBreak: 'break-all' }}>
+                                    {groupBy === 'callSites'
+                                        ? `${hotspot.method ?? '(unknown)'} [${hotspot.sourceLine ?? '?'}]`
+                                        : hotspot.callSites}
+                                </TableCell>
+                                <TableCell align="right">{hotspot.count}</TableCell>
+                                <TableCell align="right">{hotspot.rows}</TableCell>
+                                <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                                    {formatMillis(hotspot.totalNanos)}
+                                </TableCell>
+                            </TableRow>
+                        ))}
+                        {report && rows.length === 0 && (
+                            <TableRow>
+                                <TableCell colSpan={5} align="center">
+                                    No SOQL or DML in this log.
+                                </TableCell>
+                            </TableRow>
+                        )}
+                    </TableBody>
+                </Table>
+            </TableContainer>
+        </Paper>
+    );
+}
@@ -0,0 +1,163 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Box, Chip, CircularProgress, Link, Tooltip } from '@mui/material';
+import { runLimited } from './requestLimiter';
+
+declare type Limit = {
+    name: string;
+    used: number;
+    max: number;
+};
+
+declare type LimitSummary = {
+    soqlQueries: Limit | null;
+    dmlRows: Limit | null;
+    cpuTime: Limit | null;
+    heapSize: Limit | null;
+    limits: Limit[];
+};
+
+declare type LimitsResponse = {
+    success: boolean;
+    logId: string;
+    limits: LimitSummary | null; // Null when the log is not stored and was not asked to be loaded
+    threshold: number;
+};
+
+// Chips shown for every log, in display order
+const LIMIT_CHIPS: { key: keyof Omit<LimitSummary, 'limits'>; label: string; unit?: string }[] = [
+    { key: 'soqlQueries', label: 'SOQL' },
+    { key: 'dmlRows', label: 'DML rows' },
+    { key: 'cpuTime', label: 'CPU', unit: 'ms' },
+    { key: 'heapSize', label: 'Heap', unit: 'B' },
+];
+
+// Limit summaries only change when the log is re-downloaded, so they are kept for the session
+const limitsCache: { [logId: string]: { limits: LimitSummary; threshold: number } } = {};
+
+// Governor limit usage chips for a single log
+export default function LogLimits({ logId }: { logId: string }) {
+    const [summary, setSummary] = useState(limitsCache[logId] ?? null);
+    const [visible, setVisible] = useState(false);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [notStored, setNotStored] = useState(false);
+    const ref = useRef<HTMLSpanElement | null>(null);
+
+    // Only load limits once the row scrolls into view
+    useEffect(() => {
+        const node = ref.current;
+        if (!node || summary) return;
+        const observer = new window.IntersectionObserver(
+            (entries) => {
+                if (entries.some((entry) => entry.isIntersecting)) {
+                    setVisible(true);
+                    observer.disconnect();
+                }
+            },
+            { threshold: 0.1 },
+        );
+        observer.observe(node);
+        return () => observer.disconnect();
+    }, [summary]);
+
+    // Without load, only stored logs are read; load downloads the log first
+    const fetchLimits = useCallback(
+        async (load: boolean, isCancelled: () => boolean = () => false) => {
+            setLoading(true);
+            try {
+                const response: LimitsResponse = await runLimited(() =>
+                    window.callServerApi(`/api/debugLogs/${logId}/limits${load ? '?load=true' : ''}`),
+                );
+                if (response?.success && response.limits) {
+                    limitsCache[logId] = { limits: response.limits, threshold: response.threshold };
+                    if (!isCancelled()) setSummary(limitsCache[logId]);
+                } else if (response?.success) {
+                    if (!isCancelled()) setNotStored(true);
+                } else if (!isCancelled()) {
+                    setError('Failed to fetch limits');
+                }
+            } catch (e) {
+                if (!isCancelled()) setError(e instanceof Error ? e.message : 'Error fetching limits');
+            } finally {
+                if (!isCancelled()) setLoading(false);
+            }
+        },
+        [logId],
+    );
+
+    useEffect(() => {
+        if (!visible || summary || !window.callServerApi) return;
+        let cancelled = false;
+        fetchLimits(false, () => cancelled);
+        return () => {
+            cancelled = true;
+        };
+    }, [visible, summary, fetchLimits]);
+
+    if (loading) {
+        return <CircularProgress size={16} />;
+    }
+    if (error) {
+        return (
+            <Tooltip title={error}>
+                <span>Error</span>
+            </Tooltip>
+        );
+    }
+    if (notStored && !summary) {
+        return (
+            <Tooltip title="Download the log to read its limit usage">
+                <Link
+                    component="button"
+                    variant="body2"
+                    onClick={(e) => {
+                        // The row itself opens the log
+                        e.stopPropagation();
+                        fetchLimits(true);
+                    }}
+                >
+                    Load
+                </Link>
+            </Tooltip>
+        );
+    }
+    if (!summary) {
+        return <span ref={ref}>-</span>;
+    }
+
+    const chips = LIMIT_CHIPS.filter(({ key }) => summary.limits[key] !== null);
+    if (chips.length === 0) {
+        return (
+            <Tooltip title="No limit usage found in this log">
+                <span>N/A</span>
+            </Tooltip>
+        );
+    }
+
+    return (
+        <Tooltip
+            title={
+                <Box component="span" sx={{ whiteSpace: 'pre-line' }}>
+                    {summary.limits.limits.map((limit) => `${limit.name}: ${limit.used} / ${limit.max}`).join('\n')}
+                </Box>
+            }
+        >
+            <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
+                {chips.map(({ key, label, unit }) => {
+                    const limit = summary.limits[key]!;
+                    const percentage = limit.max > 0 ? (limit.used / limit.max) * 100 : 0;
+                    const color = percentage >= 100 ? 'error' : percentage >= summary.threshold ? 'warning' : 'default';
+                    return (
+                        <Chip
+                            key={key}
+                            size="small"
+                            color={color}
+                            variant={color === 'default' ? 'outlined' : 'filled'}
+                            label={`${label} ${limit.used.toLocaleString()}/${limit.max.toLocaleString()}${unit ? ` ${unit}` : ''}`}
+                        />
+                    );
+                })}
+            </Box>
+        </Tooltip>
+    );
+}
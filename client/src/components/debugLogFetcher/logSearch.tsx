@@ -0,0 +1,237 @@
+import { useState } from 'react';
+import {
+    Alert,
+    Autocomplete,
+    Box,
+    Button,
+    Chip,
+    FormControlLabel,
+    IconButton,
+    LinearProgress,
+    List,
+    ListItemButton,
+    ListSubheader,
+    Switch,
+    TextField,
+    Tooltip,
+    Typography,
+} from '@mui/material';
+import ArrowBackIcon from '@mui/icons-material/ArrowBack';
+import SearchIcon from '@mui/icons-material/Search';
+
+declare type SearchMatch = {
+    lineNumber: number;
+    line: string;
+    eventType: string | null;
+    before: string[];
+    after: string[];
+};
+
+declare type SearchResult = {
+    log: {
+        id: string;
+        org: string;
+        userName: string | null;
+        operation: string | null;
+        startTime: string | null;
+        downloadedAt: string;
+    };
+    matches: SearchMatch[];
+};
+
+declare type SearchResponse = {
+    success: boolean;
+    results: SearchResult[];
+    totalMatches: number;
+    truncated: boolean;
+    error?: string;
+};
+
+// Event types offered in the filter, any other type can be typed in
+const COMMON_EVENT_TYPES = [
+    'USER_DEBUG',
+    'EXCEPTION_THROWN',
+    'FATAL_ERROR',
+    'SOQL_EXECUTE_BEGIN',
+    'DML_BEGIN',
+    'CALLOUT_REQUEST',
+    'CALLOUT_RESPONSE',
+    'METHOD_ENTRY',
+    'CODE_UNIT_STARTED',
+    'VALIDATION_FAIL',
+    'FLOW_ELEMENT_ERROR',
+];
+
+const contextLineSx = { color: 'text.secondary', whiteSpace: 'pre', fontFamily: 'monospace', fontSize: '0.75rem' };
+
+// Search across every log in the local cache
+export default function LogSearch({ onClose }: { onClose: () => void }) {
+    const [query, setQuery] = useState('');
+    const [regex, setRegex] = useState(false);
+    const [caseSensitive, setCaseSensitive] = useState(false);
+    const [eventTypes, setEventTypes] = useState<string[]>([]);
+    const [searching, setSearching] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [response, setResponse] = useState<SearchResponse | null>(null);
+
+    const handleSearch = async () => {
+        if (!window.callServerApi || !query) return;
+        setSearching(true);
+        setError(null);
+        try {
+            const result: SearchResponse = await window.callServerApi('/api/debugLogs/search', 'POST', {
+                query,
+                regex,
+                caseSensitive,
+                eventTypes,
+            });
+            if (result?.success) {
+                setResponse(result);
+            } else {
+                setError(result?.error ?? 'Search failed');
+            }
+        } catch (e) {
+            // A 400 means the regular expression is invalid
+            setError(
+                regex && e instanceof Error && e.message.includes('400')
+                    ? 'Invalid regular expression'
+                    : 'Error searching logs: ' + (e instanceof Error ? e.message : String(e)),
+            );
+        } finally {
+            setSearching(false);
+        }
+    };
+
+    // Open the log in the editor at the matching line
+    const openMatch = (logId: string, line: number) => {
+        window.callServerApi?.(`/api/debugLogs/${logId}/openLine`, 'POST', { line }).catch(() => {
+            setError('Failed to open log');
+        });
+    };
+
+    return (
+        <>
+            <Box sx={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: 1, p: '1rem' }}>
+                <Tooltip title="Back to org logs">
+                    <IconButton onClick={onClose}>
+                        <ArrowBackIcon />
+                    </IconButton>
+                </Tooltip>
+                <TextField
+                    size="small"
+                    label={regex ? 'Regular expression' : 'Search text'}
+                    sx={{ width: '20rem' }}
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
+                    autoFocus
+                />
+                <Autocomplete
+                    multiple
+                    freeSolo
+                    size="small"
+                    sx={{ minWidth: '16rem' }}
+                    options={COMMON_EVENT_TYPES}
+                    value={eventTypes}
+                    onChange={(_, value) => setEventTypes(value.map((v) => v.toUpperCase()))}
+                    renderInput={(params) => <TextField {...params} label="Event types" placeholder="All events" />}
+                />
+                <FormControlLabel
+                    control={<Switch size="small" checked={regex} onChange={(e) => setRegex(e.target.checked)} />}
+                    label="Regex"
+                />
+                <FormControlLabel
+                    control={
+                        <Switch
+                            size="small"
+                            checked={caseSensitive}
+                            onChange={(e) => setCaseSensitive(e.target.checked)}
+                        />
+                    }
+                    label="Match case"
+                />
+                <Button
+                    variant="contained"
+                    startIcon={<SearchIcon />}
+                    onClick={handleSearch}
+                    disabled={searching || !query}
+                >
+                    Search
+                </Button>
+            </Box>
+
+            {searching && <LinearProgress sx={{ flexShrink: 0 }} />}
+            {error && (
+                <Alert severity="error" sx={{ mx: '1rem', mb: 1 }} onClose={() => setError(null)}>
+                    {error}
+                </Alert>
+            )}
+            {response && (
+                <Typography variant="caption" color="text.secondary" sx={{ px: '1rem' }}>
+                    {response.totalMatches} matches in {response.results.length} logs
+                    {response.truncated ? ' (showing the first matches only)' : ''}
+                </Typography>
+            )}
+
+            <Box sx={{ overflow: 'auto', flexGrow: 1 }}>
+                <List dense disablePadding>
+                    {response?.results.map(({ log, matches }) => (
+                        <li key={`${log.org}/${log.id}`}>
+                            <ul style={{ padding: 0 }}>
+                                <ListSubheader sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+                                    <Typography variant="subtitle2">{log.id}</Typography>
+                                    <Typography variant="caption">
+                                        {[
+                                            log.userName,
+                                            log.operation,
+                                            log.startTime ? new Date(log.startTime).toLocaleString() : null,
+                                            log.org,
+                                        ]
+                                            .filter(Boolean)
+                                            .join(' · ')}
+                                    </Typography>
+                                    <Chip size="small" label={matches.length} />
+                                </ListSubheader>
+                                {matches.map((match) => (
+                                    <ListItemButton
+                                        key={match.lineNumber}
+                                        onClick={() => openMatch(log.id, match.lineNumber)}
+                                        sx={{ display: 'block', py: 0.5 }}
+                                    >
+                                        {match.before.map((line, i) => (
+                                            <Typography key={`b${i}`} sx={contextLineSx}>
+                                                {line}
+                                            </Typography>
+                                        ))}
+                                        <Box sx={{ display: 'flex', gap: 1 }}>
+                                            <Typography
+                                                sx={{ ...contextLineSx, color: 'primary.main', minWidth: '3rem' }}
+                                            >
+                                                {match.lineNumber}
+                                            </Typography>
+                                            <Typography
+                                                sx={{ ...contextLineSx, color: 'text.primary', fontWeight: 'bold' }}
+                                            >
+                                                {match.line}
+                                            </Typography>
+                                        </Box>
+                                        {match.after.map((line, i) => (
+                                            <Typography key={`a${i}`} sx={contextLineSx}>
+                                                {line}
+                                            </Typography>
+                                        ))}
+                                    </ListItemButton>
+                                ))}
+                            </ul>
+                        </li>
+                    ))}
+                </List>
+                {response && response.results.length === 0 && (
+                    <Typography variant="body2" sx={{ py: 2, textAlign: 'center' }}>
+                        No matches found in downloaded logs.
+                    </Typography>
+                )}
+            </Box>
+        </>
+    );
+}
@@ -0,0 +1,102 @@
+import { openEventStream } from './eventStream';
+
+export declare type MethodNameResult = {
+    logId: string;
+    methodName: string | null;
+    error?: string;
+};
+
+// Rows that become visible together are requested in one batch
+const BATCH_DELAY_MS = 50;
+const MAX_BATCH_SIZE = 200;
+
+// Method names resolved this session
+const methodNames = new Map<string, string>();
+const listeners = new Map<string, Set<(result: MethodNameResult) => void>>();
+const pendingLogIds = new Set<string>(); // Waiting for the next batch
+const requestedLogIds = new Set<string>(); // In a batch that is being streamed
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Get the method name of a log, batched with the requests of other rows
+ * @returns A function that stops listening, e.g. when the row unmounts
+ */
+export function requestMethodName(logId: string, onResult: (result: MethodNameResult) => void): () => void {
+    const cached = methodNames.get(logId);
+    if (cached !== undefined) {
+        onResult({ logId, methodName: cached });
+        return () => {};
+    }
+
+    if (!listeners.has(logId)) {
+        listeners.set(logId, new Set());
+    }
+    listeners.get(logId)!.add(onResult);
+    if (!requestedLogIds.has(logId)) {
+        pendingLogIds.add(logId);
+        scheduleFlush();
+    }
+
+    return () => {
+        const logListeners = listeners.get(logId);
+        logListeners?.delete(onResult);
+        if (logListeners?.size === 0) {
+            listeners.delete(logId);
+            pendingLogIds.delete(logId); // Nobody is waiting for it anymore
+        }
+    };
+}
+
+function scheduleFlush() {
+    if (!flushTimer) {
+        flushTimer = setTimeout(flush, BATCH_DELAY_MS);
+    }
+}
+
+function deliver(result: MethodNameResult) {
+    if (result.methodName !== null) {
+        methodNames.set(result.logId, result.methodName);
+    }
+    listeners.get(result.logId)?.forEach((listener) => listener(result));
+    listeners.delete(result.logId);
+}
+
+async function flush() {
+    flushTimer = null;
+    const batch = [...pendingLogIds].slice(0, MAX_BATCH_SIZE);
+    batch.forEach((logId) => {
+        pendingLogIds.delete(logId);
+        requestedLogIds.add(logId);
+    });
+    if (pendingLogIds.size > 0) {
+        scheduleFlush();
+    }
+    if (batch.length === 0) return;
+
+    let failure = 'No method name returned';
+    try {
+        await openEventStream(
+            '/api/debugLogs/methodNames',
+            ({ event, data }) => {
+                if (event === 'methodName') {
+                    deliver(data as MethodNameResult);
+                } else if (event === 'error') {
+                    failure = (data as { error?: string }).error ?? 'Failed to fetch method names';
+                }
+            },
+            undefined,
+            'POST',
+            { logIds: batch },
+        );
+    } catch (e) {
+        failure = 'Error fetching method names: ' + (e instanceof Error ? e.message : String(e));
+    } finally {
+        // Rows still waiting when the stream ends did not get a result
+        batch.forEach((logId) => {
+            requestedLogIds.delete(logId);
+            if (listeners.has(logId)) {
+                deliver({ logId, methodName: null, error: failure });
+            }
+        });
+    }
+}
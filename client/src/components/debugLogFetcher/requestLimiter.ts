@@ -0,0 +1,17 @@
+// Per-log requests may need the full log to be downloaded, so only a few run at once
+const MAX_CONCURRENT_REQUESTS = 2;
+let activeRequestCount = 0;
+const waitingRequests: (() => void)[] = [];
+
+export async function runLimited<T>(task: () => Promise<T>): Promise<T> {
+    if (activeRequestCount >= MAX_CONCURRENT_REQUESTS) {
+        await new Promise<void>((resolve) => waitingRequests.push(resolve));
+    }
+    activeRequestCount++;
+    try {
+        return await task();
+    } finally {
+        activeRequestCount--;
+        waitingRequests.shift()?.();
+    }
+}
@@ -0,0 +1,539 @@
+import { useEffect, useState } from 'react';
+import {
+    Alert,
+    Autocomplete,
+    Box,
+    Button,
+    Chip,
+    CircularProgress,
+    Dialog,
+    DialogActions,
+    DialogContent,
+    DialogTitle,
+    Grid,
+    IconButton,
+    MenuItem,
+    Tab,
+    Table,
+    TableBody,
+    TableCell,
+    TableContainer,
+    TableHead,
+    TableRow,
+    Tabs,
+    TextField,
+    Tooltip,
+    Typography,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteIcon from '@mui/icons-material/Delete';
+import EditIcon from '@mui/icons-material/Edit';
+import MoreTimeIcon from '@mui/icons-material/MoreTime';
+
+declare type TraceFlag = {
+    id: string;
+    tracedEntityId: string;
+    tracedEntityName: string | null;
+    logType: string;
+    startDate: string | null;
+    expirationDate: string;
+    debugLevelId: string;
+    debugLevelName: string | null;
+};
+
+declare type DebugLevel = {
+    id: string;
+    developerName: string;
+    masterLabel: string;
+    [category: string]: string | undefined;
+};
+
+declare type User = {
+    Id: string;
+    Name: string;
+    Username?: string;
+};
+
+declare type TraceFlagsResponse = {
+    success: boolean;
+    traceFlags: TraceFlag[];
+    currentUserId: string;
+};
+
+declare type DebugLevelsResponse = {
+    success: boolean;
+    debugLevels: DebugLevel[];
+};
+
+declare type UsersResponse = {
+    success: boolean;
+    users: User[];
+};
+
+// Log categories of a DebugLevel, in the order Setup shows them
+const CATEGORIES = [
+    'ApexCode',
+    'ApexProfiling',
+    'Callout',
+    'Database',
+    'System',
+    'Validation',
+    'Visualforce',
+    'Workflow',
+    'Wave',
+    'Nba',
+];
+
+const LEVELS = ['NONE', 'ERROR', 'WARN', 'INFO', 'DEBUG', 'FINE', 'FINER', 'FINEST'];
+
+// Trace flags can last at most 24 hours
+const DURATIONS = [
+    { minutes: 30, label: '30 minutes' },
+    { minutes: 60, label: '1 hour' },
+    { minutes: 240, label: '4 hours' },
+    { minutes: 720, label: '12 hours' },
+    { minutes: 1440, label: '24 hours' },
+];
+
+const EXTEND_MINUTES = 60;
+
+// Defaults for a new debug level, matching the SFDC_DevConsole level
+const NEW_DEBUG_LEVEL: Omit<DebugLevel, 'id'> = {
+    developerName: '',
+    masterLabel: '',
+    ApexCode: 'FINEST',
+    ApexProfiling: 'INFO',
+    Callout: 'INFO',
+    Database: 'INFO',
+    System: 'DEBUG',
+    Validation: 'INFO',
+    Visualforce: 'FINER',
+    Workflow: 'FINER',
+    Wave: 'INFO',
+    Nba: 'INFO',
+};
+
+// Dialog for managing trace flags and debug levels without going to Setup
+export default function TraceFlagManager({ open, onClose }: { open: boolean; onClose: () => void }) {
+    const [tab, setTab] = useState(0);
+    const [traceFlags, setTraceFlags] = useState<TraceFlag[]>([]);
+    const [debugLevels, setDebugLevels] = useState<DebugLevel[]>([]);
+    const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // New trace flag form
+    const [users, setUsers] = useState<User[]>([]);
+    const [loadingUsers, setLoadingUsers] = useState(false);
+    const [tracedUser, setTracedUser] = useState<User | null>(null);
+    const [debugLevelId, setDebugLevelId] = useState('');
+    const [duration, setDuration] = useState(60);
+
+    // Debug level being created or edited
+    const [editingLevel, setEditingLevel] = useState<Omit<DebugLevel, 'id'> & { id?: string }>(NEW_DEBUG_LEVEL);
+
+    const loadData = async () => {
+        if (!window.callServerApi) return;
+        setLoading(true);
+        setError(null);
+        try {
+            const [flagsResponse, levelsResponse] = await Promise.all([
+                window.callServerApi<TraceFlagsResponse>('/api/traceFlags'),
+                window.callServerApi<DebugLevelsResponse>('/api/debugLevels'),
+            ]);
+            if (flagsResponse?.success) {
+                setTraceFlags(flagsResponse.traceFlags);
+                setCurrentUserId(flagsResponse.currentUserId);
+            }
+            if (levelsResponse?.success) {
+                setDebugLevels(levelsResponse.debugLevels);
+                setDebugLevelId((current) => current || levelsResponse.debugLevels[0]?.id || '');
+            }
+        } catch (e) {
+            setError('Error loading trace flags: ' + (e instanceof Error ? e.message : String(e)));
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const fetchUsers = async (searchTerm: string = '') => {
+        if (!window.callServerApi) return;
+        setLoadingUsers(true);
+        try {
+            const response: UsersResponse = await window.callServerApi(
+                `/api/users${searchTerm ? `?search=${encodeURIComponent(searchTerm)}` : ''}`,
+            );
+            if (response?.success) {
+                setUsers(response.users || []);
+            }
+            // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        } catch (_) {
+            /* empty */
+        } finally {
+            setLoadingUsers(false);
+        }
+    };
+
+    useEffect(() => {
+        if (open) {
+            loadData();
+            fetchUsers();
+        }
+    }, [open]);
+
+    // Run a change against the server and reload the lists afterwards
+    const runChange = async (change: () => Promise<{ success: boolean }>, failureMessage: string) => {
+        setSaving(true);
+        setError(null);
+        try {
+            const response = await change();
+            if (!response?.success) {
+                setError(failureMessage);
+            }
+            await loadData();
+        } catch (e) {
+            setError(failureMessage + ': ' + (e instanceof Error ? e.message : String(e)));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleCreateTraceFlag = () => {
+        const tracedEntityId = tracedUser?.Id ?? currentUserId;
+        if (!tracedEntityId || !debugLevelId) return;
+        runChange(
+            () =>
+                window.callServerApi('/api/traceFlags', 'POST', {
+                    tracedEntityId,
+                    debugLevelId,
+                    durationMinutes: duration,
+                }),
+            'Failed to create trace flag',
+        );
+    };
+
+    const handleSaveDebugLevel = () => {
+        const { id, ...level } = editingLevel;
+        runChange(
+            () =>
+                id
+                    ? window.callServerApi(`/api/debugLevels/${id}`, 'PATCH', level)
+                    : window.callServerApi('/api/debugLevels', 'POST', level),
+            'Failed to save debug level',
+        ).then(() => setEditingLevel(NEW_DEBUG_LEVEL));
+    };
+
+    const formatExpiration = (expirationDate: string) => {
+        const remaining = new Date(expirationDate).getTime() - Date.now();
+        if (remaining <= 0) {
+            return <Chip size="small" label="Expired" variant="outlined" />;
+        }
+        const minutes = Math.ceil(remaining / 60000);
+        return (
+            <Tooltip title={new Date(expirationDate).toLocaleString()}>
+                <Chip
+                    size="small"
+                    color={minutes <= 15 ? 'warning' : 'success'}
+                    variant="outlined"
+                    label={minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m left` : `${minutes}m left`}
+                />
+            </Tooltip>
+        );
+    };
+
+    const renderTraceFlags = () => (
+        <>
+            <Grid container spacing={1} sx={{ alignItems: 'center', mb: 2 }}>
+                <Grid>
+                    <Autocomplete
+                        sx={{ width: '18rem' }}
+                        options={users}
+                        getOptionLabel={(option) => option.Name}
+                        isOptionEqualToValue={(option, value) => option.Id === value.Id}
+                        loading={loadingUsers}
+                        value={tracedUser}
+                        onChange={(_, value) => setTracedUser(value)}
+                        onInputChange={(_, value) => {
+                            if (value && value.length > 1) {
+                                fetchUsers(value);
+                            }
+                        }}
+                        filterOptions={(x) => x} // Rely on server search
+                        renderInput={(params) => (
+                            <TextField {...params} label="User" placeholder="Current user" size="small" />
+                        )}
+                    />
+                </Grid>
+                <Grid>
+                    <TextField
+                        select
+                        size="small"
+                        label="Debug Level"
+                        sx={{ width: '14rem' }}
+                        value={debugLevelId}
+                        onChange={(e) => setDebugLevelId(e.target.value)}
+                    >
+                        {debugLevels.map((level) => (
+                            <MenuItem key={level.id} value={level.id}>
+                                {level.developerName}
+                            </MenuItem>
+                        ))}
+                    </TextField>
+                </Grid>
+                <Grid>
+                    <TextField
+                        select
+                        size="small"
+                        label="Duration"
+                        sx={{ width: '10rem' }}
+                        value={duration}
+                        onChange={(e) => setDuration(Number(e.target.value))}
+                    >
+                        {DURATIONS.map(({ minutes, label }) => (
+                            <MenuItem key={minutes} value={minutes}>
+                                {label}
+                            </MenuItem>
+                        ))}
+                    </TextField>
+                </Grid>
+                <Grid>
+                    <Button
+                        variant="contained"
+                        startIcon={<AddIcon />}
+                        disabled={saving || !debugLevelId || (!tracedUser && !currentUserId)}
+                        onClick={handleCreateTraceFlag}
+                    >
+                        Add Trace Flag
+                    </Button>
+                </Grid>
+            </Grid>
+
+            <TableContainer>
+                <Table size="small" stickyHeader>
+                    <TableHead>
+                        <TableRow>
+                            <TableCell>Traced Entity</TableCell>
+                            <TableCell>Log Type</TableCell>
+                            <TableCell>Debug Level</TableCell>
+                            <TableCell>Expiration</TableCell>
+                            <TableCell align="center">{/* Actions */}</TableCell>
+                        </TableRow>
+                    </TableHead>
+                    <TableBody>
+                        {traceFlags.length === 0 && !loading ? (
+                            <TableRow>
+                                <TableCell colSpan={5} align="center">
+                                    <Typography variant="body2" sx={{ py: 2 }}>
+                                        No trace flags found.
+                                    </Typography>
+                                </TableCell>
+                            </TableRow>
+                        ) : (
+                            traceFlags.map((flag) => (
+                                <TableRow key={flag.id} hover selected={flag.tracedEntityId === currentUserId}>
+                                    <TableCell>{flag.tracedEntityName ?? flag.tracedEntityId}</TableCell>
+                                    <TableCell>{flag.logType}</TableCell>
+                                    <TableCell>{flag.debugLevelName ?? flag.debugLevelId}</TableCell>
+                                    <TableCell>{formatExpiration(flag.expirationDate)}</TableCell>
+                                    <TableCell align="center" sx={{ whiteSpace: 'nowrap' }}>
+                                        <Tooltip title={`Extend by ${EXTEND_MINUTES} minutes`}>
+                                            <span>
+                                                <IconButton
+                                                    size="small"
+                                                    color="primary"
+                                                    disabled={saving}
+                                                    onClick={() =>
+                                                        runChange(
+                                                            () =>
+                                                                window.callServerApi(
+                                                                    `/api/traceFlags/${flag.id}/extend`,
+                                                                    'POST',
+                                                                    { minutes: EXTEND_MINUTES },
+                                                                ),
+                                                            'Failed to extend trace flag',
+                                                        )
+                                                    }
+                                                >
+                                                    <MoreTimeIcon fontSize="small" />
+                                                </IconButton>
+                                            </span>
+                                        </Tooltip>
+                                        <Tooltip title="Delete trace flag">
+                                            <span>
+                                                <IconButton
+                                                    size="small"
+                                                    color="error"
+                                                    disabled={saving}
+                                                    onClick={() =>
+                                                        runChange(
+                                                            () =>
+                                                                window.callServerApi(
+                                                                    `/api/traceFlags/${flag.id}`,
+                                                                    'DELETE',
+                                                                ),
+                                                            'Failed to delete trace flag',
+                                                        )
+                                                    }
+                                                >
+                                                    <DeleteIcon fontSize="small" />
+                                                </IconButton>
+                                            </span>
+                                        </Tooltip>
+                                    </TableCell>
+                                </TableRow>
+                            ))
+                        )}
+                    </TableBody>
+                </Table>
+            </TableContainer>
+        </>
+    );
+
+    const renderDebugLevels = () => (
+        <>
+            <Box sx={{ mb: 2 }}>
+                <Grid container spacing={1} sx={{ alignItems: 'center', mb: 1 }}>
+                    <Grid>
+                        <TextField
+                            size="small"
+                            label="Developer Name"
+                            value={editingLevel.developerName}
+                            disabled={!!editingLevel.id}
+                            onChange={(e) => setEditingLevel({ ...editingLevel, developerName: e.target.value })}
+                        />
+                    </Grid>
+                    <Grid>
+                        <TextField
+                            size="small"
+                            label="Label"
+                            value={editingLevel.masterLabel}
+                            onChange={(e) => setEditingLevel({ ...editingLevel, masterLabel: e.target.value })}
+                        />
+                    </Grid>
+                    <Grid>
+                        <Button
+                            variant="contained"
+                            disabled={saving || !editingLevel.developerName}
+                            onClick={handleSaveDebugLevel}
+                        >
+                            {editingLevel.id ? 'Save' : 'Create'}
+                        </Button>
+                    </Grid>
+                    {editingLevel.id && (
+                        <Grid>
+                            <Button onClick={() => setEditingLevel(NEW_DEBUG_LEVEL)}>Cancel</Button>
+                        </Grid>
+                    )}
+                </Grid>
+                <Grid container spacing={1}>
+                    {CATEGORIES.map((category) => (
+                        <Grid key={category}>
+                            <TextField
+                                select
+                                size="small"
+                                label={category}
+                                sx={{ width: '9rem' }}
+                                value={editingLevel[category] ?? 'NONE'}
+                                onChange={(e) => setEditingLevel({ ...editingLevel, [category]: e.target.value })}
+                            >
+                                {LEVELS.map((level) => (
+                                    <MenuItem key={level} value={level}>
+                                        {level}
+                                    </MenuItem>
+                                ))}
+                            </TextField>
+                        </Grid>
+                    ))}
+                </Grid>
+            </Box>
+
+            <TableContainer>
+                <Table size="small" stickyHeader>
+                    <TableHead>
+                        <TableRow>
+                            <TableCell>Name</TableCell>
+                            {CATEGORIES.map((category) => (
+                                <TableCell key={category}>{category}</TableCell>
+                            ))}
+                            <TableCell align="center">{/* Actions */}</TableCell>
+                        </TableRow>
+                    </TableHead>
+                    <TableBody>
+                        {debugLevels.map((level) => (
+                            <TableRow key={level.id} hover selected={level.id === editingLevel.id}>
+                                <TableCell>
+                                    <Tooltip title={level.masterLabel}>
+                                        <span>{level.developerName}</span>
+                                    </Tooltip>
+                                </TableCell>
+                                {CATEGORIES.map((category) => (
+                                    <TableCell key={category}>{level[category]}</TableCell>
+                                ))}
+                                <TableCell align="center" sx={{ whiteSpace: 'nowrap' }}>
+                                    <Tooltip title="Edit debug level">
+                                        <IconButton size="small" color="primary" onClick={() => setEditingLevel(level)}>
+                                            <EditIcon fontSize="small" />
+                                        </IconButton>
+                                    </Tooltip>
+                                    <Tooltip title="Delete debug level">
+                                        <span>
+                                            <IconButton
+                                                size="small"
+                                                color="error"
+                                                disabled={saving}
+                                                onClick={() =>
+                                                    runChange(
+                                                        () =>
+                                                            window.callServerApi(
+                                                                `/api/debugLevels/${level.id}`,
+                                                                'DELETE',
+                                                            ),
+                                                        'Failed to delete debug level (it may still be used by a trace flag)',
+                                                    )
+                                                }
+                                            >
+                                                <DeleteIcon fontSize="small" />
+                                            </IconButton>
+                                        </span>
+                                    </Tooltip>
+                                </TableCell>
+                            </TableRow>
+                        ))}
+                    </TableBody>
+                </Table>
+            </TableContainer>
+        </>
+    );
+
+    return (
+        <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth aria-labelledby="trace-flag-dialog-title">
+            <DialogTitle id="trace-flag-dialog-title">Trace Flags</DialogTitle>
+            <Tabs value={tab} onChange={(_, value) => setTab(value)} sx={{ px: 3 }}>
+                <Tab label="Trace Flags" />
+                <Tab label="Debug Levels" />
+            </Tabs>
+            <DialogContent dividers sx={{ minHeight: '24rem' }}>
+                {error && (
+                    <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+                        {error}
+                    </Alert>
+                )}
+                {loading && traceFlags.length === 0 && debugLevels.length === 0 ? (
+                    <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+                        <CircularProgress />
+                    </Box>
+                ) : tab === 0 ? (
+                    renderTraceFlags()
+                ) : (
+                    renderDebugLevels()
+                )}
+            </DialogContent>
+            <DialogActions>
+                <Button onClick={onClose} variant="outlined">
+                    Close
+                </Button>
+            </DialogActions>
+        </Dialog>
+    );
+}
@@ -3,11 +3,15 @@ import { useEffect, useState } from 'react';
 import { useVSCodeApi } from '../../App';
 import ComponentFileSwitcher from '../componentFileSwitcher/componentFileSwitcher';
 import DebugLogFetcher from '../debugLogFetcher/debugLogFetcher';
+import AnonymousApex from '../anonymousApex';
+import OrgOverview from '../orgOverview';
 
 // Component registry - add new components here
 const COMPONENTS = {
     componentFileSwitcher: ComponentFileSwitcher,
     debugLogFetcher: DebugLogFetcher,
+    anonymousApex: AnonymousApex,
+    orgOverview: OrgOverview,
     // Add more components as needed
 };
 
@@ -17,6 +21,8 @@ const DEFAULT_COMPONENT = 'componentFileSwitcher';
 function MainBody() {
     const vscode = useVSCodeApi();
     const [activeComponent, setActiveComponent] = useState<string>(DEFAULT_COMPONENT);
+    // Changes when the extension switches to another org, so the component reloads its data
+    const [orgKey, setOrgKey] = useState(0);
 
     useEffect(() => {
         // Handle messages from VS Code
@@ -27,6 +33,9 @@ function MainBody() {
             if (message.command === 'setActiveComponent' && message.component) {
                 setActiveComponent(message.component);
             }
+            if (message.command === 'orgChanged') {
+                setOrgKey((key) => key + 1);
+            }
         };
 
         // Add event listener
@@ -51,10 +60,10 @@ function MainBody() {
         // If the component doesn't exist in our registry, use the default
         if (!ComponentToRender) {
             const DefaultComponent = COMPONENTS[DEFAULT_COMPONENT];
-            return <DefaultComponent />;
+            return <DefaultComponent key={orgKey} />;
         }
 
-        return <ComponentToRender />;
+        return <ComponentToRender key={orgKey} />;
     };
 
     return (
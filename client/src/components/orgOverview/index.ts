@@ -0,0 +1,2 @@
+import OrgOverview from './orgOverview';
+export default OrgOverview;
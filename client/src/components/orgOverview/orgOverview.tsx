@@ -0,0 +1,153 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+    Alert,
+    Box,
+    Card,
+    CardContent,
+    CircularProgress,
+    IconButton,
+    LinearProgress,
+    Tooltip,
+    Typography,
+} from '@mui/material';
+import RefreshIcon from '@mui/icons-material/Refresh';
+
+declare type OrgLimit = {
+    name: string;
+    label: string;
+    max: number;
+    used: number;
+    unit: string | null;
+};
+
+declare type OrgOverviewData = {
+    orgId: string;
+    name: string;
+    edition: string;
+    instanceName: string | null;
+    instanceUrl: string | null;
+    orgType: string;
+    expirationDate: string | null;
+    username: string;
+    apiVersion: string;
+    limits: OrgLimit[];
+};
+
+declare type OverviewResponse = {
+    success: boolean;
+    overview?: OrgOverviewData;
+    threshold?: number; // Usage at which a limit is highlighted, in percent
+    error?: string;
+};
+
+// Details of the connected org and how much of its limits are used
+export default function OrgOverview() {
+    const [overview, setOverview] = useState<OrgOverviewData | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [fetchedAt, setFetchedAt] = useState<Date | null>(null);
+    const [threshold, setThreshold] = useState(80);
+
+    const fetchOverview = useCallback(async () => {
+        if (!window.callServerApi) return;
+        setLoading(true);
+        setError(null);
+        try {
+            const response: OverviewResponse = await window.callServerApi('/api/org/overview');
+            if (response?.success && response.overview) {
+                setOverview(response.overview);
+                if (response.threshold) setThreshold(response.threshold);
+                setFetchedAt(new Date());
+            } else {
+                setError(response?.error ?? 'Failed to fetch org overview');
+            }
+        } catch (e) {
+            setError('Error fetching org overview: ' + (e instanceof Error ? e.message : String(e)));
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        fetchOverview();
+    }, [fetchOverview]);
+
+    const details: [string, string | null][] = overview
+        ? [
+              ['Name', overview.name],
+              ['Username', overview.username],
+              ['Org ID', overview.orgId],
+              ['Edition', overview.edition],
+              ['Type', overview.orgType],
+              ['Instance', overview.instanceName],
+              ['Expires', overview.expirationDate ? new Date(overview.expirationDate).toLocaleDateString() : null],
+              ['API version', overview.apiVersion],
+          ]
+        : [];
+
+    return (
+        <Card sx={{ borderRadius: '0.25rem', height: '100%', display: 'flex', flexDirection: 'column' }}>
+            <CardContent sx={{ flexGrow: 1, display: 'flex', flexDirection: 'column', gap: 1, overflow: 'auto' }}>
+                <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+                    <Typography variant="h6">Org Overview</Typography>
+                    <Tooltip title={fetchedAt ? `Fetched at ${fetchedAt.toLocaleTimeString()}` : 'Refresh'}>
+                        <span>
+                            <IconButton size="small" onClick={fetchOverview} disabled={loading}>
+                                {loading ? <CircularProgress size={16} /> : <RefreshIcon fontSize="small" />}
+                            </IconButton>
+                        </span>
+                    </Tooltip>
+                </Box>
+
+                {error && <Alert severity="error">{error}</Alert>}
+
+                {overview && (
+                    <Box
+                        component="dl"
+                        sx={{ display: 'grid', gridTemplateColumns: 'auto 1fr', columnGap: 2, rowGap: 0.5, m: 0 }}
+                    >
+                        {details
+                            .filter(([, value]) => value)
+                            .map(([label, value]) => (
+                                <Box key={label} sx={{ display: 'contents' }}>
+                                    <Typography component="dt" variant="body2" color="text.secondary">
+                                        {label}
+                                    </Typography>
+                                    <Typography component="dd" variant="body2" sx={{ m: 0, wordBreak: 'break-all' }}>
+                                        {value}
+                                    </Typography>
+                                </Box>
+                            ))}
+                    </Box>
+                )}
+
+                {overview && overview.limits.length > 0 && (
+                    <>
+                        <Typography variant="subtitle2" sx={{ mt: 1 }}>
+                            Limits
+                        </Typography>
+                        {overview.limits.map((limit) => {
+                            const percentage = limit.max > 0 ? Math.min(100, (limit.used / limit.max) * 100) : 0;
+                            const color = percentage >= 100 ? 'error' : percentage >= threshold ? 'warning' : 'primary';
+                            const unit = limit.unit ? ` ${limit.unit}` : '';
+                            return (
+                                <Tooltip key={limit.name} title={`${limit.name}: ${percentage.toFixed(1)}% used`}>
+                                    <Box>
+                                        <Box sx={{ display: 'flex', justifyContent: 'space-between', gap: 1 }}>
+                                            <Typography variant="caption">{limit.label}</Typography>
+                                            <Typography variant="caption" color="text.secondary" noWrap>
+                                                {limit.used.toLocaleString()} / {limit.max.toLocaleString()}
+                                                {unit}
+                                            </Typography>
+                                        </Box>
+                                        <LinearProgress variant="determinate" value={percentage} color={color} />
+                                    </Box>
+                                </Tooltip>
+                            );
+                        })}
+                    </>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
@@ -4,6 +4,8 @@ import { SFUtils } from '../utils/sfutils';
 import { registerLastModifiedCommands } from '../features/lastModifiedDetails';
 import { registerComponentFileSwitcherCommands } from '../features/componentFileSwitcher';
 import { registerDebugLogCommands } from '../features/debugLogs/commands';
+import { registerAnonymousApexCommands } from '../features/anonymousApex';
+import { registerOrgSwitcherCommands } from '../features/orgSwitcher';
 
 /**
  * Handles registration and execution of commands
@@ -30,13 +32,27 @@ export class CommandHandler {
             'salesforce-multitools-3.showComponentFileSwitcher',
             () => this.handleSwitchComponent('componentFileSwitcher'),
         );
+        const showAnonymousApexCmd = vscode.commands.registerCommand('salesforce-multitools-3.showAnonymousApex', () =>
+            this.handleSwitchComponent('anonymousApex'),
+        );
+        const showOrgOverviewCmd = vscode.commands.registerCommand('salesforce-multitools-3.showOrgOverview', () =>
+            this.handleSwitchComponent('orgOverview'),
+        );
 
         // Register all commands from features
         registerLastModifiedCommands(context);
         registerComponentFileSwitcherCommands(context);
         registerDebugLogCommands(context);
+        registerAnonymousApexCommands(context);
+        registerOrgSwitcherCommands(context);
 
-        context.subscriptions.push(refreshConnectionCmd, openSidebarCmd, showComponentFileSwitcherCmd);
+        context.subscriptions.push(
+            refreshConnectionCmd,
+            openSidebarCmd,
+            showComponentFileSwitcherCmd,
+            showAnonymousApexCmd,
+            showOrgOverviewCmd,
+        );
 
         Logger.debug('All commands registered', 'CommandHandler.register');
     }
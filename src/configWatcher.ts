@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import { Logger, LogLevel } from './utils/logger';
 import { ConfigUtils } from './utils/config';
+import { SalesforceApi } from './utils/salesforceApi';
 
 /**
  * Watches for configuration changes and reacts accordingly
@@ -17,6 +18,17 @@ export class ConfigWatcher {
             }),
         );
 
+        // The API version falls back to sourceApiVersion of the project, in any folder of the workspace
+        const projectWatcher = vscode.workspace.createFileSystemWatcher('**/sfdx-project.json');
+        const clearApiVersion = () => {
+            SalesforceApi.clearApiVersion();
+            Logger.debug('sfdx-project.json changed, re-reading the API version');
+        };
+        projectWatcher.onDidChange(clearApiVersion);
+        projectWatcher.onDidCreate(clearApiVersion);
+        projectWatcher.onDidDelete(clearApiVersion);
+        context.subscriptions.push(projectWatcher);
+
         Logger.debug('Configuration watcher registered');
     }
 
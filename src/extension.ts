@@ -11,29 +11,28 @@ import { CommandHandler } from './commands/commandHandler';
 import { ConfigWatcher } from './configWatcher';
 import { SidebarProvider } from './features/sidePanel/SidebarProvider';
 import { ExpressServer, disposeExpressServer } from './utils/expressServer';
+import { getProjectFolders, registerProjectFolderTracking } from './utils/projectFolders';
 
 /**
  * This method is called when your extension is activated
  */
 export function activate(context: vscode.ExtensionContext) {
-    // Early return if .sfdx/sfdx-config.json does not exist in the workspace root
+    // Early return if no workspace folder is a Salesforce DX project
     const workspaceFolders = vscode.workspace.workspaceFolders;
     if (!workspaceFolders || workspaceFolders.length === 0) {
         Logger.warn('No workspace folder found. Extension will not activate.', 'if');
         return;
     }
-    const sfdxConfigPath = vscode.Uri.joinPath(workspaceFolders[0].uri, '.sfdx', 'sfdx-config.json');
 
-    vscode.workspace.fs.stat(sfdxConfigPath).then(
-        () => {
-            // File exists, continue activation
-            continueActivation(context);
-        },
-        () => {
-            // File does not exist, log and return
-            Logger.warn('.sfdx/sfdx-config.json not found in workspace root. Extension will not activate.', 'if');
-        },
-    );
+    if (getProjectFolders().length === 0) {
+        Logger.warn(
+            'No sfdx-project.json, .sf/config.json or .sfdx/sfdx-config.json in any workspace folder. Extension will not activate.',
+            'if',
+        );
+        return;
+    }
+
+    continueActivation(context);
 }
 
 // Move the rest of the activation logic to a new function
@@ -51,6 +50,9 @@ async function continueActivation(context: vscode.ExtensionContext) {
         // Continue activation even if server fails to start
     }
 
+    // Track which project the active file belongs to, before anything connects to an org
+    registerProjectFolderTracking(context);
+
     // Register configuration watchers
     ConfigWatcher.register(context);
 
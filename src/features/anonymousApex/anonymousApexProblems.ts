@@ -0,0 +1,42 @@
+import { AnonymousApexProblem, AnonymousApexResult } from './anonymousApexTypes';
+
+// Frame of the executed code in an exception stack trace, e.g. "AnonymousBlock: line 3, column 1"
+const ANONYMOUS_BLOCK_FRAME_REGEX = /AnonymousBlock: line (\d+), column (\d+)/;
+
+/**
+ * Get the compile error or uncaught exception of a run, positioned in the executed code
+ * @param result The outcome of the run
+ * @returns The problems, empty when the run succeeded
+ */
+export function getAnonymousApexProblems(result: AnonymousApexResult): AnonymousApexProblem[] {
+    if (!result.compiled) {
+        return [
+            {
+                kind: 'compile',
+                message: result.compileProblem ?? 'Compilation failed',
+                line: Math.max(1, result.line),
+                column: Math.max(1, result.column),
+            },
+        ];
+    }
+
+    if (!result.success) {
+        // The exception may be thrown in a class, so use the last frame that is in the executed code
+        const frames = (result.exceptionStackTrace ?? '').split('\n');
+        const frame = frames
+            .map((line) => ANONYMOUS_BLOCK_FRAME_REGEX.exec(line))
+            .filter((match) => match !== null)
+            .pop();
+
+        return [
+            {
+                kind: 'runtime',
+                message: result.exceptionMessage ?? 'Execution failed',
+                line: frame ? Number(frame[1]) : Math.max(1, result.line),
+                column: frame ? Number(frame[2]) : Math.max(1, result.column),
+            },
+        ];
+    }
+
+    return [];
+}
@@ -0,0 +1,136 @@
+import { Logger } from '../../utils/logger';
+import { SalesforceApi } from '../../utils/salesforceApi';
+import { toSoqlDateTime } from '../debugLogs/debugLogQuery';
+import {
+    createDebugLevel,
+    createTraceFlag,
+    deleteTraceFlag,
+    getCurrentUserId,
+    getCurrentUserTraceFlag,
+    listDebugLevels,
+} from '../debugLogs/traceFlagService';
+import { TraceFlagLogType } from '../debugLogs/traceFlagTypes';
+import { AnonymousApexResult } from './anonymousApexTypes';
+
+// Debug level used when the user has no trace flag of their own
+const ANONYMOUS_APEX_DEBUG_LEVEL = 'SF_Multitools_Anonymous_Apex';
+
+// Log type of the trace flag that covers the run
+const ANONYMOUS_APEX_LOG_TYPE: TraceFlagLogType = 'USER_DEBUG';
+
+// Long enough for the run and for the log to be written
+const TEMPORARY_TRACE_FLAG_MINUTES = 5;
+
+// The log is written shortly after the request returns
+const LOG_LOOKUP_ATTEMPTS = 5;
+const LOG_LOOKUP_DELAY_MS = 1000;
+
+/**
+ * Run anonymous Apex as the connected user and find the debug log of the run.
+ * A trace flag is set for the duration of the run if the user does not have an active one.
+ * @param code The Apex to run
+ * @returns The outcome of the run and the ID of its log
+ */
+export async function executeAnonymousApex(code: string): Promise<AnonymousApexResult> {
+    if (!code.trim()) {
+        throw new Error('There is no Apex to execute');
+    }
+
+    const userId = await getCurrentUserId();
+    const temporaryTraceFlagId = await ensureTraceFlag(userId);
+
+    try {
+        // StartTime has second precision, so look back a little
+        const startedAt = new Date(Date.now() - 5000);
+        const result = await SalesforceApi.withConnection((connection) => connection.tooling.executeAnonymous(code));
+        Logger.debug(
+            `Anonymous Apex compiled=${result.compiled} success=${result.success}`,
+            'AnonymousApexService.executeAnonymousApex',
+        );
+
+        return {
+            compiled: result.compiled,
+            success: result.success,
+            compileProblem: result.compileProblem ?? null,
+            exceptionMessage: result.exceptionMessage ?? null,
+            exceptionStackTrace: result.exceptionStackTrace ?? null,
+            line: result.line ?? -1,
+            column: result.column ?? -1,
+            // Code that does not compile does not run, so there is no log
+            logId: result.compiled ? await findRunLog(userId, startedAt) : null,
+        };
+    } finally {
+        if (temporaryTraceFlagId) {
+            await deleteTraceFlag(temporaryTraceFlagId).catch((error) =>
+                Logger.warn(
+                    `Could not remove temporary trace flag: ${error instanceof Error ? error.message : String(error)}`,
+                    'AnonymousApexService.executeAnonymousApex',
+                ),
+            );
+        }
+    }
+}
+
+/**
+ * Make sure the user is traced for the run
+ * @returns The ID of the trace flag to remove after the run, or null if the user's own flag is used
+ */
+async function ensureTraceFlag(userId: string): Promise<string | null> {
+    // createTraceFlag updates the flag of the same log type, so only that flag can be reused
+    const current = await getCurrentUserTraceFlag(ANONYMOUS_APEX_LOG_TYPE);
+    if (current && new Date(current.expirationDate).getTime() > Date.now() + 60 * 1000) {
+        return null;
+    }
+
+    const debugLevelId = current?.debugLevelId ?? (await getAnonymousApexDebugLevelId());
+    const traceFlagId = await createTraceFlag({
+        tracedEntityId: userId,
+        debugLevelId,
+        durationMinutes: TEMPORARY_TRACE_FLAG_MINUTES,
+        logType: ANONYMOUS_APEX_LOG_TYPE,
+    });
+
+    // An expired flag of the user is extended instead of replaced, and kept afterwards
+    return traceFlagId === current?.id ? null : traceFlagId;
+}
+
+async function getAnonymousApexDebugLevelId(): Promise<string> {
+    const existing = (await listDebugLevels()).find((level) => level.developerName === ANONYMOUS_APEX_DEBUG_LEVEL);
+    if (existing) {
+        return existing.id;
+    }
+
+    return createDebugLevel({
+        developerName: ANONYMOUS_APEX_DEBUG_LEVEL,
+        masterLabel: ANONYMOUS_APEX_DEBUG_LEVEL,
+        ApexCode: 'FINEST',
+        ApexProfiling: 'INFO',
+        Callout: 'INFO',
+        Database: 'INFO',
+        System: 'DEBUG',
+        Validation: 'INFO',
+        Visualforce: 'INFO',
+        Workflow: 'INFO',
+    });
+}
+
+/**
+ * Find the log of an anonymous Apex run, waiting for Salesforce to write it
+ * @returns The ID of the log, or null if it did not appear in time
+ */
+async function findRunLog(userId: string, startedAt: Date): Promise<string | null> {
+    const query =
+        `SELECT Id FROM ApexLog WHERE LogUserId = '${userId}' AND Operation LIKE '%executeAnonymous%'` +
+        ` AND StartTime >= ${toSoqlDateTime(startedAt)} ORDER BY StartTime DESC LIMIT 1`;
+
+    for (let attempt = 0; attempt < LOG_LOOKUP_ATTEMPTS; attempt++) {
+        const result = await SalesforceApi.withConnection((connection) => connection.query(query));
+        if (result.records.length > 0) {
+            return result.records[0].Id as string;
+        }
+        await new Promise((resolve) => setTimeout(resolve, LOG_LOOKUP_DELAY_MS));
+    }
+
+    Logger.warn('No debug log found for the anonymous Apex run', 'AnonymousApexService.findRunLog');
+    return null;
+}
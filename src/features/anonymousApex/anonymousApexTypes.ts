@@ -0,0 +1,23 @@
+/**
+ * Outcome of running anonymous Apex
+ */
+export interface AnonymousApexResult {
+    compiled: boolean;
+    success: boolean;
+    compileProblem: string | null;
+    exceptionMessage: string | null;
+    exceptionStackTrace: string | null;
+    line: number; // 1-based line of the compile problem or exception, -1 if unknown
+    column: number; // 1-based, -1 if unknown
+    logId: string | null; // Debug log produced by the run, null if none was found
+}
+
+/**
+ * A compile error or uncaught exception, positioned in the executed code
+ */
+export interface AnonymousApexProblem {
+    kind: 'compile' | 'runtime';
+    message: string;
+    line: number; // 1-based
+    column: number; // 1-based
+}
@@ -0,0 +1,111 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { Logger } from '../../utils/logger';
+import { executeAnonymousApex } from './anonymousApexService';
+import { getAnonymousApexProblems } from './anonymousApexProblems';
+import { AnonymousApexResult } from './anonymousApexTypes';
+import { refreshTraceFlagStatusBar } from '../debugLogs/traceFlagStatusBar';
+
+// Extension of files holding anonymous Apex, as used by the Salesforce CLI
+const ANONYMOUS_APEX_EXTENSION = '.apex';
+
+let diagnostics: vscode.DiagnosticCollection | undefined;
+
+/**
+ * Register the anonymous Apex commands
+ */
+export function registerAnonymousApexCommands(context: vscode.ExtensionContext): void {
+    diagnostics = vscode.languages.createDiagnosticCollection('Anonymous Apex');
+
+    const executeCmdDisposable = vscode.commands.registerCommand(
+        'salesforce-multitools-3.executeAnonymousApex',
+        handleExecuteAnonymousApex,
+    );
+
+    // Problems of a run no longer apply once the code is edited
+    const changeListenerDisposable = vscode.workspace.onDidChangeTextDocument((event) => {
+        if (event.contentChanges.length > 0) {
+            diagnostics?.delete(event.document.uri);
+        }
+    });
+
+    context.subscriptions.push(diagnostics, executeCmdDisposable, changeListenerDisposable);
+
+    Logger.debug('Anonymous Apex commands registered', 'AnonymousApexCommands.registerAnonymousApexCommands');
+}
+
+/**
+ * Run anonymous Apex and open the log of the run in the debug log analyzer
+ * @param code The Apex to run
+ * @returns The outcome of the run
+ */
+export async function runAnonymousApex(code: string): Promise<AnonymousApexResult> {
+    const result = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: 'Executing anonymous Apex...' },
+        () => executeAnonymousApex(code),
+    );
+    refreshTraceFlagStatusBar();
+
+    if (result.logId) {
+        await vscode.commands.executeCommand('salesforce-multitools-3.analyzeDebugLog', result.logId);
+    }
+
+    const [problem] = getAnonymousApexProblems(result);
+    if (!problem) {
+        vscode.window.showInformationMessage('Anonymous Apex executed successfully');
+    } else if (problem.kind === 'compile') {
+        vscode.window.showErrorMessage(`Compile error at line ${problem.line}: ${problem.message}`);
+    } else {
+        vscode.window.showErrorMessage(`Anonymous Apex failed at line ${problem.line}: ${problem.message}`);
+    }
+
+    return result;
+}
+
+/**
+ * Handle running the selection, or the whole file if it is a .apex file
+ */
+async function handleExecuteAnonymousApex(): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+        vscode.window.showInformationMessage('Open a .apex file or select Apex to execute');
+        return;
+    }
+
+    const { document, selection } = editor;
+    const isApexFile = path.extname(document.fileName).toLowerCase() === ANONYMOUS_APEX_EXTENSION;
+    if (selection.isEmpty && !isApexFile) {
+        vscode.window.showInformationMessage('Select the Apex to execute, or open a .apex file');
+        return;
+    }
+
+    // Problems are reported relative to the executed code
+    const range = selection.isEmpty ? new vscode.Range(0, 0, document.lineCount, 0) : selection;
+    diagnostics?.delete(document.uri);
+
+    try {
+        const result = await runAnonymousApex(document.getText(range));
+        diagnostics?.set(document.uri, toDiagnostics(document, range.start, result));
+    } catch (error) {
+        Logger.error('Error executing anonymous Apex:', 'AnonymousApexCommands.handleExecuteAnonymousApex', error);
+        vscode.window.showErrorMessage(
+            `Could not execute anonymous Apex: ${error instanceof Error ? error.message : String(error)}`,
+        );
+    }
+}
+
+function toDiagnostics(
+    document: vscode.TextDocument,
+    start: vscode.Position,
+    result: AnonymousApexResult,
+): vscode.Diagnostic[] {
+    return getAnonymousApexProblems(result).map((problem) => {
+        const line = Math.min(start.line + problem.line - 1, document.lineCount - 1);
+        const column = (problem.line === 1 ? start.character : 0) + problem.column - 1;
+        const range = new vscode.Range(line, column, line, document.lineAt(line).text.length);
+
+        const diagnostic = new vscode.Diagnostic(range, problem.message, vscode.DiagnosticSeverity.Error);
+        diagnostic.source = problem.kind === 'compile' ? 'Anonymous Apex (compile)' : 'Anonymous Apex (runtime)';
+        return diagnostic;
+    });
+}
@@ -0,0 +1,5 @@
+export * from './anonymousApexTypes';
+export * from './anonymousApexService';
+
+// Re-export the command handler for easier integration
+export { registerAnonymousApexCommands, runAnonymousApex } from './commands';
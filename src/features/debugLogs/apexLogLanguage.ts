@@ -0,0 +1,200 @@
+import * as vscode from 'vscode';
+import { parseApexLog } from './apexLogParser';
+import { ApexLogOutlineItem, buildLogOutline, computeFoldingRanges } from './apexLogOutline';
+import { ApexSourceReference, ApexSourceTarget, findSourceReferences } from './apexLogSourceReferences';
+import { Logger } from '../../utils/logger';
+import { getMetadataInfoFromFilePath } from '../../utils/metadataUtils';
+
+// Language contributed in package.json for debug logs
+export const APEX_LOG_LANGUAGE_ID = 'apexlog';
+
+const APEX_LOG_SELECTOR: vscode.DocumentSelector = { language: APEX_LOG_LANGUAGE_ID };
+
+/**
+ * Folds matching begin/end event pairs
+ */
+class ApexLogFoldingRangeProvider implements vscode.FoldingRangeProvider {
+    provideFoldingRanges(document: vscode.TextDocument): vscode.FoldingRange[] {
+        const lines = document.getText().split('\n');
+        return computeFoldingRanges(lines).map(({ start, end }) => new vscode.FoldingRange(start, end));
+    }
+}
+
+/**
+ * Outline of the code units and methods of a log
+ */
+class ApexLogDocumentSymbolProvider implements vscode.DocumentSymbolProvider {
+    provideDocumentSymbols(document: vscode.TextDocument): vscode.DocumentSymbol[] {
+        return buildLogOutline(parseApexLog(document.getText())).map((item) => toDocumentSymbol(document, item));
+    }
+}
+
+function toDocumentSymbol(document: vscode.TextDocument, item: ApexLogOutlineItem): vscode.DocumentSymbol {
+    const endLine = Math.min(item.endLine, document.lineCount - 1);
+    const symbol = new vscode.DocumentSymbol(
+        item.name,
+        `${(item.durationNanos / 1e6).toFixed(2)} ms`,
+        item.kind === 'codeUnit' ? vscode.SymbolKind.Module : vscode.SymbolKind.Method,
+        new vscode.Range(item.startLine, 0, endLine, document.lineAt(endLine).text.length),
+        document.lineAt(item.startLine).range,
+    );
+    symbol.children = item.children.map((child) => toDocumentSymbol(document, child));
+    return symbol;
+}
+
+/**
+ * Local .cls and .trigger files by metadata type and name, kept up to date with a file watcher
+ */
+class ApexSourceIndex implements vscode.Disposable {
+    private files: Map<string, vscode.Uri> | null = null;
+    private readonly watcher = vscode.workspace.createFileSystemWatcher('**/*.{cls,trigger}', false, true, false);
+
+    constructor() {
+        this.watcher.onDidCreate(() => (this.files = null));
+        this.watcher.onDidDelete(() => (this.files = null));
+    }
+
+    async find(target: ApexSourceTarget): Promise<vscode.Uri | undefined> {
+        if (!this.files) {
+            const files = new Map<string, vscode.Uri>();
+            for (const uri of await vscode.workspace.findFiles('**/*.{cls,trigger}', '**/node_modules/**')) {
+                const metadataInfo = getMetadataInfoFromFilePath(uri.fsPath);
+                if (metadataInfo) {
+                    files.set(getIndexKey(metadataInfo.type, metadataInfo.apiName), uri);
+                }
+            }
+            this.files = files;
+        }
+        return this.files.get(getIndexKey(target.type, target.name));
+    }
+
+    dispose(): void {
+        this.watcher.dispose();
+    }
+}
+
+// Apex names are case-insensitive
+function getIndexKey(type: string, name: string): string {
+    return `${type}:${name.toLowerCase()}`;
+}
+
+/**
+ * Resolve the location a log reference points to
+ * @returns The location, or undefined if the class or trigger is not in the workspace
+ */
+async function resolveSourceTarget(
+    index: ApexSourceIndex,
+    target: ApexSourceTarget,
+): Promise<vscode.Location | undefined> {
+    const uri = await index.find(target);
+    if (!uri) {
+        return undefined;
+    }
+
+    let line = target.line !== null ? target.line - 1 : 0;
+    if (target.methodName) {
+        // The log only names the method, so look for its declaration
+        const document = await vscode.workspace.openTextDocument(uri);
+        const declaration = new RegExp(`^\\s*(?:[\\w<>,\\[\\]]+\\s+)+${target.methodName}\\s*\\(`, 'i');
+        for (let i = 0; i < document.lineCount; i++) {
+            if (declaration.test(document.lineAt(i).text)) {
+                line = i;
+                break;
+            }
+        }
+    }
+    return new vscode.Location(uri, new vscode.Position(Math.max(0, line), 0));
+}
+
+/**
+ * References of the last document asked for; links and definitions ask for the same document repeatedly
+ */
+let referenceCache: { uri: string; version: number; references: ApexSourceReference[] } | null = null;
+
+function getSourceReferences(document: vscode.TextDocument): ApexSourceReference[] {
+    const uri = document.uri.toString();
+    if (referenceCache?.uri !== uri || referenceCache.version !== document.version) {
+        referenceCache = {
+            uri,
+            version: document.version,
+            references: findSourceReferences(document.getText().split('\n')),
+        };
+    }
+    return referenceCache.references;
+}
+
+function toRange(reference: ApexSourceReference): vscode.Range {
+    return new vscode.Range(reference.line, reference.startColumn, reference.line, reference.endColumn);
+}
+
+/**
+ * Document link whose target file is looked up only when the link is followed
+ */
+class ApexSourceLink extends vscode.DocumentLink {
+    constructor(readonly reference: ApexSourceReference) {
+        super(toRange(reference));
+        const { type, name, line, methodName } = reference.target;
+        this.tooltip = `Open ${type === 'ApexTrigger' ? 'trigger' : 'class'} ${name}${
+            line !== null ? ` at line ${line}` : methodName ? `.${methodName}` : ''
+        }`;
+    }
+}
+
+/**
+ * Links [line] markers and called methods to the local Apex source
+ */
+class ApexLogDocumentLinkProvider implements vscode.DocumentLinkProvider<ApexSourceLink> {
+    constructor(private readonly index: ApexSourceIndex) {}
+
+    provideDocumentLinks(document: vscode.TextDocument): ApexSourceLink[] {
+        return getSourceReferences(document).map((reference) => new ApexSourceLink(reference));
+    }
+
+    async resolveDocumentLink(link: ApexSourceLink): Promise<ApexSourceLink | undefined> {
+        const location = await resolveSourceTarget(this.index, link.reference.target);
+        if (!location) {
+            vscode.window.showWarningMessage(`${link.reference.target.name} was not found in the workspace`);
+            return undefined;
+        }
+        // File links open at the line given in the fragment
+        link.target = location.uri.with({ fragment: `L${location.range.start.line + 1}` });
+        return link;
+    }
+}
+
+/**
+ * Go to Definition on [line] markers and called methods
+ */
+class ApexLogDefinitionProvider implements vscode.DefinitionProvider {
+    constructor(private readonly index: ApexSourceIndex) {}
+
+    async provideDefinition(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+    ): Promise<vscode.Location | undefined> {
+        const reference = getSourceReferences(document).find((r) => toRange(r).contains(position));
+        return reference ? resolveSourceTarget(this.index, reference.target) : undefined;
+    }
+}
+
+/**
+ * Register the folding, outline and navigation providers of the debug log language
+ */
+export function registerApexLogLanguage(context: vscode.ExtensionContext): void {
+    context.subscriptions.push(
+        vscode.languages.registerFoldingRangeProvider(APEX_LOG_SELECTOR, new ApexLogFoldingRangeProvider()),
+        vscode.languages.registerDocumentSymbolProvider(APEX_LOG_SELECTOR, new ApexLogDocumentSymbolProvider(), {
+            label: 'Apex Debug Log',
+        }),
+    );
+
+    // Navigation from log lines to the local .cls and .trigger files
+    const sourceIndex = new ApexSourceIndex();
+    context.subscriptions.push(
+        sourceIndex,
+        vscode.languages.registerDocumentLinkProvider(APEX_LOG_SELECTOR, new ApexLogDocumentLinkProvider(sourceIndex)),
+        vscode.languages.registerDefinitionProvider(APEX_LOG_SELECTOR, new ApexLogDefinitionProvider(sourceIndex)),
+    );
+
+    Logger.debug('Apex debug log language providers registered', 'ApexLogLanguage.registerApexLogLanguage');
+}
@@ -0,0 +1,119 @@
+import { getEventType } from './apexLogParser';
+import { ApexLogNode, ParsedApexLog } from './apexLogTypes';
+
+/**
+ * A foldable region of a log, as 0-based line numbers
+ */
+export interface ApexLogFoldingRange {
+    start: number;
+    end: number;
+}
+
+/**
+ * A code unit or method in the outline of a log, as 0-based line numbers
+ */
+export interface ApexLogOutlineItem {
+    kind: 'codeUnit' | 'method';
+    name: string;
+    durationNanos: number;
+    startLine: number;
+    endLine: number;
+    children: ApexLogOutlineItem[];
+}
+
+// Suffixes of events that open a region, with the suffix of the event that closes it
+const OPENING_SUFFIXES: [string, string][] = [
+    ['_BEGIN', '_END'],
+    ['_ENTRY', '_EXIT'],
+    ['_STARTED', '_FINISHED'],
+    ['_START', '_END'],
+];
+
+// Events that open a region without a recognisable suffix
+const OPENING_EVENTS: Record<string, string> = {
+    CUMULATIVE_LIMIT_USAGE: 'CUMULATIVE_LIMIT_USAGE_END',
+    CUMULATIVE_PROFILING_BEGIN: 'CUMULATIVE_PROFILING_END',
+};
+
+/**
+ * Get the event type that closes a region opened by an event type
+ * @returns The closing event type, or null if the event does not open a region
+ */
+export function getClosingEventType(type: string): string | null {
+    if (OPENING_EVENTS[type]) {
+        return OPENING_EVENTS[type];
+    }
+    for (const [open, close] of OPENING_SUFFIXES) {
+        if (type.endsWith(open)) {
+            return type.slice(0, -open.length) + close;
+        }
+    }
+    return null;
+}
+
+/**
+ * Find the foldable regions of a log: matching *_BEGIN/*_END, METHOD_ENTRY/EXIT and similar pairs.
+ * Regions left open by a truncated log or an unmatched end event are skipped.
+ * @param lines The lines of the log
+ */
+export function computeFoldingRanges(lines: string[]): ApexLogFoldingRange[] {
+    const ranges: ApexLogFoldingRange[] = [];
+    const open: { close: string; line: number }[] = [];
+
+    for (let index = 0; index < lines.length; index++) {
+        const type = getEventType(lines[index].replace(/\r$/, ''));
+        if (!type) {
+            continue;
+        }
+
+        const close = getClosingEventType(type);
+        if (close) {
+            open.push({ close, line: index });
+            continue;
+        }
+
+        // Close the innermost matching region, dropping any region nested in it that was never closed
+        for (let i = open.length - 1; i >= 0; i--) {
+            if (open[i].close === type) {
+                if (index > open[i].line) {
+                    ranges.push({ start: open[i].line, end: index });
+                }
+                open.length = i;
+                break;
+            }
+        }
+    }
+
+    return ranges.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Build the outline of code units and methods of a parsed log
+ * @param log The parsed log
+ */
+export function buildLogOutline(log: ParsedApexLog): ApexLogOutlineItem[] {
+    return collectOutlineItems(log.root, log.lineCount);
+}
+
+function collectOutlineItems(node: ApexLogNode, lineCount: number): ApexLogOutlineItem[] {
+    const items: ApexLogOutlineItem[] = [];
+
+    for (const child of node.children) {
+        const children = collectOutlineItems(child, lineCount);
+        if (child.kind === 'codeUnit' || child.kind === 'method') {
+            items.push({
+                kind: child.kind,
+                name: child.name,
+                durationNanos: child.durationNanos,
+                startLine: child.startLine - 1,
+                endLine: (child.endLine ?? lineCount) - 1,
+                children,
+            });
+        } else {
+            // SOQL, DML and execution wrappers are not part of the outline, but what they contain is
+            items.push(...children);
+        }
+    }
+
+    return items;
+}
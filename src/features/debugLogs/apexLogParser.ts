@@ -0,0 +1,561 @@
+import {
+    ApexLogError,
+    ApexLogEvent,
+    ApexLogEventKind,
+    ApexLogHeader,
+    ApexLogLimit,
+    ApexLogLimitSummary,
+    ApexLogNode,
+    ApexLogNodeKind,
+    ParsedApexLog,
+} from './apexLogTypes';
+
+export const NO_METHOD_NAME_FOUND = 'NO_METHOD_NAME_FOUND';
+
+// Events used to pick the "primary" method name of a log
+const METHOD_NAME_EVENTS = ['CODE_UNIT_STARTED', 'METHOD_ENTRY'];
+
+// 00:22:12.0 (575653256)|METHOD_ENTRY|[20]|01p6T000003kGEp|MDMDRUtility.invokeMethod(String)
+const EVENT_LINE_REGEX = /^(\d{1,2}:\d{2}:\d{2}\.\d+)\s+\((\d+)\)\|([A-Z0-9_]+)(?:\|(.*))?$/;
+
+// 59.0 APEX_CODE,FINEST;APEX_PROFILING,INFO;CALLOUT,INFO;DB,INFO
+const HEADER_LINE_REGEX = /^(\d+\.\d+)\s+(.*)$/;
+
+//   Number of SOQL queries: 2 out of 100 ******* CLOSE TO LIMIT
+const LIMIT_LINE_REGEX = /^\s*(.+?):\s*(\d+)\s+out of\s+(\d+)/;
+
+// Limits shown in the debug log list, keyed by the summary property they populate
+const SUMMARY_LIMITS: Record<Exclude<keyof ApexLogLimitSummary, 'limits'>, string> = {
+    soqlQueries: 'Number of SOQL queries',
+    dmlRows: 'Number of DML rows',
+    cpuTime: 'Maximum CPU time',
+    heapSize: 'Maximum heap size',
+};
+
+const EVENT_KINDS: Record<string, ApexLogEventKind> = {
+    CODE_UNIT_STARTED: 'codeUnitStarted',
+    CODE_UNIT_FINISHED: 'codeUnitFinished',
+    METHOD_ENTRY: 'methodEntry',
+    METHOD_EXIT: 'methodExit',
+    CONSTRUCTOR_ENTRY: 'methodEntry',
+    CONSTRUCTOR_EXIT: 'methodExit',
+    SYSTEM_METHOD_ENTRY: 'methodEntry',
+    SYSTEM_METHOD_EXIT: 'methodExit',
+    SOQL_EXECUTE_BEGIN: 'soqlBegin',
+    SOQL_EXECUTE_END: 'soqlEnd',
+    SOSL_EXECUTE_BEGIN: 'soqlBegin',
+    SOSL_EXECUTE_END: 'soqlEnd',
+    DML_BEGIN: 'dmlBegin',
+    DML_END: 'dmlEnd',
+    LIMIT_USAGE_FOR_NS: 'limitUsage',
+    EXCEPTION_THROWN: 'exception',
+    FATAL_ERROR: 'fatalError',
+    USER_DEBUG: 'userDebug',
+};
+
+// Begin events that open a node in the call tree, with the event that closes them
+const NODE_PAIRS: Record<string, { end: string; kind: ApexLogNodeKind }> = {
+    EXECUTION_STARTED: { end: 'EXECUTION_FINISHED', kind: 'execution' },
+    CODE_UNIT_STARTED: { end: 'CODE_UNIT_FINISHED', kind: 'codeUnit' },
+    METHOD_ENTRY: { end: 'METHOD_EXIT', kind: 'method' },
+    CONSTRUCTOR_ENTRY: { end: 'CONSTRUCTOR_EXIT', kind: 'method' },
+    SYSTEM_METHOD_ENTRY: { end: 'SYSTEM_METHOD_EXIT', kind: 'method' },
+    SOQL_EXECUTE_BEGIN: { end: 'SOQL_EXECUTE_END', kind: 'soql' },
+    SOSL_EXECUTE_BEGIN: { end: 'SOSL_EXECUTE_END', kind: 'soql' },
+    DML_BEGIN: { end: 'DML_END', kind: 'dml' },
+    CALLOUT_REQUEST: { end: 'CALLOUT_RESPONSE', kind: 'callout' },
+    FLOW_START_INTERVIEW_BEGIN: { end: 'FLOW_START_INTERVIEW_END', kind: 'flow' },
+};
+
+interface OpenNode {
+    node: ApexLogNode;
+    endType: string;
+}
+
+/**
+ * Parse a complete debug log body into typed events and a nested call tree
+ * @param logBody The raw ApexLog body
+ * @returns The parsed log
+ */
+export function parseApexLog(logBody: string): ParsedApexLog {
+    const lines = logBody.split('\n');
+    const header: ApexLogHeader = { apiVersion: null, logLevels: {} };
+    const events: ApexLogEvent[] = [];
+
+    const root: ApexLogNode = createNode('root', 'Log', 0, 0, null, -1);
+    const stack: OpenNode[] = [];
+    let lastEvent: ApexLogEvent | null = null;
+    let lastNanos = 0;
+
+    for (let index = 0; index < lines.length; index++) {
+        const line = lines[index].replace(/\r$/, '');
+        const lineNumber = index + 1;
+
+        const event = parseEventLine(line, lineNumber);
+        if (!event) {
+            if (index === 0 && parseHeaderLine(line, header)) {
+                continue;
+            }
+            if (lastEvent && line.trim() !== '') {
+                appendContinuationLine(lastEvent, line);
+            }
+            continue;
+        }
+
+        events.push(event);
+        lastEvent = event;
+        lastNanos = Math.max(lastNanos, event.nanos);
+
+        const pair = NODE_PAIRS[event.type];
+        if (pair) {
+            const parent = stack.length > 0 ? stack[stack.length - 1].node : root;
+            const node = createNode(
+                pair.kind,
+                getNodeName(event),
+                event.nanos,
+                lineNumber,
+                event.sourceLine,
+                parent.depth + 1,
+            );
+            if (event.rows !== undefined) {
+                node.rows = event.rows;
+            }
+            parent.children.push(node);
+            stack.push({ node, endType: pair.end });
+            continue;
+        }
+
+        // Close the innermost node that this event ends. Anything opened above it never received
+        // its own end event (e.g. a method unwound by an exception) and is closed at the same time.
+        const openIndex = findOpenNode(stack, event.type);
+        if (openIndex >= 0) {
+            while (stack.length > openIndex) {
+                const { node } = stack.pop()!;
+                closeNode(node, event.nanos, stack.length === openIndex ? lineNumber : null);
+            }
+            const closed = findLastClosedChild(stack, root);
+            if (closed && event.rows !== undefined) {
+                closed.rows = event.rows;
+            }
+        }
+    }
+
+    // Anything still open ran until the end of the log
+    while (stack.length > 0) {
+        closeNode(stack.pop()!.node, lastNanos, null);
+    }
+    closeNode(root, lastNanos, null);
+
+    return {
+        header,
+        events,
+        root,
+        totalNanos: lastNanos,
+        lineCount: lines.length,
+    };
+}
+
+/**
+ * Get the event type of a log line, e.g. USER_DEBUG
+ * @param line The raw log line
+ * @returns The event type or null if the line is not an event line
+ */
+export function getEventType(line: string): string | null {
+    return line.match(EVENT_LINE_REGEX)?.[3] ?? null;
+}
+
+/**
+ * Parse a single log line into an event
+ * @param line The raw log line without the trailing newline
+ * @param lineNumber The 1-based line number of the line
+ * @returns The parsed event or null if the line is not an event line
+ */
+export function parseEventLine(line: string, lineNumber: number): ApexLogEvent | null {
+    const match = line.match(EVENT_LINE_REGEX);
+    if (!match) {
+        return null;
+    }
+
+    const [, timestamp, nanos, type, rest] = match;
+    const fields = rest !== undefined ? rest.split('|') : [];
+    const sourceLineMatch = fields[0]?.match(/^\[(\d+)\]$/);
+
+    const event: ApexLogEvent = {
+        kind: EVENT_KINDS[type] ?? 'other',
+        type,
+        timestamp,
+        nanos: Number(nanos),
+        lineNumber,
+        sourceLine: sourceLineMatch ? Number(sourceLineMatch[1]) : null,
+        fields,
+    };
+
+    // The heuristics below expect the original split of the whole line
+    const parts = [timestamp, type, ...fields];
+
+    switch (event.kind) {
+        case 'codeUnitStarted':
+            event.name = fields[fields.length - 1]?.trim();
+            event.label = processCodeUnitStartedLine(parts);
+            break;
+        case 'codeUnitFinished':
+            event.name = fields[fields.length - 1]?.trim();
+            break;
+        case 'methodEntry':
+        case 'methodExit':
+            event.name = getMethodName(type, fields);
+            if (event.kind === 'methodEntry') {
+                event.label = processMethodEntryLine(parts);
+            }
+            break;
+        case 'soqlBegin':
+            // SOQL_EXECUTE_BEGIN|[12]|Aggregations:0|SELECT Id FROM Account
+            event.statement = fields.slice(type === 'SOQL_EXECUTE_BEGIN' ? 2 : 1).join('|');
+            break;
+        case 'soqlEnd':
+            // SOQL_EXECUTE_END|[12]|Rows:5
+            event.rows = getNamedNumber(fields, 'Rows');
+            break;
+        case 'dmlBegin':
+            // DML_BEGIN|[15]|Op:Insert|Type:Account|Rows:1
+            event.operation = getNamedValue(fields, 'Op');
+            event.objectType = getNamedValue(fields, 'Type');
+            event.rows = getNamedNumber(fields, 'Rows');
+            break;
+        case 'exception':
+        case 'fatalError':
+            // EXCEPTION_THROWN|[42]|System.NullPointerException: Attempt to de-reference a null object
+            // FATAL_ERROR|System.NullPointerException: Attempt to de-reference a null object
+            event.message = fields.slice(event.sourceLine !== null ? 1 : 0).join('|');
+            break;
+        case 'userDebug':
+            // USER_DEBUG|[12]|DEBUG|message
+            event.level = fields[1];
+            event.message = fields.slice(2).join('|');
+            break;
+        case 'limitUsage':
+            // LIMIT_USAGE_FOR_NS|(default)|
+            event.namespace = fields[0];
+            event.limits = [];
+            break;
+    }
+
+    return event;
+}
+
+/**
+ * Extract the primary method name from (part of) a debug log body
+ * @param logBody The content of the debug log, which may be truncated
+ * @returns The extracted method name or NO_METHOD_NAME_FOUND
+ */
+export function extractMethodName(logBody: string): string {
+    let methodName = NO_METHOD_NAME_FOUND;
+
+    const logLines = logBody.split('\n');
+    for (const line of logLines) {
+        const parts = line.split('|');
+        if (parts?.length && METHOD_NAME_EVENTS.includes(parts[1])) {
+            const extractedName =
+                parts[1] === 'CODE_UNIT_STARTED' ? processCodeUnitStartedLine(parts) : processMethodEntryLine(parts);
+
+            if (extractedName) {
+                methodName = extractedName;
+                break;
+            }
+        }
+    }
+
+    return methodName;
+}
+
+/**
+ * Extract only the LIMIT_USAGE_FOR_NS blocks from a debug log body.
+ * This is much cheaper than a full parse for logs where only the limits are needed.
+ * @param logBody The raw ApexLog body
+ * @returns The limit usage events with their parsed limits
+ */
+export function extractLimitUsage(logBody: string): ApexLogEvent[] {
+    const lines = logBody.split('\n');
+    const events: ApexLogEvent[] = [];
+    let current: ApexLogEvent | null = null;
+
+    for (let index = 0; index < lines.length; index++) {
+        const line = lines[index].replace(/\r$/, '');
+
+        if (line.includes('|LIMIT_USAGE_FOR_NS|')) {
+            current = parseEventLine(line, index + 1);
+            if (current) {
+                events.push(current);
+            }
+        } else if (current) {
+            // The block ends at the next event line
+            if (EVENT_LINE_REGEX.test(line)) {
+                current = null;
+            } else {
+                appendContinuationLine(current, line);
+            }
+        }
+    }
+
+    return events;
+}
+
+/**
+ * Extract the exceptions, fatal errors and failed validation rules from a debug log body.
+ * The ApexLog Status is "Success" even when an exception was handled, so this is the only reliable source.
+ * @param logBody The raw ApexLog body
+ * @returns The errors in the order they occurred
+ */
+export function extractLogErrors(logBody: string): ApexLogError[] {
+    const lines = logBody.split('\n');
+    const errors: ApexLogError[] = [];
+    let current: ApexLogError | null = null;
+    let lastValidationRule: string | null = null;
+
+    for (let index = 0; index < lines.length; index++) {
+        const line = lines[index].replace(/\r$/, '');
+        const type = line.includes('|') ? getEventType(line) : null;
+
+        if (type === 'EXCEPTION_THROWN' || type === 'FATAL_ERROR') {
+            const event = parseEventLine(line, index + 1)!;
+            current = { type, message: event.message ?? '', lineNumber: index + 1, sourceLine: event.sourceLine };
+            errors.push(current);
+        } else if (type === 'VALIDATION_RULE') {
+            // VALIDATION_RULE|03d5f000000Abcd|Require_Close_Reason
+            const fields = line.split('|');
+            lastValidationRule = fields[fields.length - 1];
+            current = null;
+        } else if (type === 'VALIDATION_FAIL') {
+            // The failure itself has no details, the rule is logged just before it
+            const message = lastValidationRule
+                ? `Validation rule failed: ${lastValidationRule}`
+                : 'Validation rule failed';
+            errors.push({ type, message, lineNumber: index + 1, sourceLine: null });
+            current = null;
+        } else if (type) {
+            current = null;
+        } else if (current) {
+            // Stack traces and multi-line messages continue until the next event line
+            current.message += `\n${line}`;
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * Summarize governor limit usage from the limit usage events of a log
+ * @param events Events of the log; only limit usage events are considered
+ * @returns The highest usage of every limit
+ */
+export function summarizeLimits(events: ApexLogEvent[]): ApexLogLimitSummary {
+    const highest = new Map<string, ApexLogLimit>();
+
+    for (const event of events) {
+        for (const limit of event.limits ?? []) {
+            const existing = highest.get(limit.name);
+            if (!existing || limit.used > existing.used) {
+                highest.set(limit.name, limit);
+            }
+        }
+    }
+
+    return {
+        soqlQueries: highest.get(SUMMARY_LIMITS.soqlQueries) ?? null,
+        dmlRows: highest.get(SUMMARY_LIMITS.dmlRows) ?? null,
+        cpuTime: highest.get(SUMMARY_LIMITS.cpuTime) ?? null,
+        heapSize: highest.get(SUMMARY_LIMITS.heapSize) ?? null,
+        limits: Array.from(highest.values()),
+    };
+}
+
+export function processCodeUnitStartedLine(parts: string[]): string | null {
+    // 00:30:32.0 (198512)|CODE_UNIT_STARTED|[EXTERNAL]|apex://CometD_Controller/ACTION$getSessionId
+    // 00:28:49.0 (210089)|CODE_UNIT_STARTED|[EXTERNAL]|01qVN000000tgzW|GuideCXTrigger on BeyndProject trigger event BeforeUpdate|__sfdc_trigger/GuideCXTrigger
+    // 00:30:22.117 (117180945)|CODE_UNIT_STARTED|[EXTERNAL]|01q5f000002NEFh|Opportunity on Opportunity trigger event BeforeUpdate|__sfdc_trigger/Opportunity
+    // 00:28:49.0 (194084)|CODE_UNIT_STARTED|[EXTERNAL]|TRIGGERS -- this should be ignored
+    // 00:21:32.0 (247348)|CODE_UNIT_STARTED|[EXTERNAL]|Flow:Opportunity
+
+    if (parts.length < 4) {
+        return null;
+    }
+
+    // Ignore lines with just TRIGGERS
+    if (parts[parts.length - 1].trim() === 'TRIGGERS') {
+        return null;
+    }
+
+    const lastPart = parts[parts.length - 1].trim();
+
+    // Format Apex method names for apex:// format
+    if (lastPart.startsWith('apex://')) {
+        const match = lastPart.match(/^apex:\/\/([^/]+)\/ACTION\$(.+)$/);
+        if (match) {
+            return `${match[1]}.${match[2]}`;
+        }
+    }
+
+    // Match Flow pattern
+    if (lastPart.startsWith('Flow:')) {
+        return lastPart; // Return the full "Flow:FlowName" format
+    }
+
+    // Check for trigger pattern with description
+    // Example: 01q5f000002NEFh|Opportunity on Opportunity trigger event BeforeUpdate|__sfdc_trigger/Opportunity
+    if (parts.length >= 6 && lastPart.includes('__sfdc_trigger/')) {
+        // Extract and return the trigger description part (second to last part)
+        return parts[parts.length - 2].trim();
+    }
+
+    // No fallback to raw name - if we can't identify a specific pattern, return null
+    return null;
+}
+
+export function processMethodEntryLine(parts: string[]): string | null {
+    // 00:22:12.0 (575653256)|METHOD_ENTRY|[20]|01p6T000003kGEp|MDMDRUtility.invokeMethod(String, Map<String,ANY>, Map<String,ANY>, Map<String,ANY>)
+    // 00:22:14.7 (2160790012)|METHOD_ENTRY|[23]|01pEm000008zqxx|PreSalesConsentValueValidation.validateConsentValues(List<ANY>)
+    // 00:22:14.7 (2161081130)|METHOD_ENTRY|[76]||System.Pattern.compile(String) --- dont match the System class methods
+    // 00:22:14.7 (2161235559)|METHOD_ENTRY|[78]||System.Matcher.matches() --- dont match the System class methods
+
+    if (parts.length < 5) {
+        return null;
+    }
+
+    const methodPart = parts[parts.length - 1].trim();
+
+    // Skip System class methods
+    if (methodPart.startsWith('System.')) {
+        return null;
+    }
+
+    // Check if we have a class.method format
+    const methodMatch = methodPart.match(/^([^.]+)\.([^(]+)/);
+    if (methodMatch) {
+        return `${methodMatch[1]}.${methodMatch[2]}`;
+    }
+
+    return null;
+}
+
+/**
+ * Parse the header line of a debug log
+ * @returns True if the line was a header line
+ */
+function parseHeaderLine(line: string, header: ApexLogHeader): boolean {
+    const match = line.match(HEADER_LINE_REGEX);
+    if (!match) {
+        return false;
+    }
+
+    header.apiVersion = match[1];
+    for (const category of match[2].split(';')) {
+        const [name, level] = category.split(',');
+        if (name && level) {
+            header.logLevels[name.trim()] = level.trim();
+        }
+    }
+    return true;
+}
+
+/**
+ * Attach a line without an event prefix to the event it belongs to
+ */
+function appendContinuationLine(event: ApexLogEvent, line: string): void {
+    if (event.kind === 'limitUsage') {
+        const limit = parseLimitLine(line);
+        if (limit) {
+            event.limits!.push(limit);
+        }
+        return;
+    }
+
+    if (event.message !== undefined) {
+        event.message += `\n${line}`;
+    } else if (event.statement !== undefined) {
+        event.statement += `\n${line}`;
+    }
+}
+
+function parseLimitLine(line: string): ApexLogLimit | null {
+    const match = line.match(LIMIT_LINE_REGEX);
+    if (!match) {
+        return null;
+    }
+    return { name: match[1].trim(), used: Number(match[2]), max: Number(match[3]) };
+}
+
+function getMethodName(type: string, fields: string[]): string {
+    const last = fields[fields.length - 1]?.trim() ?? '';
+
+    // CONSTRUCTOR_ENTRY|[1]|01p...|<init>()|MyClass
+    if (type.startsWith('CONSTRUCTOR_') && fields.length >= 2) {
+        return `${last}.${fields[fields.length - 2].trim()}`;
+    }
+    return last;
+}
+
+function getNodeName(event: ApexLogEvent): string {
+    switch (event.kind) {
+        case 'codeUnitStarted':
+            return event.label ?? event.name ?? event.type;
+        case 'soqlBegin':
+            return event.statement ?? event.type;
+        case 'dmlBegin':
+            return [event.operation, event.objectType].filter(Boolean).join(' ') || event.type;
+        default:
+            return event.name || event.fields[event.fields.length - 1] || event.type;
+    }
+}
+
+function getNamedValue(fields: string[], key: string): string | undefined {
+    const prefix = `${key}:`;
+    const field = fields.find((f) => f.startsWith(prefix));
+    return field?.substring(prefix.length);
+}
+
+function getNamedNumber(fields: string[], key: string): number | undefined {
+    const value = getNamedValue(fields, key);
+    return value !== undefined && !isNaN(Number(value)) ? Number(value) : undefined;
+}
+
+function createNode(
+    kind: ApexLogNodeKind,
+    name: string,
+    startNanos: number,
+    startLine: number,
+    sourceLine: number | null,
+    depth: number,
+): ApexLogNode {
+    return {
+        kind,
+        name,
+        startNanos,
+        endNanos: startNanos,
+        durationNanos: 0,
+        startLine,
+        endLine: null,
+        sourceLine,
+        depth,
+        children: [],
+    };
+}
+
+function closeNode(node: ApexLogNode, endNanos: number, endLine: number | null): void {
+    node.endNanos = Math.max(node.startNanos, endNanos);
+    node.durationNanos = node.endNanos - node.startNanos;
+    node.endLine = endLine;
+}
+
+function findOpenNode(stack: OpenNode[], endType: string): number {
+    for (let i = stack.length - 1; i >= 0; i--) {
+        if (stack[i].endType === endType) {
+            return i;
+        }
+    }
+    return -1;
+}
+
+function findLastClosedChild(stack: OpenNode[], root: ApexLogNode): ApexLogNode | undefined {
+    const parent = stack.length > 0 ? stack[stack.length - 1].node : root;
+    return parent.children[parent.children.length - 1];
+}
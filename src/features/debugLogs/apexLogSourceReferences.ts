@@ -0,0 +1,150 @@
+import { getEventType, processMethodEntryLine } from './apexLogParser';
+
+/**
+ * Apex source file a part of a log line refers to
+ */
+export interface ApexSourceTarget {
+    type: 'ApexClass' | 'ApexTrigger'; // Metadata type, as returned by getMetadataInfoFromFilePath
+    name: string;
+    line: number | null; // 1-based source line, null when only the method is known
+    methodName: string | null;
+}
+
+/**
+ * A span of a log line that refers to Apex source, as 0-based positions
+ */
+export interface ApexSourceReference {
+    line: number;
+    startColumn: number;
+    endColumn: number;
+    target: ApexSourceTarget;
+}
+
+// [42] in an event line; [EXTERNAL] has no source line
+const SOURCE_LINE_REGEX = /\|\[(\d+)\]/;
+
+// Events that leave the code unit or method they belong to
+const CLOSING_EVENTS = new Set(['METHOD_EXIT', 'CONSTRUCTOR_EXIT', 'CODE_UNIT_FINISHED']);
+
+type SourceContext = Pick<ApexSourceTarget, 'type' | 'name'> | null;
+
+/**
+ * Find the parts of a log that refer to local Apex source:
+ * [line] markers, which belong to the class or trigger executing at that point,
+ * and method names of METHOD_ENTRY events, which belong to the class being called.
+ * @param lines The lines of the log
+ */
+export function findSourceReferences(lines: string[]): ApexSourceReference[] {
+    const references: ApexSourceReference[] = [];
+    const contexts: SourceContext[] = [];
+
+    for (let index = 0; index < lines.length; index++) {
+        const line = lines[index].replace(/\r$/, '');
+        const type = getEventType(line);
+        if (!type) {
+            continue;
+        }
+
+        // Exit events report the line of the caller, so leave the method first
+        if (CLOSING_EVENTS.has(type)) {
+            contexts.pop();
+        }
+
+        const current = contexts.length > 0 ? contexts[contexts.length - 1] : null;
+        const sourceLine = line.match(SOURCE_LINE_REGEX);
+        if (sourceLine && current) {
+            const startColumn = sourceLine.index! + 1;
+            references.push({
+                line: index,
+                startColumn,
+                endColumn: startColumn + sourceLine[1].length + 2,
+                target: { ...current, line: Number(sourceLine[1]), methodName: null },
+            });
+        }
+
+        if (type === 'CODE_UNIT_STARTED') {
+            contexts.push(getCodeUnitContext(line.split('|')));
+        } else if (type === 'METHOD_ENTRY' || type === 'CONSTRUCTOR_ENTRY') {
+            const callee = getCalleeReference(line, type, index);
+            if (callee) {
+                references.push(callee);
+            }
+            // System methods run no local code, lines inside them still belong to the caller
+            contexts.push(callee ? { type: callee.target.type, name: callee.target.name } : current);
+        }
+    }
+
+    return references;
+}
+
+/**
+ * Get the reference to the class a METHOD_ENTRY or CONSTRUCTOR_ENTRY line calls into
+ */
+function getCalleeReference(line: string, type: string, index: number): ApexSourceReference | null {
+    const parts = line.split('|');
+    const lastPart = parts[parts.length - 1];
+
+    // CONSTRUCTOR_ENTRY|[8]|01p5f000001AbCd|<init>(String)|AccountService
+    if (type === 'CONSTRUCTOR_ENTRY') {
+        const className = lastPart.match(/^\w+/)?.[0];
+        if (!className || parts.length < 5) {
+            return null;
+        }
+        const startColumn = line.length - lastPart.length;
+        return {
+            line: index,
+            startColumn,
+            endColumn: startColumn + className.length,
+            target: { type: 'ApexClass', name: className, line: null, methodName: null },
+        };
+    }
+
+    // METHOD_ENTRY|[20]|01p5f000001AbCd|AccountService.save(List<Account>)
+    const method = processMethodEntryLine(parts);
+    const separator = method ? method.indexOf('.') : -1;
+    if (!method || separator <= 0) {
+        return null;
+    }
+    const startColumn = line.length - lastPart.length + lastPart.indexOf(method);
+    return {
+        line: index,
+        startColumn,
+        endColumn: startColumn + method.length,
+        target: {
+            type: 'ApexClass',
+            name: method.slice(0, separator),
+            line: null,
+            methodName: method.slice(method.lastIndexOf('.') + 1),
+        },
+    };
+}
+
+/**
+ * Get the class or trigger a code unit runs, from the split CODE_UNIT_STARTED line
+ */
+function getCodeUnitContext(parts: string[]): SourceContext {
+    const lastPart = parts[parts.length - 1].trim();
+
+    // ...|Account on Account trigger event AfterInsert|__sfdc_trigger/AccountTrigger
+    const trigger = lastPart.match(/^__sfdc_trigger\/(?:\w+\/)?(\w+)$/);
+    if (trigger) {
+        return { type: 'ApexTrigger', name: trigger[1] };
+    }
+
+    // ...|apex://AccountController/ACTION$load
+    const action = lastPart.match(/^apex:\/\/(\w+)\//);
+    if (action) {
+        return { type: 'ApexClass', name: action[1] };
+    }
+
+    // ...|01p5f000001AbCd|AccountController.load  or  AccountBatch
+    if (parts.length >= 5 && /^01p\w*$/.test(parts[parts.length - 2].trim())) {
+        const className = lastPart.match(/^(\w+)/);
+        if (className) {
+            return { type: 'ApexClass', name: className[1] };
+        }
+    }
+
+    // Flows, validation rules, workflow and other non-Apex code units
+    return null;
+}
@@ -0,0 +1,112 @@
+/**
+ * Kinds of events the Apex log parser understands.
+ * Every line type that is not explicitly recognised is reported as 'other'.
+ */
+export type ApexLogEventKind =
+    | 'codeUnitStarted'
+    | 'codeUnitFinished'
+    | 'methodEntry'
+    | 'methodExit'
+    | 'soqlBegin'
+    | 'soqlEnd'
+    | 'dmlBegin'
+    | 'dmlEnd'
+    | 'limitUsage'
+    | 'exception'
+    | 'fatalError'
+    | 'userDebug'
+    | 'other';
+
+/**
+ * A single governor limit line, e.g. "Number of SOQL queries: 2 out of 100"
+ */
+export interface ApexLogLimit {
+    name: string;
+    used: number;
+    max: number;
+}
+
+/**
+ * Highest usage of the governor limits reported in a debug log
+ */
+export interface ApexLogLimitSummary {
+    soqlQueries: ApexLogLimit | null;
+    dmlRows: ApexLogLimit | null;
+    cpuTime: ApexLogLimit | null;
+    heapSize: ApexLogLimit | null;
+    limits: ApexLogLimit[]; // Every limit, with the highest usage across namespaces and blocks
+}
+
+/**
+ * A single event parsed from a debug log line
+ */
+export interface ApexLogEvent {
+    kind: ApexLogEventKind;
+    type: string; // Raw event type, e.g. METHOD_ENTRY
+    timestamp: string; // Wall clock time as printed in the log, e.g. 00:22:12.0
+    nanos: number; // Elapsed nanoseconds since the start of the transaction
+    lineNumber: number; // 1-based line number in the log body
+    sourceLine: number | null; // The [NN] Apex source line, if the event has one
+    fields: string[]; // Remaining pipe-separated fields after the event type
+    name?: string; // Code unit or method name
+    label?: string | null; // Friendly name derived from the code unit or method entry
+    statement?: string; // SOQL query text
+    rows?: number; // Rows returned by a query or affected by DML
+    operation?: string; // DML operation, e.g. Insert
+    objectType?: string; // DML sObject type
+    message?: string; // USER_DEBUG or exception message, including continuation lines
+    level?: string; // USER_DEBUG logging level
+    namespace?: string; // LIMIT_USAGE_FOR_NS namespace
+    limits?: ApexLogLimit[]; // Parsed LIMIT_USAGE_FOR_NS block
+}
+
+/**
+ * An exception, fatal error or failed validation rule found in a debug log
+ */
+export interface ApexLogError {
+    type: string; // FATAL_ERROR, EXCEPTION_THROWN or VALIDATION_FAIL
+    message: string;
+    lineNumber: number; // 1-based line number in the log body
+    sourceLine: number | null;
+}
+
+/**
+ * Kinds of nodes in the execution tree
+ */
+export type ApexLogNodeKind = 'root' | 'codeUnit' | 'method' | 'soql' | 'dml' | 'callout' | 'flow' | 'execution';
+
+/**
+ * A node in the nested call tree built from paired begin/end events
+ */
+export interface ApexLogNode {
+    kind: ApexLogNodeKind;
+    name: string;
+    startNanos: number;
+    endNanos: number;
+    durationNanos: number;
+    startLine: number;
+    endLine: number | null; // null when the log ends before the matching end event
+    sourceLine: number | null;
+    depth: number;
+    rows?: number;
+    children: ApexLogNode[];
+}
+
+/**
+ * Header information from the first line of a debug log
+ */
+export interface ApexLogHeader {
+    apiVersion: string | null;
+    logLevels: Record<string, string>;
+}
+
+/**
+ * Result of parsing a complete debug log body
+ */
+export interface ParsedApexLog {
+    header: ApexLogHeader;
+    events: ApexLogEvent[];
+    root: ApexLogNode;
+    totalNanos: number;
+    lineCount: number;
+}
@@ -2,6 +2,11 @@ import * as vscode from 'vscode';
 import { DebugLogProvider } from './debugLogProvider';
 import { Logger } from '../../utils/logger';
 import { DebugLogWebviewPanel } from './webviewPanel';
+import { registerTraceFlagStatusBar } from './traceFlagStatusBar';
+import { registerApexLogLanguage } from './apexLogLanguage';
+import { enforceRetentionPolicy } from './debugLogStorage';
+import { BUNDLE_EXTENSION } from './debugLogBundle';
+import { importDebugLogBundle } from './debugLogBundleService';
 
 /**
  * Register the debug logs commands
@@ -12,7 +17,33 @@ export function registerDebugLogCommands(context: vscode.ExtensionContext): void
         handleOpenDebugLogsTab(context.extensionUri),
     );
 
-    context.subscriptions.push(openDebugLogsTabCmdDisposable);
+    // Register the command for loading a shared bundle of logs into the local log library
+    const importBundleCmdDisposable = vscode.commands.registerCommand(
+        'salesforce-multitools-3.importDebugLogBundle',
+        handleImportDebugLogBundle,
+    );
+
+    // Register the command for opening a log in the analyzer of the debug logs tab
+    const analyzeDebugLogCmdDisposable = vscode.commands.registerCommand(
+        'salesforce-multitools-3.analyzeDebugLog',
+        (logId: string) => DebugLogWebviewPanel.showLog(context.extensionUri, logId),
+    );
+
+    context.subscriptions.push(openDebugLogsTabCmdDisposable, importBundleCmdDisposable, analyzeDebugLogCmdDisposable);
+
+    // Show when the current user's trace flag expires
+    registerTraceFlagStatusBar(context);
+
+    // Folding and outline for logs opened in the editor
+    registerApexLogLanguage(context);
+
+    // Trim the local debug log cache to the configured retention policy
+    enforceRetentionPolicy().catch((error) =>
+        Logger.warn(
+            `Could not apply the debug log retention policy: ${error instanceof Error ? error.message : String(error)}`,
+            'DebugLogCommands.registerDebugLogCommands',
+        ),
+    );
 
     Logger.debug('Debug log commands registered', 'DebugLogCommands.registerDebugLogCommands');
 }
@@ -25,6 +56,35 @@ async function handleOpenDebugLogsTab(extensionUri: vscode.Uri): Promise<void> {
     DebugLogWebviewPanel.createOrShow(extensionUri);
 }
 
+/**
+ * Handle importing a debug log bundle exported from the debug log table
+ */
+async function handleImportDebugLogBundle(): Promise<void> {
+    const [bundleUri] =
+        (await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            filters: { 'Debug Log Bundle': [BUNDLE_EXTENSION] },
+            openLabel: 'Import',
+            title: 'Import debug log bundle',
+        })) ?? [];
+    if (!bundleUri) {
+        return;
+    }
+
+    try {
+        const { manifest, imported } = await importDebugLogBundle(bundleUri.fsPath);
+        const source = [manifest.org.username, manifest.org.instanceUrl].filter(Boolean).join(' on ');
+        vscode.window.showInformationMessage(
+            `Imported ${imported} debug logs${source ? ` exported by ${source}` : ''}`,
+        );
+    } catch (error) {
+        Logger.error('Error importing debug log bundle:', 'DebugLogCommands.handleImportDebugLogBundle', error);
+        vscode.window.showErrorMessage(
+            `Could not import the bundle: ${error instanceof Error ? error.message : String(error)}`,
+        );
+    }
+}
+
 /**
  * Update the SidebarProvider with a message handler for debug logs
  * This function is called from the SidebarProvider when the webview is ready
@@ -36,7 +96,7 @@ export async function handleDebugLogWebviewCommand(
     try {
         switch (message.command) {
             case 'fetchDebugLogs': {
-                const logs = await DebugLogProvider.fetchDebugLogs();
+                const logs = await DebugLogProvider.fetchDebugLogs(message.data?.filters);
 
                 sendResponseFunction({
                     command: 'debugLogsLoaded',
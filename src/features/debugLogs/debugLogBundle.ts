@@ -0,0 +1,99 @@
+import { ApexLogLimitSummary } from './apexLogTypes';
+import { isSalesforceId } from './debugLogQuery';
+
+export const BUNDLE_FORMAT = 'salesforce-multitools-debug-log-bundle';
+export const BUNDLE_VERSION = 1;
+export const BUNDLE_EXTENSION = 'ndjson';
+
+/**
+ * First line of a bundle, describing where the logs came from
+ */
+export interface DebugLogBundleManifest {
+    type: 'manifest';
+    format: typeof BUNDLE_FORMAT;
+    version: number;
+    exportedAt: string;
+    org: {
+        instanceUrl: string | null;
+        orgId: string | null;
+        username: string | null; // User that exported the logs
+    };
+    logCount: number;
+}
+
+/**
+ * One log of a bundle, with the context needed to make sense of it elsewhere
+ */
+export interface DebugLogBundleEntry {
+    type: 'log';
+    metadata: {
+        // Same shape as DebugLogMetadata of the local log library
+        id: string;
+        userName: string | null;
+        operation: string | null;
+        application: string | null;
+        status: string | null;
+        startTime: string | null;
+        requestIdentifier: string | null;
+        logLength: number;
+        methodName: string | null;
+        downloadedAt: string;
+    };
+    org: string; // Cache folder of the org the log came from, its sanitized instance URL
+    limits: ApexLogLimitSummary;
+    content: string;
+}
+
+export interface DebugLogBundle {
+    manifest: DebugLogBundleManifest;
+    logs: DebugLogBundleEntry[];
+}
+
+/**
+ * Serialize a bundle as newline-delimited JSON: the manifest, then one line per log
+ */
+export function serializeBundle(bundle: DebugLogBundle): string {
+    return [bundle.manifest, ...bundle.logs].map((line) => JSON.stringify(line)).join('\n') + '\n';
+}
+
+/**
+ * Parse and validate a bundle
+ * @throws Error if the text is not a debug log bundle or a line is malformed
+ */
+export function parseBundle(text: string): DebugLogBundle {
+    const lines = text.split(/\r?\n/).filter((line) => line.trim().length > 0);
+    if (lines.length === 0) {
+        throw new Error('The bundle is empty');
+    }
+
+    const manifest = parseLine(lines[0], 1) as DebugLogBundleManifest;
+    if (manifest?.type !== 'manifest' || manifest.format !== BUNDLE_FORMAT) {
+        throw new Error('Not a debug log bundle');
+    }
+    if (manifest.version > BUNDLE_VERSION) {
+        throw new Error(`Bundle version ${manifest.version} is newer than supported (${BUNDLE_VERSION})`);
+    }
+
+    const logs = lines.slice(1).map((line, index) => {
+        const entry = parseLine(line, index + 2) as DebugLogBundleEntry;
+        if (
+            entry?.type !== 'log' ||
+            typeof entry.content !== 'string' ||
+            !isSalesforceId(entry.metadata?.id) ||
+            !/^[a-z0-9][a-z0-9.-]*$/.test(entry.org ?? '') // Used as a folder name on import
+        ) {
+            throw new Error(`Line ${index + 2} of the bundle is not a valid log`);
+        }
+        return entry;
+    });
+
+    return { manifest, logs };
+}
+
+function parseLine(line: string, lineNumber: number): unknown {
+    try {
+        return JSON.parse(line);
+    } catch {
+        throw new Error(`Line ${lineNumber} of the bundle is not valid JSON`);
+    }
+}
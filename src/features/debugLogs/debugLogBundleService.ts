@@ -0,0 +1,84 @@
+import * as fs from 'fs';
+import { Logger } from '../../utils/logger';
+import { extractLimitUsage, extractLogErrors, summarizeLimits } from './apexLogParser';
+import {
+    BUNDLE_FORMAT,
+    BUNDLE_VERSION,
+    DebugLogBundle,
+    DebugLogBundleEntry,
+    DebugLogBundleManifest,
+    parseBundle,
+    serializeBundle,
+} from './debugLogBundle';
+import { getLogOrg, getStoredLogMetadata, redactLogContent, saveLogFile } from './debugLogStorage';
+
+/**
+ * Write stored logs, with their metadata and limits summary, to a bundle file
+ * @param logFilePaths Paths of the stored logs to export
+ * @param org The org the bundle is exported from
+ * @param bundleFilePath Path of the bundle file to write
+ */
+export async function exportDebugLogBundle(
+    logFilePaths: string[],
+    org: DebugLogBundleManifest['org'],
+    bundleFilePath: string,
+): Promise<void> {
+    const logs: DebugLogBundleEntry[] = [];
+    for (const logFilePath of logFilePaths) {
+        // Logs cached before redaction was enabled are redacted on the way out
+        const content = redactLogContent(await fs.promises.readFile(logFilePath, 'utf8'));
+        const metadata = await getStoredLogMetadata(logFilePath);
+        logs.push({
+            type: 'log',
+            metadata: {
+                id: metadata.id,
+                userName: metadata.userName,
+                operation: metadata.operation,
+                application: metadata.application,
+                status: metadata.status,
+                startTime: metadata.startTime,
+                requestIdentifier: metadata.requestIdentifier,
+                logLength: metadata.logLength,
+                methodName: metadata.methodName,
+                downloadedAt: metadata.downloadedAt,
+            },
+            org: getLogOrg(logFilePath),
+            limits: summarizeLimits(extractLimitUsage(content)),
+            content,
+        });
+    }
+
+    const bundle: DebugLogBundle = {
+        manifest: {
+            type: 'manifest',
+            format: BUNDLE_FORMAT,
+            version: BUNDLE_VERSION,
+            exportedAt: new Date().toISOString(),
+            org,
+            logCount: logs.length,
+        },
+        logs,
+    };
+    await fs.promises.writeFile(bundleFilePath, serializeBundle(bundle), 'utf8');
+
+    Logger.info(`Exported ${logs.length} logs to ${bundleFilePath}`, 'DebugLogBundleService.exportDebugLogBundle');
+}
+
+/**
+ * Load the logs of a bundle file into the local debug log cache, each under the org it was downloaded from
+ * @param bundleFilePath Path of the bundle file to import
+ * @returns The manifest of the bundle and the number of imported logs
+ * @throws Error if the file is not a valid bundle
+ */
+export async function importDebugLogBundle(
+    bundleFilePath: string,
+): Promise<{ manifest: DebugLogBundleManifest; imported: number }> {
+    const { manifest, logs } = parseBundle(await fs.promises.readFile(bundleFilePath, 'utf8'));
+
+    for (const { metadata, org, content } of logs) {
+        await saveLogFile(metadata.id, content, { ...metadata, errors: extractLogErrors(content) }, org);
+    }
+
+    Logger.info(`Imported ${logs.length} logs from ${bundleFilePath}`, 'DebugLogBundleService.importDebugLogBundle');
+    return { manifest, imported: logs.length };
+}
@@ -0,0 +1,75 @@
+import { Logger } from '../../utils/logger';
+import { SalesforceApi } from '../../utils/salesforceApi';
+import { isSalesforceId } from './debugLogQuery';
+
+// The sObject Collections API deletes at most 200 records per request
+const DELETE_CHUNK_SIZE = 200;
+
+// Result of deleting one record through the sObject Collections API
+type SaveResult = { id: string | null; success: boolean; errors: { message: string }[] };
+
+/**
+ * Progress of a bulk deletion, reported after every chunk
+ */
+export interface DebugLogDeletionProgress {
+    deleted: number;
+    failed: number;
+    total: number;
+    deletedIds: string[]; // IDs deleted in the last chunk
+}
+
+/**
+ * Delete debug logs through the sObject Collections API, 200 at a time.
+ * Records that fail to delete do not stop the rest of the deletion.
+ * @param logIds The IDs of the logs to delete
+ * @param onProgress Called after every chunk
+ * @returns The IDs of the logs that were deleted
+ */
+export async function deleteDebugLogs(
+    logIds: string[],
+    onProgress?: (progress: DebugLogDeletionProgress) => void,
+): Promise<{ deletedIds: string[]; failed: number }> {
+    const invalidId = logIds.find((id) => !isSalesforceId(id));
+    if (invalidId !== undefined) {
+        throw new Error(`Invalid debug log ID: ${invalidId}`);
+    }
+
+    const deletedIds: string[] = [];
+    let failed = 0;
+
+    for (let i = 0; i < logIds.length; i += DELETE_CHUNK_SIZE) {
+        const chunk = logIds.slice(i, i + DELETE_CHUNK_SIZE);
+        const chunkDeletedIds: string[] = [];
+
+        try {
+            const results = await SalesforceApi.request<SaveResult[]>({
+                path: `/composite/sobjects?ids=${chunk.join(',')}&allOrNone=false`,
+                method: 'DELETE',
+            });
+
+            results.forEach((result, index) => {
+                if (result.success) {
+                    chunkDeletedIds.push(result.id ?? chunk[index]);
+                } else {
+                    failed++;
+                    Logger.warn(
+                        `Failed to delete log ${chunk[index]}: ${result.errors?.map((e) => e.message).join('; ')}`,
+                        'DebugLogDeletion.deleteDebugLogs',
+                    );
+                }
+            });
+        } catch (error) {
+            failed += chunk.length;
+            Logger.error(`Failed to delete chunk of ${chunk.length} logs:`, 'DebugLogDeletion.deleteDebugLogs', error);
+        }
+
+        deletedIds.push(...chunkDeletedIds);
+        onProgress?.({ deleted: deletedIds.length, failed, total: logIds.length, deletedIds: chunkDeletedIds });
+    }
+
+    Logger.info(
+        `Deleted ${deletedIds.length} of ${logIds.length} debug logs (${failed} failed)`,
+        'DebugLogDeletion.deleteDebugLogs',
+    );
+    return { deletedIds, failed };
+}
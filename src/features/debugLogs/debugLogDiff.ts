@@ -0,0 +1,131 @@
+import { summarizeLimits } from './apexLogParser';
+import { ApexLogLimit, ApexLogNode, ApexLogNodeKind, ParsedApexLog } from './apexLogTypes';
+
+// Node kinds compared between logs; the root and execution wrappers carry no information
+const COMPARED_KINDS: ApexLogNodeKind[] = ['codeUnit', 'method', 'soql', 'dml', 'callout', 'flow'];
+
+/**
+ * How often and for how long an operation ran in one log
+ */
+export interface DebugLogDiffStats {
+    count: number;
+    durationNanos: number;
+    rows: number;
+}
+
+/**
+ * A code unit, method, SOQL statement or DML operation compared between two logs
+ */
+export interface DebugLogDiffEntry {
+    kind: ApexLogNodeKind;
+    name: string;
+    status: 'onlyLeft' | 'onlyRight' | 'changed' | 'same';
+    left: DebugLogDiffStats | null;
+    right: DebugLogDiffStats | null;
+}
+
+/**
+ * A governor limit compared between two logs
+ */
+export interface DebugLogLimitDiff {
+    name: string;
+    left: ApexLogLimit | null;
+    right: ApexLogLimit | null;
+}
+
+export interface DebugLogDiff {
+    entries: DebugLogDiffEntry[];
+    limits: DebugLogLimitDiff[];
+    totalNanos: { left: number; right: number };
+}
+
+/**
+ * Normalize a node name so runs of the same code compare equal.
+ * Heap addresses (e.g. 0x1a2b3c) differ between every run and are removed.
+ */
+export function normalizeNodeName(name: string): string {
+    return name
+        .replace(/0x[0-9a-f]+/gi, '0x?')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+/**
+ * Compare the execution of two parsed logs, ignoring timestamps and heap addresses.
+ * Entries are ordered with differences first, then by kind and name.
+ */
+export function diffApexLogs(left: ParsedApexLog, right: ParsedApexLog): DebugLogDiff {
+    const leftStats = collectStats(left.root);
+    const rightStats = collectStats(right.root);
+    const keys = new Set([...leftStats.keys(), ...rightStats.keys()]);
+
+    const entries: DebugLogDiffEntry[] = [];
+    for (const key of keys) {
+        const [kind, name] = splitKey(key);
+        const l = leftStats.get(key) ?? null;
+        const r = rightStats.get(key) ?? null;
+        entries.push({ kind, name, status: getStatus(l, r), left: l, right: r });
+    }
+
+    const statusOrder = { onlyLeft: 0, onlyRight: 1, changed: 2, same: 3 };
+    entries.sort(
+        (a, b) =>
+            statusOrder[a.status] - statusOrder[b.status] ||
+            COMPARED_KINDS.indexOf(a.kind) - COMPARED_KINDS.indexOf(b.kind) ||
+            a.name.localeCompare(b.name),
+    );
+
+    return {
+        entries,
+        limits: diffLimits(summarizeLimits(left.events).limits, summarizeLimits(right.events).limits),
+        totalNanos: { left: left.totalNanos, right: right.totalNanos },
+    };
+}
+
+function collectStats(root: ApexLogNode): Map<string, DebugLogDiffStats> {
+    const stats = new Map<string, DebugLogDiffStats>();
+    const stack = [...root.children];
+
+    while (stack.length > 0) {
+        const node = stack.pop()!;
+        stack.push(...node.children);
+
+        if (!COMPARED_KINDS.includes(node.kind)) {
+            continue;
+        }
+
+        const key = `${node.kind}|${normalizeNodeName(node.name)}`;
+        const entry = stats.get(key) ?? { count: 0, durationNanos: 0, rows: 0 };
+        entry.count++;
+        entry.durationNanos += node.durationNanos;
+        entry.rows += node.rows ?? 0;
+        stats.set(key, entry);
+    }
+
+    return stats;
+}
+
+function splitKey(key: string): [ApexLogNodeKind, string] {
+    const separator = key.indexOf('|');
+    return [key.slice(0, separator) as ApexLogNodeKind, key.slice(separator + 1)];
+}
+
+function getStatus(left: DebugLogDiffStats | null, right: DebugLogDiffStats | null): DebugLogDiffEntry['status'] {
+    if (!right) {
+        return 'onlyLeft';
+    }
+    if (!left) {
+        return 'onlyRight';
+    }
+    // Durations always vary a little between runs, so only counts and rows mark a change
+    return left.count !== right.count || left.rows !== right.rows ? 'changed' : 'same';
+}
+
+function diffLimits(left: ApexLogLimit[], right: ApexLogLimit[]): DebugLogLimitDiff[] {
+    const names = [...new Set([...left.map((l) => l.name), ...right.map((l) => l.name)])];
+    return names.map((name) => ({
+        name,
+        left: left.find((l) => l.name === name) ?? null,
+        right: right.find((l) => l.name === name) ?? null,
+    }));
+}
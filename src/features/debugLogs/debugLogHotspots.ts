@@ -0,0 +1,113 @@
+import { ApexLogNode, ParsedApexLog } from './apexLogTypes';
+
+// A statement run this many times from the same line almost certainly runs inside a loop
+export const DEFAULT_LOOP_THRESHOLD = 5;
+
+/**
+ * SOQL or DML grouped by normalized statement, optionally per call site
+ */
+export interface DebugLogHotspot {
+    kind: 'soql' | 'dml';
+    statement: string; // Normalized statement, e.g. SELECT Id FROM Account WHERE Name = ?
+    sourceLine: number | null; // Line of the call site; null when grouped by statement only
+    method: string | null; // Method or code unit enclosing the call site
+    count: number;
+    rows: number;
+    totalNanos: number;
+    callSites: number; // Distinct call sites the statement ran from
+    inLoop: boolean; // Repeated from a single call site at least the loop threshold
+}
+
+export interface DebugLogHotspotReport {
+    statements: DebugLogHotspot[];
+    callSites: DebugLogHotspot[];
+}
+
+/**
+ * Normalize a SOQL statement or DML operation so runs with different literal values group together
+ */
+export function normalizeStatement(statement: string): string {
+    return statement
+        .replace(/'(?:[^'\\]|\\.)*'/g, '?') // String literals
+        .replace(/\(\s*\?(?:\s*,\s*\?)*\s*\)/g, '(?)') // IN lists of literals
+        .replace(/(?<![\w.])-?\d+(?:\.\d+)?(?![\w.])/g, '?') // Numbers
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+/**
+ * Group the SOQL queries and DML operations of a log by statement and by call site
+ * @param log The parsed log
+ * @param loopThreshold Runs from a single call site from which a statement is flagged as inside a loop
+ * @returns Both groupings, most frequent first
+ */
+export function findHotspots(
+    log: ParsedApexLog,
+    loopThreshold: number = DEFAULT_LOOP_THRESHOLD,
+): DebugLogHotspotReport {
+    const callSites = new Map<string, DebugLogHotspot>();
+    collectCallSites(log.root, null, callSites, loopThreshold);
+
+    const statements = new Map<string, DebugLogHotspot>();
+    for (const site of callSites.values()) {
+        const key = `${site.kind}|${site.statement}`;
+        const entry = statements.get(key) ?? {
+            ...site,
+            sourceLine: null,
+            method: null,
+            count: 0,
+            rows: 0,
+            totalNanos: 0,
+            callSites: 0,
+            inLoop: false,
+        };
+        entry.count += site.count;
+        entry.rows += site.rows;
+        entry.totalNanos += site.totalNanos;
+        entry.callSites++;
+        entry.inLoop = entry.inLoop || site.inLoop;
+        statements.set(key, entry);
+    }
+
+    return {
+        statements: sortHotspots([...statements.values()]),
+        callSites: sortHotspots([...callSites.values()]),
+    };
+}
+
+function collectCallSites(
+    node: ApexLogNode,
+    method: string | null,
+    callSites: Map<string, DebugLogHotspot>,
+    loopThreshold: number,
+): void {
+    for (const child of node.children) {
+        if (child.kind === 'soql' || child.kind === 'dml') {
+            const statement = normalizeStatement(child.name);
+            const key = `${child.kind}|${statement}|${child.sourceLine}|${method}`;
+            const entry = callSites.get(key) ?? {
+                kind: child.kind,
+                statement,
+                sourceLine: child.sourceLine,
+                method,
+                count: 0,
+                rows: 0,
+                totalNanos: 0,
+                callSites: 1,
+                inLoop: false,
+            };
+            entry.count++;
+            entry.rows += child.rows ?? 0;
+            entry.totalNanos += child.durationNanos;
+            entry.inLoop = entry.count >= loopThreshold;
+            callSites.set(key, entry);
+        }
+
+        const enclosing = child.kind === 'method' || child.kind === 'codeUnit' ? child.name : method;
+        collectCallSites(child, enclosing, callSites, loopThreshold);
+    }
+}
+
+function sortHotspots(hotspots: DebugLogHotspot[]): DebugLogHotspot[] {
+    return hotspots.sort((a, b) => b.count - a.count || b.totalNanos - a.totalNanos);
+}
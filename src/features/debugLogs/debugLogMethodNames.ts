@@ -0,0 +1,100 @@
+import * as path from 'path';
+import { Logger } from '../../utils/logger';
+import { readJsonFile, writeJsonFile } from '../../utils/fileUtils';
+import { getOrgFolder } from './debugLogStorage';
+
+// Method names of an org's logs, kept next to the org's stored logs
+const METHOD_NAMES_FILE = 'method-names.json';
+
+// Oldest entries are dropped beyond this, logs that old have usually been deleted from the org
+const MAX_CACHED_METHOD_NAMES = 5000;
+
+// Logs are resolved in parallel, each may download the start of a log
+const METHOD_NAME_CONCURRENCY = 4;
+
+// Results that depend on the moment rather than on the log, and must be retried later
+const TRANSIENT_METHOD_NAMES = new Set(['PROCESSING_TIMEOUT']);
+
+/**
+ * Method name of one log, or why it could not be resolved
+ */
+export interface MethodNameResult {
+    logId: string;
+    methodName: string | null;
+    error?: string;
+}
+
+// Method names by log ID, per cache file, in insertion order
+const loadedCaches = new Map<string, Record<string, string>>();
+
+async function loadCache(cacheFilePath: string): Promise<Record<string, string>> {
+    let cache = loadedCaches.get(cacheFilePath);
+    if (!cache) {
+        cache = (await readJsonFile<Record<string, string>>(cacheFilePath)) ?? {};
+        loadedCaches.set(cacheFilePath, cache);
+    }
+    return cache;
+}
+
+async function saveCache(cacheFilePath: string, cache: Record<string, string>): Promise<void> {
+    const logIds = Object.keys(cache);
+    for (const logId of logIds.slice(0, Math.max(0, logIds.length - MAX_CACHED_METHOD_NAMES))) {
+        delete cache[logId];
+    }
+    await writeJsonFile(cacheFilePath, cache);
+}
+
+/**
+ * Resolve the method names of many logs of the connected org.
+ * Cached names are reported first, the rest are resolved a few at a time and cached in the org folder.
+ * @param logIds The IDs of the logs
+ * @param resolve Resolves the method name of one log
+ * @param onResult Called as soon as each log is resolved
+ * @param isCancelled Checked before each log is resolved, e.g. when the client went away
+ */
+export async function resolveMethodNames(
+    logIds: string[],
+    resolve: (logId: string) => Promise<string>,
+    onResult: (result: MethodNameResult) => void,
+    isCancelled: () => boolean = () => false,
+): Promise<void> {
+    const cacheFilePath = path.join(await getOrgFolder(), METHOD_NAMES_FILE);
+    const cache = await loadCache(cacheFilePath);
+
+    const pending: string[] = [];
+    for (const logId of new Set(logIds)) {
+        if (cache[logId] !== undefined) {
+            onResult({ logId, methodName: cache[logId] });
+        } else {
+            pending.push(logId);
+        }
+    }
+
+    let resolvedCount = 0;
+    const worker = async () => {
+        for (let logId = pending.shift(); logId !== undefined && !isCancelled(); logId = pending.shift()) {
+            try {
+                const methodName = await resolve(logId);
+                if (!TRANSIENT_METHOD_NAMES.has(methodName)) {
+                    cache[logId] = methodName;
+                    resolvedCount++;
+                }
+                onResult({ logId, methodName });
+            } catch (error) {
+                onResult({ logId, methodName: null, error: error instanceof Error ? error.message : String(error) });
+            }
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(METHOD_NAME_CONCURRENCY, pending.length) }, worker));
+
+    if (resolvedCount > 0) {
+        try {
+            await saveCache(cacheFilePath, cache);
+        } catch (error) {
+            Logger.warn(
+                `Could not save the method name cache: ${error instanceof Error ? error.message : String(error)}`,
+                'DebugLogMethodNames.resolveMethodNames',
+            );
+        }
+    }
+}
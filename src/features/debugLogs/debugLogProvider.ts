@@ -1,28 +1,31 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import { SFUtils } from '../../utils/sfutils';
+import { SalesforceApi } from '../../utils/salesforceApi';
+import { getProjectFolder } from '../../utils/projectFolders';
 import { Logger } from '../../utils/logger';
+import { buildDebugLogQuery, DebugLogFilters, toDebugLogPage } from './debugLogQuery';
+import { APEX_LOG_LANGUAGE_ID } from './apexLogLanguage';
+import { redactLogContent } from './debugLogStorage';
 
 /**
  * Debug log provider for Salesforce logs
  */
 export class DebugLogProvider {
     /**
-     * Fetch debug logs from Salesforce
+     * Fetch the 100 most recent debug logs from Salesforce
      */
-    public static async fetchDebugLogs(): Promise<any[]> {
+    public static async fetchDebugLogs(filters: DebugLogFilters = {}): Promise<any[]> {
         try {
             Logger.debug('Fetching debug logs from Salesforce', 'DebugLogProvider.fetchDebugLogs');
-            const connection = await SFUtils.getConnection();
-
             // Query ApexLog records
-            const result = await connection.query(
-                'SELECT Id, LogUser.Name, LogLength, Operation, Application, Status, StartTime, RequestIdentifier FROM ApexLog ORDER BY StartTime DESC LIMIT 100',
+            const result = await SalesforceApi.withConnection((connection) =>
+                connection.query(buildDebugLogQuery({ ...filters, limit: 100 })),
             );
+            const page = toDebugLogPage(result.records, 100);
 
             // Format the logs for the UI
-            const logs = result.records.map((log: any) => ({
+            const logs = page.records.map((log: any) => ({
                 id: log.Id,
                 logUser: log.LogUser?.Name ?? 'Unknown User',
                 logLength: log.LogLength,
@@ -46,15 +49,7 @@ export class DebugLogProvider {
      */
     public static async getDebugLogContent(logId: string): Promise<string> {
         try {
-            const connection = await SFUtils.getConnection();
-
-            // Get the log body using the REST API
-            const logBody: string = await connection.request({
-                url: `/services/data/v56.0/sobjects/ApexLog/${logId}/Body`,
-                method: 'GET',
-            });
-
-            return logBody;
+            return await SalesforceApi.download(`/sobjects/ApexLog/${logId}/Body`);
         } catch (error) {
             Logger.error(`Error fetching log content for ID ${logId}:`, 'DebugLogProvider.getDebugLogContent', error);
             throw error;
@@ -66,13 +61,7 @@ export class DebugLogProvider {
      */
     public static async deleteDebugLog(logId: string): Promise<void> {
         try {
-            const connection = await SFUtils.getConnection();
-
-            // Delete the log using the REST API
-            await connection.request({
-                url: `/services/data/v56.0/sobjects/ApexLog/${logId}`,
-                method: 'DELETE',
-            });
+            await SalesforceApi.request({ path: `/sobjects/ApexLog/${logId}`, method: 'DELETE' });
 
             Logger.debug(`Deleted debug log with ID: ${logId}`, 'DebugLogProvider.deleteDebugLog');
         } catch (error) {
@@ -90,7 +79,7 @@ export class DebugLogProvider {
             const logContent = await this.getDebugLogContent(logId);
 
             // Create logs directory if it doesn't exist
-            const logsDir = path.join(vscode.workspace.workspaceFolders?.[0].uri.fsPath ?? '', 'logs');
+            const logsDir = path.join(getProjectFolder()?.uri.fsPath ?? '', 'logs');
             if (!fs.existsSync(logsDir)) {
                 fs.mkdirSync(logsDir, { recursive: true });
             }
@@ -100,7 +89,7 @@ export class DebugLogProvider {
             const filePath = path.join(logsDir, `salesforce-log-${timestamp}.log`);
 
             // Write the log content to the file
-            fs.writeFileSync(filePath, logContent);
+            fs.writeFileSync(filePath, redactLogContent(logContent));
 
             Logger.debug(`Downloaded debug log to: ${filePath}`, 'DebugLogProvider.downloadDebugLog');
             return filePath;
@@ -121,7 +110,7 @@ export class DebugLogProvider {
             // Create a virtual document and show it
             const untitledDoc = await vscode.workspace.openTextDocument({
                 content: logContent,
-                language: 'log',
+                language: APEX_LOG_LANGUAGE_ID,
             });
 
             // Show the document
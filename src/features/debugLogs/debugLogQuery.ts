@@ -0,0 +1,255 @@
+/**
+ * Fields selected for every ApexLog record shown in the debug log list
+ */
+export const DEBUG_LOG_FIELDS = [
+    'Id',
+    'LogUser.Name',
+    'LogLength',
+    'Operation',
+    'Application',
+    'Status',
+    'StartTime',
+    'RequestIdentifier',
+];
+
+/**
+ * An ApexLog record with the DEBUG_LOG_FIELDS
+ */
+export interface ApexLogRecord {
+    Id: string;
+    LogUser: { Name: string } | null;
+    LogLength: number;
+    Operation: string;
+    Application: string;
+    Status: string;
+    StartTime: string;
+    RequestIdentifier: string | null;
+}
+
+export const DEFAULT_PAGE_SIZE = 200;
+export const MAX_PAGE_SIZE = 2000;
+
+// SOQL rejects OFFSET values above 2000, so deeper pages need a cursor
+export const MAX_OFFSET = 2000;
+
+/**
+ * Server-side filters for ApexLog records
+ */
+export interface DebugLogFilters {
+    userName?: string;
+    operation?: string; // Partial match
+    status?: string; // Partial match
+    application?: string; // Partial match
+    requestIdentifier?: string;
+    startTimeFrom?: string; // Inclusive, any date string Date can parse
+    startTimeTo?: string; // Inclusive
+    minLength?: number; // Exclusive, in bytes
+    maxLength?: number; // Exclusive, in bytes
+}
+
+/**
+ * Position after the last log of a page, ordered by StartTime and Id descending
+ */
+export interface DebugLogCursor {
+    startTime: string;
+    id: string;
+}
+
+export interface DebugLogQueryOptions extends DebugLogFilters {
+    limit?: number;
+    offset?: number;
+    cursor?: DebugLogCursor | null;
+}
+
+const SALESFORCE_ID_REGEX = /^[a-zA-Z0-9]{15}(?:[a-zA-Z0-9]{3})?$/;
+
+/**
+ * Check whether a value is a 15 or 18 character Salesforce ID, and so safe to put into SOQL and URLs
+ */
+export function isSalesforceId(value: unknown): value is string {
+    return typeof value === 'string' && SALESFORCE_ID_REGEX.test(value);
+}
+
+/**
+ * Escape a value for use inside a single-quoted SOQL string literal
+ */
+export function escapeSoqlString(value: string): string {
+    return value.replace(/[\\']/g, '\\$&').replace(/\n/g, '\\n').replace(/\r/g, '\\r').replace(/\t/g, '\\t');
+}
+
+/**
+ * Escape a value for use inside a SOQL LIKE pattern, so % and _ match literally
+ */
+export function escapeSoqlLike(value: string): string {
+    return escapeSoqlString(value).replace(/[%_]/g, '\\$&');
+}
+
+/**
+ * Format a date as a SOQL datetime literal, e.g. 2024-01-31T10:15:00Z
+ * @throws Error if the value is not a valid date
+ */
+export function toSoqlDateTime(value: string | Date): string {
+    const date = value instanceof Date ? value : new Date(value);
+    if (isNaN(date.getTime())) {
+        throw new Error(`Invalid date: ${value}`);
+    }
+    return date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+/**
+ * Build the SOQL WHERE conditions for a set of filters
+ */
+export function buildDebugLogConditions(filters: DebugLogFilters): string[] {
+    const conditions: string[] = [];
+
+    if (filters.userName) {
+        conditions.push(`LogUser.Name = '${escapeSoqlString(filters.userName)}'`);
+    }
+    if (filters.operation) {
+        conditions.push(`Operation LIKE '%${escapeSoqlLike(filters.operation)}%'`);
+    }
+    if (filters.status) {
+        conditions.push(`Status LIKE '%${escapeSoqlLike(filters.status)}%'`);
+    }
+    if (filters.application) {
+        conditions.push(`Application LIKE '%${escapeSoqlLike(filters.application)}%'`);
+    }
+    if (filters.requestIdentifier) {
+        conditions.push(`RequestIdentifier = '${escapeSoqlString(filters.requestIdentifier)}'`);
+    }
+    if (filters.startTimeFrom) {
+        conditions.push(`StartTime >= ${toSoqlDateTime(filters.startTimeFrom)}`);
+    }
+    if (filters.startTimeTo) {
+        conditions.push(`StartTime <= ${toSoqlDateTime(filters.startTimeTo)}`);
+    }
+    if (isValidNumber(filters.minLength)) {
+        conditions.push(`LogLength > ${Math.floor(filters.minLength!)}`);
+    }
+    if (isValidNumber(filters.maxLength)) {
+        conditions.push(`LogLength < ${Math.floor(filters.maxLength!)}`);
+    }
+
+    return conditions;
+}
+
+/**
+ * Build the ApexLog query for one page of logs, newest first.
+ * One more record than the page size is requested to tell whether another page exists.
+ */
+export function buildDebugLogQuery(options: DebugLogQueryOptions = {}): string {
+    const conditions = buildDebugLogConditions(options);
+
+    if (options.cursor) {
+        if (!isSalesforceId(options.cursor.id)) {
+            throw new Error(`Invalid cursor ID: ${options.cursor.id}`);
+        }
+        const startTime = toSoqlDateTime(options.cursor.startTime);
+        conditions.push(`(StartTime < ${startTime} OR (StartTime = ${startTime} AND Id < '${options.cursor.id}'))`);
+    }
+
+    let query = `SELECT ${DEBUG_LOG_FIELDS.join(', ')} FROM ApexLog`;
+    if (conditions.length > 0) {
+        query += ` WHERE ${conditions.join(' AND ')}`;
+    }
+    query += ` ORDER BY StartTime DESC, Id DESC LIMIT ${getPageSize(options.limit) + 1}`;
+
+    if (!options.cursor && isValidNumber(options.offset) && options.offset! > 0) {
+        query += ` OFFSET ${Math.min(MAX_OFFSET, Math.floor(options.offset!))}`;
+    }
+
+    return query;
+}
+
+/**
+ * Split the records returned by buildDebugLogQuery into a page and the cursor of the next page
+ */
+export function toDebugLogPage<T extends { Id?: string; StartTime?: string }>(
+    records: T[],
+    limit?: number,
+): { records: T[]; nextCursor: string | null } {
+    const pageSize = getPageSize(limit);
+    if (records.length <= pageSize) {
+        return { records, nextCursor: null };
+    }
+
+    const page = records.slice(0, pageSize);
+    const last = page[page.length - 1];
+    return { records: page, nextCursor: encodeCursor({ startTime: last.StartTime!, id: last.Id! }) };
+}
+
+/**
+ * Encode a cursor as an opaque string for the client
+ */
+export function encodeCursor(cursor: DebugLogCursor): string {
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Decode a cursor created by encodeCursor
+ * @throws Error if the cursor is malformed
+ */
+export function decodeCursor(value: string): DebugLogCursor {
+    try {
+        const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+        if (typeof cursor?.startTime === 'string' && typeof cursor?.id === 'string') {
+            return { startTime: cursor.startTime, id: cursor.id };
+        }
+    } catch {
+        // Fall through to the error below
+    }
+    throw new Error('Invalid cursor');
+}
+
+/**
+ * Read query options from the query string of a debug log request.
+ * Supports the legacy size/sizeDirection parameters as well as minLength/maxLength.
+ */
+export function parseDebugLogQueryParams(params: Record<string, unknown>): DebugLogQueryOptions {
+    const getString = (name: string) => {
+        const value = params[name];
+        return typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+    };
+    const getNumber = (name: string) => {
+        const value = getString(name);
+        return value !== undefined ? Number(value) : undefined;
+    };
+
+    const userName = getString('user');
+    const options: DebugLogQueryOptions = {
+        userName: userName && userName !== 'all' && userName !== 'All Users' ? userName : undefined,
+        operation: getString('operation'),
+        status: getString('status'),
+        application: getString('application'),
+        requestIdentifier: getString('requestIdentifier'),
+        startTimeFrom: getString('startTimeFrom'),
+        startTimeTo: getString('startTimeTo'),
+        minLength: getNumber('minLength'),
+        maxLength: getNumber('maxLength'),
+        limit: getNumber('limit'),
+        offset: getNumber('offset'),
+    };
+
+    const size = getNumber('size');
+    const sizeDirection = getString('sizeDirection');
+    if (size && sizeDirection === 'above') {
+        options.minLength = size;
+    } else if (size && sizeDirection === 'below') {
+        options.maxLength = size;
+    }
+
+    const cursor = getString('cursor');
+    if (cursor) {
+        options.cursor = decodeCursor(cursor);
+    }
+
+    return options;
+}
+
+function getPageSize(limit: number | undefined): number {
+    return isValidNumber(limit) ? Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(limit!))) : DEFAULT_PAGE_SIZE;
+}
+
+function isValidNumber(value: number | undefined): boolean {
+    return typeof value === 'number' && isFinite(value);
+}
@@ -0,0 +1,110 @@
+/**
+ * A rule that replaces sensitive data in log content
+ */
+export interface RedactionRule {
+    name: string;
+    pattern: RegExp; // Must be global
+    replace: (match: string, ...groups: string[]) => string;
+}
+
+export const BUILT_IN_REDACTION_RULE_NAMES = ['email', 'sessionId', 'accessToken', 'creditCard'] as const;
+export type BuiltInRedactionRuleName = (typeof BUILT_IN_REDACTION_RULE_NAMES)[number];
+
+function placeholder(name: string): string {
+    return `[REDACTED:${name}]`;
+}
+
+const BUILT_IN_REDACTION_RULES: Record<BuiltInRedactionRuleName, RedactionRule> = {
+    email: {
+        name: 'email',
+        pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+        replace: () => placeholder('email'),
+    },
+    // Salesforce session IDs and OAuth access tokens: org ID, '!', then the token
+    sessionId: {
+        name: 'sessionId',
+        pattern: /\b00D[a-zA-Z0-9]{12,15}![a-zA-Z0-9._]+/g,
+        replace: () => placeholder('sessionId'),
+    },
+    // Tokens in authorization headers and OAuth responses, keeping the header or key readable
+    accessToken: {
+        name: 'accessToken',
+        pattern:
+            /((?:Bearer|OAuth)\s+|"?(?:access_token|refresh_token|sessionId)"?\s*[:=]\s*"?)(?!\[REDACTED:)([\w.~+/!-]{16,}=*)/gi,
+        replace: (_match, prefix) => prefix + placeholder('accessToken'),
+    },
+    // 13 to 19 digits that pass the Luhn check. Timestamps like (1234567890123) are left alone.
+    creditCard: {
+        name: 'creditCard',
+        pattern: /(?<![\d(])\d(?:[ -]?\d){12,18}(?![\d)])/g,
+        replace: (match) => (passesLuhnCheck(match.replace(/\D/g, '')) ? placeholder('creditCard') : match),
+    },
+};
+
+function passesLuhnCheck(digits: string): boolean {
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+        let digit = Number(digits[digits.length - 1 - i]);
+        if (i % 2 === 1) {
+            digit *= 2;
+            if (digit > 9) {
+                digit -= 9;
+            }
+        }
+        sum += digit;
+    }
+    return sum % 10 === 0;
+}
+
+/**
+ * Build the redaction rules to apply
+ * @param builtInNames Names of the built-in rules to use, unknown names are ignored
+ * @param customPatterns Regular expressions whose matches are redacted
+ * @returns The rules, and the custom patterns that are not valid regular expressions
+ */
+export function buildRedactionRules(
+    builtInNames: string[],
+    customPatterns: string[] = [],
+): { rules: RedactionRule[]; invalidPatterns: string[] } {
+    const rules = BUILT_IN_REDACTION_RULE_NAMES.filter((name) => builtInNames.includes(name)).map(
+        (name) => BUILT_IN_REDACTION_RULES[name],
+    );
+    const invalidPatterns: string[] = [];
+
+    for (const source of customPatterns) {
+        try {
+            const pattern = new RegExp(source, 'g');
+            if (pattern.test('')) {
+                throw new Error('Pattern matches empty text');
+            }
+            rules.push({ name: 'custom', pattern, replace: () => placeholder('custom') });
+        } catch {
+            invalidPatterns.push(source);
+        }
+    }
+
+    return { rules, invalidPatterns };
+}
+
+/**
+ * Replace sensitive data in log content
+ * @param text The log content
+ * @param rules The rules to apply, in order
+ * @returns The redacted content and the number of replacements
+ */
+export function redactText(text: string, rules: RedactionRule[]): { text: string; redactions: number } {
+    let redactions = 0;
+    let redacted = text;
+
+    for (const rule of rules) {
+        redacted = redacted.replace(rule.pattern, (match: string, ...groups: string[]) => {
+            const replacement = rule.replace(match, ...groups);
+            if (replacement !== match) {
+                redactions++;
+            }
+            return replacement;
+        });
+    }
+
+    return { text: redacted, redactions };
+}
@@ -0,0 +1,68 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Limits for the logs kept per org in the local debug log cache. 0 disables a limit.
+ */
+export interface DebugLogRetentionPolicy {
+    maxAgeDays: number;
+    maxTotalBytes: number;
+    maxFiles: number;
+}
+
+/**
+ * A log in the cache, as far as retention is concerned
+ */
+export interface RetainedLog {
+    id: string;
+    size: number; // Bytes
+    downloadedAt: number; // Epoch milliseconds
+    lastAccessedAt: number; // Epoch milliseconds
+    pinned: boolean;
+}
+
+/**
+ * Select the logs to delete from one org's cache.
+ * Logs older than the maximum age go first, then the least recently used until the size and count quotas are met.
+ * Pinned logs are never selected, but still count towards the quotas.
+ * @param logs The logs in the cache of one org
+ * @param policy The retention limits
+ * @param now Current time in epoch milliseconds
+ * @returns The IDs of the logs to delete
+ */
+export function selectLogsToEvict(
+    logs: RetainedLog[],
+    policy: DebugLogRetentionPolicy,
+    now: number = Date.now(),
+): string[] {
+    const evicted = new Set<string>();
+
+    if (policy.maxAgeDays > 0) {
+        const cutoff = now - policy.maxAgeDays * DAY_MS;
+        for (const log of logs) {
+            if (!log.pinned && log.downloadedAt < cutoff) {
+                evicted.add(log.id);
+            }
+        }
+    }
+
+    const remaining = logs.filter((log) => !evicted.has(log.id));
+    let totalBytes = remaining.reduce((total, log) => total + log.size, 0);
+    let fileCount = remaining.length;
+    const overQuota = () =>
+        (policy.maxTotalBytes > 0 && totalBytes > policy.maxTotalBytes) ||
+        (policy.maxFiles > 0 && fileCount > policy.maxFiles);
+
+    const leastRecentlyUsed = remaining
+        .filter((log) => !log.pinned)
+        .sort((a, b) => a.lastAccessedAt - b.lastAccessedAt);
+    for (const log of leastRecentlyUsed) {
+        if (!overQuota()) {
+            break;
+        }
+        evicted.add(log.id);
+        totalBytes -= log.size;
+        fileCount--;
+    }
+
+    return [...evicted];
+}
@@ -0,0 +1,201 @@
+import * as fs from 'fs';
+import * as readline from 'readline';
+import { getEventType } from './apexLogParser';
+
+export const DEFAULT_CONTEXT_LINES = 2;
+export const DEFAULT_MAX_RESULTS = 500;
+const MAX_CONTEXT_LINES = 10;
+
+/**
+ * Options for searching debug logs
+ */
+export interface DebugLogSearchOptions {
+    query: string;
+    regex?: boolean; // Treat the query as a regular expression
+    caseSensitive?: boolean;
+    eventTypes?: string[]; // Only match lines of these event types, e.g. USER_DEBUG
+    contextLines?: number; // Lines shown before and after every match
+    maxResults?: number; // Matches across all logs
+}
+
+/**
+ * A line of a log matching the search
+ */
+export interface DebugLogSearchMatch {
+    lineNumber: number; // 1-based
+    line: string;
+    eventType: string | null; // Event the line belongs to, including continuation lines
+    before: string[];
+    after: string[];
+}
+
+/**
+ * Build the matcher for a search, validating the options
+ * @throws Error if the query is empty or not a valid regular expression, or an option has the wrong type
+ */
+export function createSearchMatcher(options: DebugLogSearchOptions): (line: string) => boolean {
+    if (typeof options?.query !== 'string' || !options.query) {
+        throw new Error('Search query is required');
+    }
+    if (
+        options.eventTypes !== undefined &&
+        (!Array.isArray(options.eventTypes) || options.eventTypes.some((type) => typeof type !== 'string'))
+    ) {
+        throw new Error('Event types must be a list of strings');
+    }
+    if (options.contextLines !== undefined && !Number.isFinite(options.contextLines)) {
+        throw new Error('Context lines must be a number');
+    }
+
+    if (options.regex) {
+        let pattern: RegExp;
+        try {
+            pattern = new RegExp(options.query, options.caseSensitive ? '' : 'i');
+        } catch (error) {
+            throw new Error(`Invalid regular expression: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        return (line) => pattern.test(line);
+    }
+
+    if (options.caseSensitive) {
+        return (line) => line.includes(options.query);
+    }
+    const query = options.query.toLowerCase();
+    return (line) => line.toLowerCase().includes(query);
+}
+
+/**
+ * Get the number of matches to return across all logs, capped at DEFAULT_MAX_RESULTS
+ */
+export function getMaxResults(options: DebugLogSearchOptions): number {
+    const maxResults = Math.floor(Number(options.maxResults ?? DEFAULT_MAX_RESULTS));
+    return maxResults > 0 ? Math.min(DEFAULT_MAX_RESULTS, maxResults) : DEFAULT_MAX_RESULTS;
+}
+
+/**
+ * Search of a single log, fed one line at a time so large logs need not be held in memory
+ */
+export class LogContentSearch {
+    private readonly results: DebugLogSearchMatch[] = [];
+    private readonly contextLines: number;
+    private readonly eventTypes: Set<string> | null;
+    private readonly previousLines: string[] = [];
+    private currentEventType: string | null = null;
+    private lineNumber = 0;
+
+    /**
+     * @param matches Line matcher from createSearchMatcher
+     * @param options The search options
+     * @param limit Maximum number of matches to return
+     */
+    constructor(
+        private readonly matches: (line: string) => boolean,
+        options: DebugLogSearchOptions,
+        private readonly limit: number = DEFAULT_MAX_RESULTS,
+    ) {
+        this.contextLines = Math.min(MAX_CONTEXT_LINES, Math.max(0, options.contextLines ?? DEFAULT_CONTEXT_LINES));
+        this.eventTypes = options.eventTypes?.length ? new Set(options.eventTypes.map((t) => t.toUpperCase())) : null;
+    }
+
+    /**
+     * Search the next line of the log
+     */
+    public addLine(line: string): void {
+        this.lineNumber++;
+
+        // The line is context after the last matches
+        for (let i = this.results.length - 1; i >= 0 && this.results[i].after.length < this.contextLines; i--) {
+            this.results[i].after.push(line);
+        }
+
+        // Continuation lines (e.g. multi-line USER_DEBUG messages) belong to the event above them
+        this.currentEventType = getEventType(line) ?? this.currentEventType;
+
+        if (
+            this.results.length < this.limit &&
+            (!this.eventTypes || (this.currentEventType && this.eventTypes.has(this.currentEventType))) &&
+            this.matches(line)
+        ) {
+            this.results.push({
+                lineNumber: this.lineNumber,
+                line,
+                eventType: this.currentEventType,
+                before: [...this.previousLines],
+                after: [],
+            });
+        }
+
+        this.previousLines.push(line);
+        if (this.previousLines.length > this.contextLines) {
+            this.previousLines.shift();
+        }
+    }
+
+    /**
+     * Check whether the rest of the log can no longer change the matches
+     */
+    public isDone(): boolean {
+        const last = this.results[this.results.length - 1];
+        return this.results.length >= this.limit && (!last || last.after.length >= this.contextLines);
+    }
+
+    /**
+     * Get the matches found so far
+     */
+    public getResults(): DebugLogSearchMatch[] {
+        return this.results;
+    }
+}
+
+/**
+ * Search the content of a single log
+ * @param content The log body
+ * @param matches Line matcher from createSearchMatcher
+ * @param options The search options
+ * @param limit Maximum number of matches to return
+ */
+export function searchLogContent(
+    content: string,
+    matches: (line: string) => boolean,
+    options: DebugLogSearchOptions,
+    limit: number = DEFAULT_MAX_RESULTS,
+): DebugLogSearchMatch[] {
+    const search = new LogContentSearch(matches, options, limit);
+    for (const line of content.split(/\r?\n/)) {
+        if (search.isDone()) {
+            break;
+        }
+        search.addLine(line);
+    }
+    return search.getResults();
+}
+
+/**
+ * Search a log file, reading it line by line
+ * @param filePath Path to the log file
+ * @param matches Line matcher from createSearchMatcher
+ * @param options The search options
+ * @param limit Maximum number of matches to return
+ */
+export async function searchLogFile(
+    filePath: string,
+    matches: (line: string) => boolean,
+    options: DebugLogSearchOptions,
+    limit: number = DEFAULT_MAX_RESULTS,
+): Promise<DebugLogSearchMatch[]> {
+    const search = new LogContentSearch(matches, options, limit);
+    const stream = fs.createReadStream(filePath, { encoding: 'utf8' });
+    const lines = readline.createInterface({ input: stream, crlfDelay: Infinity });
+    try {
+        for await (const line of lines) {
+            search.addLine(line);
+            if (search.isDone()) {
+                break;
+            }
+        }
+    } finally {
+        lines.close();
+        stream.destroy();
+    }
+    return search.getResults();
+}
@@ -0,0 +1,428 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Logger } from '../../utils/logger';
+import { ensureFolderExists, readJsonFile, writeJsonFile } from '../../utils/fileUtils';
+import { SalesforceApi } from '../../utils/salesforceApi';
+import { getProjectFolder } from '../../utils/projectFolders';
+import { ConfigUtils } from '../../utils/config';
+import { ApexLogError } from './apexLogTypes';
+import { RetainedLog, selectLogsToEvict } from './debugLogRetention';
+import { buildRedactionRules, redactText, RedactionRule } from './debugLogRedaction';
+import { isSalesforceId } from './debugLogQuery';
+
+// Constants
+const DEBUG_LOGS_SUBFOLDER = 'debug-logs';
+const MULTI_TOOL_FOLDER = '_multi-tool';
+const LOG_EXTENSION = '.log';
+const METADATA_EXTENSION = '.json';
+const UNREDACTED_SUBFOLDER = 'unredacted'; // Inside each org folder, so unredacted copies are never listed as logs
+
+/**
+ * Metadata stored next to every downloaded log, so the log can be listed without a connection
+ */
+export interface DebugLogMetadata {
+    id: string;
+    userName: string | null;
+    operation: string | null;
+    application: string | null;
+    status: string | null;
+    startTime: string | null;
+    requestIdentifier: string | null;
+    logLength: number;
+    methodName: string | null;
+    downloadedAt: string;
+    errors?: ApexLogError[]; // Missing for logs cached before errors were detected
+    pinned?: boolean; // Pinned logs are never removed by the retention policy
+}
+
+/**
+ * A log stored in the local debug log cache
+ */
+export interface LocalDebugLog extends DebugLogMetadata {
+    org: string; // Sanitized instance URL of the org the log was downloaded from
+    filePath: string;
+}
+
+/**
+ * Get sanitized org identifier for file paths
+ * @param orgId The org identifier (usually the instance URL)
+ * @returns A sanitized string usable in file paths
+ */
+function getSanitizedOrgId(orgId: string | undefined): string {
+    if (!orgId) {
+        return 'unknown-org';
+    }
+
+    // Remove protocol and special characters
+    return orgId
+        .replace(/^https?:\/\//, '')
+        .replace(/[^a-zA-Z0-9.-]/g, '-')
+        .toLowerCase();
+}
+
+/**
+ * Get the root folder of the debug log cache, in the project of the active file
+ * @throws Error if no workspace folder is open
+ */
+export function getDebugLogsFolder(): string {
+    const projectFolder = getProjectFolder();
+    if (!projectFolder) {
+        throw new Error('No workspace folder found to store logs');
+    }
+
+    const rootPath = projectFolder.uri.fsPath;
+    return path.join(rootPath, '.sfdx', MULTI_TOOL_FOLDER, DEBUG_LOGS_SUBFOLDER);
+}
+
+/**
+ * Get the cache folder of an org, creating it if needed
+ * @param instanceUrl The org, defaults to the connected org
+ * @returns Path to the org folder
+ */
+export async function getOrgFolder(instanceUrl?: string): Promise<string> {
+    const orgId = instanceUrl ?? (await SalesforceApi.getConnection())?.instanceUrl;
+    const orgFolder = path.join(getDebugLogsFolder(), getSanitizedOrgId(orgId));
+    await ensureFolderExists(orgFolder);
+
+    return orgFolder;
+}
+
+/**
+ * Get the path where a log file should be stored
+ * @param logId The ID of the log
+ * @param instanceUrl The org the log belongs to, defaults to the connected org
+ * @returns Path to the stored log file
+ */
+export async function getStoredLogPath(logId: string, instanceUrl?: string): Promise<string> {
+    assertValidLogId(logId);
+    return path.join(await getOrgFolder(instanceUrl), `${logId}${LOG_EXTENSION}`);
+}
+
+/**
+ * Find a stored log in any org folder. Works without a connection.
+ * @param logId The ID of the log
+ * @returns Path to the stored log file, or null if it has not been downloaded
+ */
+export async function findStoredLogPath(logId: string): Promise<string | null> {
+    assertValidLogId(logId);
+    for (const orgFolder of await listOrgFolders()) {
+        const logPath = path.join(orgFolder, `${logId}${LOG_EXTENSION}`);
+        if (await fileExists(logPath)) {
+            return logPath;
+        }
+    }
+    return null;
+}
+
+/**
+ * Save a log and its metadata to the debug log cache, redacted when redaction is enabled
+ * @param logId The ID of the log
+ * @param content The log content to save
+ * @param metadata The metadata to store next to the log
+ * @param instanceUrl The org the log belongs to, defaults to the connected org
+ * @returns Path to the saved file
+ */
+export async function saveLogFile(
+    logId: string,
+    content: string,
+    metadata?: DebugLogMetadata,
+    instanceUrl?: string,
+): Promise<string> {
+    const logFilePath = await getStoredLogPath(logId, instanceUrl);
+    const rules = getRedactionRules();
+    const redacted = rules ? redactText(content, rules) : { text: content, redactions: 0 };
+
+    await fs.promises.writeFile(logFilePath, redacted.text, 'utf8');
+    const unredactedPath = getUnredactedPath(logFilePath);
+    if (redacted.redactions > 0 && ConfigUtils.getDebugLogRedactionSettings().keepUnredactedCopy) {
+        await ensureFolderExists(path.dirname(unredactedPath));
+        await fs.promises.writeFile(unredactedPath, content, 'utf8');
+    } else {
+        await fs.promises.rm(unredactedPath, { force: true });
+    }
+
+    if (metadata) {
+        // Exception messages are copied from the log and can hold the same sensitive data
+        const errors = rules
+            ? metadata.errors?.map((error) => ({ ...error, message: redactText(error.message, rules).text }))
+            : metadata.errors;
+        await writeLogMetadata(logFilePath, { ...metadata, errors });
+    }
+
+    Logger.debug(`Saved log content to file: ${logFilePath}`, 'DebugLogStorage.saveLogFile');
+    return logFilePath;
+}
+
+/**
+ * Apply the configured redaction rules to log content that is written outside the debug log cache
+ * @param content The log content
+ * @returns The redacted content, or the content unchanged when redaction is disabled
+ */
+export function redactLogContent(content: string): string {
+    const rules = getRedactionRules();
+    return rules ? redactText(content, rules).text : content;
+}
+
+function getRedactionRules(): RedactionRule[] | null {
+    const settings = ConfigUtils.getDebugLogRedactionSettings();
+    if (!settings.enabled) {
+        return null;
+    }
+
+    const { rules, invalidPatterns } = buildRedactionRules(settings.rules, settings.customPatterns);
+    if (invalidPatterns.length > 0) {
+        Logger.warn(
+            `Ignoring invalid debug log redaction patterns: ${invalidPatterns.join(', ')}`,
+            'DebugLogStorage.getRedactionRules',
+        );
+    }
+    return rules;
+}
+
+/**
+ * Read the metadata stored next to a log file
+ * @param logFilePath Path to the stored log file
+ */
+export async function readLogMetadata(logFilePath: string): Promise<DebugLogMetadata | null> {
+    return readJsonFile<DebugLogMetadata>(getMetadataPath(logFilePath));
+}
+
+/**
+ * Read the metadata of a stored log, falling back to what the file system knows about logs
+ * downloaded before metadata was stored
+ * @param logFilePath Path to the stored log file
+ */
+export async function getStoredLogMetadata(logFilePath: string): Promise<DebugLogMetadata> {
+    return (await readLogMetadata(logFilePath)) ?? (await getFallbackMetadata(logFilePath));
+}
+
+/**
+ * Get the org folder name of a stored log, the sanitized instance URL of the org it was downloaded from
+ * @param logFilePath Path to the stored log file
+ */
+export function getLogOrg(logFilePath: string): string {
+    return path.basename(path.dirname(logFilePath));
+}
+
+/**
+ * Write the metadata stored next to a log file
+ * @param logFilePath Path to the stored log file
+ * @param metadata The metadata to store
+ */
+export async function writeLogMetadata(logFilePath: string, metadata: DebugLogMetadata): Promise<void> {
+    await writeJsonFile(getMetadataPath(logFilePath), metadata);
+}
+
+/**
+ * Remove stored logs and their metadata from the debug log cache
+ * @param logIds The IDs of the logs to remove
+ */
+export async function removeStoredLogs(logIds: string[]): Promise<void> {
+    if (logIds.length === 0) {
+        return;
+    }
+
+    const orgFolders = await listOrgFolders();
+    for (const logId of logIds.filter(isSalesforceId)) {
+        for (const orgFolder of orgFolders) {
+            try {
+                await removeLogFiles(path.join(orgFolder, `${logId}${LOG_EXTENSION}`));
+            } catch (error) {
+                Logger.warn(
+                    `Could not remove stored log ${logId}: ${error instanceof Error ? error.message : String(error)}`,
+                    'DebugLogStorage.removeStoredLogs',
+                );
+            }
+        }
+    }
+}
+
+/**
+ * Record that a stored log was used, so the retention policy removes it after less recently used logs.
+ * The access time of the file is set explicitly since many file systems do not track it.
+ * @param logFilePath Path to the stored log file
+ */
+export async function markLogAccessed(logFilePath: string): Promise<void> {
+    try {
+        const stats = await fs.promises.stat(logFilePath);
+        await fs.promises.utimes(logFilePath, new Date(), stats.mtime);
+    } catch (error) {
+        Logger.debug(
+            `Could not update access time of ${logFilePath}: ${error instanceof Error ? error.message : String(error)}`,
+            'DebugLogStorage.markLogAccessed',
+        );
+    }
+}
+
+/**
+ * Pin or unpin a stored log. Pinned logs are never removed by the retention policy.
+ * @param logId The ID of the log
+ * @param pinned Whether the log should be pinned
+ * @returns The updated metadata
+ * @throws Error if the log is not in the cache
+ */
+export async function setLogPinned(logId: string, pinned: boolean): Promise<DebugLogMetadata> {
+    const logFilePath = await findStoredLogPath(logId);
+    if (!logFilePath) {
+        throw new Error(`Log ${logId} is not in the local cache`);
+    }
+
+    const metadata = await getStoredLogMetadata(logFilePath);
+    const updated = { ...metadata, pinned };
+    await writeLogMetadata(logFilePath, updated);
+    return updated;
+}
+
+// Log IDs are used as file names, so anything else could point outside the cache
+function assertValidLogId(logId: string): void {
+    if (!isSalesforceId(logId)) {
+        throw new Error(`Invalid log ID: ${logId}`);
+    }
+}
+
+// Only one cleanup runs at a time; downloads during a cleanup are covered by the next one
+let retentionRun: Promise<void> | null = null;
+
+/**
+ * Apply the configured retention policy to the cache of every org
+ * @param keepIds Logs that must not be removed by this run, e.g. a log that was just downloaded
+ */
+export function enforceRetentionPolicy(keepIds: string[] = []): Promise<void> {
+    if (!retentionRun) {
+        retentionRun = applyRetentionPolicy(new Set(keepIds)).finally(() => (retentionRun = null));
+    }
+    return retentionRun;
+}
+
+async function applyRetentionPolicy(keepIds: Set<string>): Promise<void> {
+    const policy = ConfigUtils.getDebugLogRetentionPolicy();
+    if (!policy.maxAgeDays && !policy.maxTotalBytes && !policy.maxFiles) {
+        return;
+    }
+
+    for (const orgFolder of await listOrgFolders()) {
+        try {
+            const logs = await listRetainedLogs(orgFolder);
+            const evicted = selectLogsToEvict(
+                logs.map((log) => (keepIds.has(log.id) ? { ...log, pinned: true } : log)),
+                policy,
+            );
+            for (const logId of evicted) {
+                await removeLogFiles(path.join(orgFolder, `${logId}${LOG_EXTENSION}`));
+            }
+
+            if (evicted.length > 0) {
+                Logger.info(
+                    `Removed ${evicted.length} logs from ${path.basename(orgFolder)} by the retention policy`,
+                    'DebugLogStorage.applyRetentionPolicy',
+                );
+            }
+        } catch (error) {
+            Logger.warn(
+                `Could not apply the retention policy to ${orgFolder}: ${error instanceof Error ? error.message : String(error)}`,
+                'DebugLogStorage.applyRetentionPolicy',
+            );
+        }
+    }
+}
+
+async function listRetainedLogs(orgFolder: string): Promise<RetainedLog[]> {
+    const logs: RetainedLog[] = [];
+    const entries = await fs.promises.readdir(orgFolder, { withFileTypes: true });
+
+    for (const entry of entries) {
+        if (!entry.isFile() || !entry.name.endsWith(LOG_EXTENSION)) {
+            continue;
+        }
+
+        const filePath = path.join(orgFolder, entry.name);
+        const stats = await fs.promises.stat(filePath);
+        const metadata = await readLogMetadata(filePath);
+        logs.push({
+            id: path.basename(entry.name, LOG_EXTENSION),
+            size: stats.size,
+            downloadedAt: new Date(metadata?.downloadedAt ?? stats.mtime).getTime() || stats.mtimeMs,
+            lastAccessedAt: Math.max(stats.atimeMs, stats.mtimeMs),
+            pinned: metadata?.pinned === true,
+        });
+    }
+
+    return logs;
+}
+
+/**
+ * List every log in the debug log cache, across all orgs, newest first. Works without a connection.
+ */
+export async function listLocalLogs(): Promise<LocalDebugLog[]> {
+    const logs: LocalDebugLog[] = [];
+
+    for (const orgFolder of await listOrgFolders()) {
+        const entries = await fs.promises.readdir(orgFolder, { withFileTypes: true });
+
+        for (const entry of entries) {
+            if (!entry.isFile() || !entry.name.endsWith(LOG_EXTENSION)) {
+                continue;
+            }
+
+            const filePath = path.join(orgFolder, entry.name);
+            const metadata = await getStoredLogMetadata(filePath);
+            logs.push({ ...metadata, org: getLogOrg(filePath), filePath });
+        }
+    }
+
+    return logs.sort((a, b) => getSortTime(b) - getSortTime(a));
+}
+
+async function getFallbackMetadata(filePath: string): Promise<DebugLogMetadata> {
+    const stats = await fs.promises.stat(filePath);
+    return {
+        id: path.basename(filePath, LOG_EXTENSION),
+        userName: null,
+        operation: null,
+        application: null,
+        status: null,
+        startTime: null,
+        requestIdentifier: null,
+        logLength: stats.size,
+        methodName: null,
+        downloadedAt: stats.mtime.toISOString(),
+    };
+}
+
+async function listOrgFolders(): Promise<string[]> {
+    const logsFolder = getDebugLogsFolder();
+    try {
+        const entries = await fs.promises.readdir(logsFolder, { withFileTypes: true });
+        return entries.filter((entry) => entry.isDirectory()).map((entry) => path.join(logsFolder, entry.name));
+    } catch {
+        return []; // Nothing has been downloaded yet
+    }
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+    try {
+        await fs.promises.access(filePath);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function getMetadataPath(logFilePath: string): string {
+    return logFilePath.slice(0, -LOG_EXTENSION.length) + METADATA_EXTENSION;
+}
+
+function getUnredactedPath(logFilePath: string): string {
+    return path.join(path.dirname(logFilePath), UNREDACTED_SUBFOLDER, path.basename(logFilePath));
+}
+
+// Remove a stored log with its metadata and unredacted copy
+async function removeLogFiles(logFilePath: string): Promise<void> {
+    await fs.promises.rm(logFilePath, { force: true });
+    await fs.promises.rm(getMetadataPath(logFilePath), { force: true });
+    await fs.promises.rm(getUnredactedPath(logFilePath), { force: true });
+}
+
+function getSortTime(log: DebugLogMetadata): number {
+    return new Date(log.startTime ?? log.downloadedAt).getTime() || 0;
+}
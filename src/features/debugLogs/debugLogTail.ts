@@ -0,0 +1,105 @@
+import { Logger } from '../../utils/logger';
+import { SalesforceApi } from '../../utils/salesforceApi';
+import { ApexLogRecord, buildDebugLogConditions, DEBUG_LOG_FIELDS, toSoqlDateTime } from './debugLogQuery';
+
+const MAX_BACKOFF_INTERVAL = 60 * 1000; // 1 minute
+const MAX_LOGS_PER_POLL = 50;
+
+/**
+ * Options for a live tail of new debug logs
+ */
+export interface DebugLogTailOptions {
+    interval: number; // Poll interval in milliseconds
+    userName?: string; // Only tail logs of this user
+    onLogs: (logs: ApexLogRecord[]) => void | Promise<void>;
+    onError: (error: unknown, retryIn: number) => void;
+}
+
+/**
+ * Polls ApexLog for records after the last seen one, ordered by StartTime and Id.
+ * Ordering by Id too keeps the tail moving when more logs than fit in one poll share a StartTime.
+ * Errors double the poll interval (up to a minute) until a poll succeeds again.
+ */
+export class DebugLogTail {
+    private options: DebugLogTailOptions;
+    private timer: NodeJS.Timeout | undefined;
+    private stopped = true;
+    private failures = 0;
+    private lastStartTime: string;
+    // Last log seen, null until the first log arrives
+    private lastId: string | null = null;
+
+    constructor(options: DebugLogTailOptions) {
+        this.options = options;
+        this.lastStartTime = toSoqlDateTime(new Date());
+    }
+
+    /**
+     * Start polling for logs created from now on
+     */
+    public start(): void {
+        this.stopped = false;
+        this.schedule(this.options.interval);
+        Logger.debug(`Debug log tail started from ${this.lastStartTime}`, 'DebugLogTail.start');
+    }
+
+    /**
+     * Stop polling
+     */
+    public stop(): void {
+        this.stopped = true;
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+        Logger.debug('Debug log tail stopped', 'DebugLogTail.stop');
+    }
+
+    private schedule(delay: number): void {
+        if (this.stopped) {
+            return;
+        }
+        this.timer = setTimeout(() => this.poll(), delay);
+    }
+
+    private async poll(): Promise<void> {
+        try {
+            const logs = await this.fetchNewLogs();
+            this.failures = 0;
+
+            if (logs.length > 0 && !this.stopped) {
+                await this.options.onLogs(logs);
+            }
+            this.schedule(this.options.interval);
+        } catch (error) {
+            this.failures++;
+            const retryIn = Math.min(MAX_BACKOFF_INTERVAL, this.options.interval * 2 ** this.failures);
+            Logger.warn(
+                `Debug log tail poll failed, retrying in ${retryIn / 1000}s: ${error instanceof Error ? error.message : String(error)}`,
+                'DebugLogTail.poll',
+            );
+            this.options.onError(error, retryIn);
+            this.schedule(retryIn);
+        }
+    }
+
+    private async fetchNewLogs(): Promise<ApexLogRecord[]> {
+        // StartTime only has second precision, so logs of the same second are told apart by Id
+        const after = this.lastId
+            ? `(StartTime > ${this.lastStartTime} OR (StartTime = ${this.lastStartTime} AND Id > '${this.lastId}'))`
+            : `StartTime >= ${this.lastStartTime}`;
+        const conditions = [after, ...buildDebugLogConditions({ userName: this.options.userName })];
+        const query = `SELECT ${DEBUG_LOG_FIELDS.join(', ')} FROM ApexLog WHERE ${conditions.join(' AND ')} ORDER BY StartTime ASC, Id ASC LIMIT ${MAX_LOGS_PER_POLL}`;
+
+        const result = await SalesforceApi.withConnection((connection) => connection.query<ApexLogRecord>(query));
+        const logs = result.records;
+
+        const last = logs[logs.length - 1];
+        if (last) {
+            this.lastStartTime = toSoqlDateTime(new Date(last.StartTime));
+            this.lastId = last.Id;
+        }
+
+        return logs;
+    }
+}
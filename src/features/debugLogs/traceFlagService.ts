@@ -0,0 +1,332 @@
+import { Logger } from '../../utils/logger';
+import { SalesforceApi } from '../../utils/salesforceApi';
+import { isSalesforceId } from './debugLogQuery';
+import {
+    DEBUG_LEVEL_CATEGORIES,
+    DebugLevel,
+    DebugLevelCategory,
+    LOG_CATEGORY_LEVELS,
+    TRACE_FLAG_LOG_TYPES,
+    TraceFlag,
+    TraceFlagInput,
+    TraceFlagLogType,
+} from './traceFlagTypes';
+
+// Salesforce rejects trace flags that last longer than 24 hours
+const MAX_TRACE_FLAG_MINUTES = 24 * 60;
+
+// Log type used for trace flags set on users from Setup
+const DEFAULT_LOG_TYPE: TraceFlagLogType = 'USER_DEBUG';
+
+const DEVELOPER_NAME_REGEX = /^[a-zA-Z][a-zA-Z0-9_]*$/;
+
+/**
+ * Error for input that cannot be sent to the org, e.g. a malformed ID
+ */
+export class InvalidTraceFlagInputError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidTraceFlagInputError';
+    }
+}
+
+// TraceFlag and DebugLevel records as selected by the queries below
+interface TraceFlagRecord {
+    Id: string;
+    TracedEntityId: string;
+    TracedEntity: { Name: string } | null;
+    LogType: string;
+    StartDate: string | null;
+    ExpirationDate: string;
+    DebugLevelId: string;
+    DebugLevel: { DeveloperName: string } | null;
+}
+
+type DebugLevelRecord = { Id: string; DeveloperName: string; MasterLabel: string } & Partial<
+    Record<DebugLevelCategory, string>
+>;
+
+// Outcome of a create, update or delete through the Tooling API
+type SaveResult = { success: boolean; errors?: { message: string }[] };
+
+const TRACE_FLAG_FIELDS =
+    'Id, TracedEntityId, TracedEntity.Name, LogType, StartDate, ExpirationDate, DebugLevelId, DebugLevel.DeveloperName';
+
+/**
+ * List all trace flags in the org, most recently expiring first
+ */
+export async function listTraceFlags(): Promise<TraceFlag[]> {
+    return SalesforceApi.withConnection(async (connection) => {
+        const result = await connection.tooling.query<TraceFlagRecord>(
+            `SELECT ${TRACE_FLAG_FIELDS} FROM TraceFlag ORDER BY ExpirationDate DESC`,
+        );
+
+        Logger.debug(`Retrieved ${result.totalSize} trace flags`, 'TraceFlagService.listTraceFlags');
+        return result.records.map(toTraceFlag);
+    });
+}
+
+/**
+ * Get the trace flag of the connected user that expires last, if any
+ * @param logType Only consider flags of this log type, defaults to any
+ */
+export async function getCurrentUserTraceFlag(logType?: TraceFlagLogType): Promise<TraceFlag | null> {
+    if (logType !== undefined) {
+        assertValidLogType(logType);
+    }
+
+    return SalesforceApi.withConnection(async (connection) => {
+        const userId = await getCurrentUserId();
+        const logTypeCondition = logType ? ` AND LogType = '${logType}'` : '';
+
+        const result = await connection.tooling.query<TraceFlagRecord>(
+            `SELECT ${TRACE_FLAG_FIELDS} FROM TraceFlag WHERE TracedEntityId = '${userId}'${logTypeCondition} ORDER BY ExpirationDate DESC LIMIT 1`,
+        );
+
+        return result.records.length > 0 ? toTraceFlag(result.records[0]) : null;
+    });
+}
+
+/**
+ * Create a trace flag, or update the existing one if the entity is already traced with the same log type
+ */
+export async function createTraceFlag(input: TraceFlagInput): Promise<string> {
+    assertValidInput(input, 'trace flag');
+    assertValidId(input.tracedEntityId, 'traced entity');
+    assertValidId(input.debugLevelId, 'debug level');
+    const logType = input.logType ?? DEFAULT_LOG_TYPE;
+    assertValidLogType(logType);
+
+    return SalesforceApi.withConnection(async (connection) => {
+        const now = new Date();
+        const fields = {
+            DebugLevelId: input.debugLevelId,
+            StartDate: now.toISOString(),
+            ExpirationDate: addMinutes(now, clampMinutes(input.durationMinutes)).toISOString(),
+        };
+
+        // Salesforce allows only one trace flag per entity and log type
+        const existing = await connection.tooling.query<{ Id: string }>(
+            `SELECT Id FROM TraceFlag WHERE TracedEntityId = '${input.tracedEntityId}' AND LogType = '${logType}' LIMIT 1`,
+        );
+
+        if (existing.records.length > 0) {
+            const id = existing.records[0].Id;
+            checkSaveResult(await connection.tooling.update('TraceFlag', { Id: id, ...fields }), 'update trace flag');
+            Logger.info(`Updated existing trace flag ${id}`, 'TraceFlagService.createTraceFlag');
+            return id;
+        }
+
+        const result = await connection.tooling.create('TraceFlag', {
+            TracedEntityId: input.tracedEntityId,
+            LogType: logType,
+            ...fields,
+        });
+        checkSaveResult(result, 'create trace flag');
+
+        Logger.info(`Created trace flag ${result.id}`, 'TraceFlagService.createTraceFlag');
+        return result.id as string;
+    });
+}
+
+/**
+ * Extend a trace flag by a number of minutes from its current expiration (or from now if it already expired)
+ */
+export async function extendTraceFlag(traceFlagId: string, minutes: number): Promise<void> {
+    assertValidId(traceFlagId, 'trace flag');
+
+    return SalesforceApi.withConnection(async (connection) => {
+        const result = await connection.tooling.query<{ Id: string; ExpirationDate: string }>(
+            `SELECT Id, ExpirationDate FROM TraceFlag WHERE Id = '${traceFlagId}'`,
+        );
+        if (result.records.length === 0) {
+            throw new Error(`Trace flag ${traceFlagId} not found`);
+        }
+
+        // The 24 hour limit is measured from StartDate, so the flag restarts now
+        const now = new Date();
+        const currentExpiration = new Date(result.records[0].ExpirationDate);
+        const base = currentExpiration > now ? currentExpiration : now;
+        const latest = addMinutes(now, MAX_TRACE_FLAG_MINUTES);
+        const expiration = new Date(Math.min(addMinutes(base, clampMinutes(minutes)).getTime(), latest.getTime()));
+
+        checkSaveResult(
+            await connection.tooling.update('TraceFlag', {
+                Id: traceFlagId,
+                StartDate: now.toISOString(),
+                ExpirationDate: expiration.toISOString(),
+            }),
+            'extend trace flag',
+        );
+        Logger.info(
+            `Extended trace flag ${traceFlagId} until ${expiration.toISOString()}`,
+            'TraceFlagService.extendTraceFlag',
+        );
+    });
+}
+
+/**
+ * Delete a trace flag
+ */
+export async function deleteTraceFlag(traceFlagId: string): Promise<void> {
+    assertValidId(traceFlagId, 'trace flag');
+
+    return SalesforceApi.withConnection(async (connection) => {
+        checkSaveResult(await connection.tooling.destroy('TraceFlag', traceFlagId), 'delete trace flag');
+        Logger.info(`Deleted trace flag ${traceFlagId}`, 'TraceFlagService.deleteTraceFlag');
+    });
+}
+
+/**
+ * List all debug levels with their per-category levels
+ */
+export async function listDebugLevels(): Promise<DebugLevel[]> {
+    return SalesforceApi.withConnection(async (connection) => {
+        const result = await connection.tooling.query<DebugLevelRecord>(
+            `SELECT Id, DeveloperName, MasterLabel, ${DEBUG_LEVEL_CATEGORIES.join(', ')} FROM DebugLevel ORDER BY DeveloperName`,
+        );
+
+        return result.records.map((record) => {
+            const level: DebugLevel = {
+                id: record.Id,
+                developerName: record.DeveloperName,
+                masterLabel: record.MasterLabel,
+            };
+            for (const category of DEBUG_LEVEL_CATEGORIES) {
+                level[category] = record[category];
+            }
+            return level;
+        });
+    });
+}
+
+/**
+ * Create a debug level
+ */
+export async function createDebugLevel(level: Omit<DebugLevel, 'id'>): Promise<string> {
+    assertValidInput(level, 'debug level');
+    if (!DEVELOPER_NAME_REGEX.test(level.developerName ?? '')) {
+        throw new InvalidTraceFlagInputError(
+            'Developer name must start with a letter and contain only letters, numbers and underscores',
+        );
+    }
+
+    return SalesforceApi.withConnection(async (connection) => {
+        const result = await connection.tooling.create('DebugLevel', {
+            DeveloperName: level.developerName,
+            MasterLabel: level.masterLabel || level.developerName,
+            ...getCategoryFields(level),
+        });
+        checkSaveResult(result, 'create debug level');
+
+        Logger.info(`Created debug level ${level.developerName}`, 'TraceFlagService.createDebugLevel');
+        return result.id as string;
+    });
+}
+
+/**
+ * Update the label and per-category levels of a debug level
+ */
+export async function updateDebugLevel(debugLevelId: string, level: Partial<DebugLevel>): Promise<void> {
+    assertValidId(debugLevelId, 'debug level');
+    assertValidInput(level, 'debug level');
+
+    return SalesforceApi.withConnection(async (connection) => {
+        checkSaveResult(
+            await connection.tooling.update('DebugLevel', {
+                Id: debugLevelId,
+                ...(level.masterLabel ? { MasterLabel: level.masterLabel } : {}),
+                ...getCategoryFields(level),
+            }),
+            'update debug level',
+        );
+        Logger.info(`Updated debug level ${debugLevelId}`, 'TraceFlagService.updateDebugLevel');
+    });
+}
+
+/**
+ * Delete a debug level. Salesforce refuses this while trace flags still use the level.
+ */
+export async function deleteDebugLevel(debugLevelId: string): Promise<void> {
+    assertValidId(debugLevelId, 'debug level');
+
+    return SalesforceApi.withConnection(async (connection) => {
+        checkSaveResult(await connection.tooling.destroy('DebugLevel', debugLevelId), 'delete debug level');
+        Logger.info(`Deleted debug level ${debugLevelId}`, 'TraceFlagService.deleteDebugLevel');
+    });
+}
+
+/**
+ * Get the Salesforce ID of the connected user
+ */
+export async function getCurrentUserId(): Promise<string> {
+    return SalesforceApi.withConnection(async (connection) => {
+        const userId = connection.getAuthInfoFields().userId ?? (await connection.identity()).user_id;
+        assertValidId(userId, 'user');
+        return userId;
+    });
+}
+
+function toTraceFlag(record: TraceFlagRecord): TraceFlag {
+    return {
+        id: record.Id,
+        tracedEntityId: record.TracedEntityId,
+        tracedEntityName: record.TracedEntity?.Name ?? null,
+        logType: record.LogType,
+        startDate: record.StartDate ?? null,
+        expirationDate: record.ExpirationDate,
+        debugLevelId: record.DebugLevelId,
+        debugLevelName: record.DebugLevel?.DeveloperName ?? null,
+    };
+}
+
+function getCategoryFields(level: Partial<DebugLevel>): Record<string, string> {
+    const fields: Record<string, string> = {};
+    for (const category of DEBUG_LEVEL_CATEGORIES) {
+        const value = level[category];
+        if (!value) {
+            continue;
+        }
+        if (!(LOG_CATEGORY_LEVELS as readonly string[]).includes(value)) {
+            throw new InvalidTraceFlagInputError(`Invalid ${category} level: ${value}`);
+        }
+        fields[category] = value;
+    }
+    return fields;
+}
+
+function assertValidInput(input: unknown, label: string): void {
+    // Request bodies arrive unchecked, and are missing altogether when the request has none
+    if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+        throw new InvalidTraceFlagInputError(`Missing ${label} details`);
+    }
+}
+
+function assertValidId(id: string, label: string): void {
+    // IDs are interpolated into SOQL, so anything that isn't a plain Salesforce ID is rejected
+    if (!isSalesforceId(id)) {
+        throw new InvalidTraceFlagInputError(`Invalid ${label} ID: ${id}`);
+    }
+}
+
+function assertValidLogType(logType: string): void {
+    // The log type is interpolated into SOQL too, so only the known types are accepted
+    if (!(TRACE_FLAG_LOG_TYPES as readonly string[]).includes(logType)) {
+        throw new InvalidTraceFlagInputError(`Invalid log type: ${logType}`);
+    }
+}
+
+function checkSaveResult(result: SaveResult, action: string): void {
+    if (!result?.success) {
+        const messages = (result?.errors ?? []).map((e) => e.message ?? String(e)).join('; ');
+        throw new Error(`Failed to ${action}${messages ? `: ${messages}` : ''}`);
+    }
+}
+
+function clampMinutes(minutes: number): number {
+    return Math.min(MAX_TRACE_FLAG_MINUTES, Math.max(1, Math.round(minutes) || 60));
+}
+
+function addMinutes(date: Date, minutes: number): Date {
+    return new Date(date.getTime() + minutes * 60 * 1000);
+}
@@ -0,0 +1,86 @@
+import * as vscode from 'vscode';
+import { Logger } from '../../utils/logger';
+import { SFUtils } from '../../utils/sfutils';
+import { getCurrentUserTraceFlag } from './traceFlagService';
+
+// Status bar item showing when the current user's trace flag expires
+let traceFlagStatusBar: vscode.StatusBarItem | undefined;
+
+// Timers for re-querying the org and for updating the countdown locally
+let refreshTimer: NodeJS.Timeout | undefined;
+let countdownTimer: NodeJS.Timeout | undefined;
+
+// Expiration of the current user's trace flag, as of the last query
+let expirationDate: Date | null = null;
+
+const REFRESH_INTERVAL = 5 * 60 * 1000; // 5 minutes
+const COUNTDOWN_INTERVAL = 30 * 1000; // 30 seconds
+
+/**
+ * Create the trace flag status bar item and start refreshing it
+ * @param context The extension context to register the status bar item with
+ */
+export function registerTraceFlagStatusBar(context: vscode.ExtensionContext): void {
+    traceFlagStatusBar = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 99);
+    traceFlagStatusBar.command = 'salesforce-multitools-3.openDebugLogs';
+    context.subscriptions.push(traceFlagStatusBar);
+
+    refreshTimer = setInterval(() => refreshTraceFlagStatusBar(), REFRESH_INTERVAL);
+    countdownTimer = setInterval(() => renderStatusBar(), COUNTDOWN_INTERVAL);
+    context.subscriptions.push({
+        dispose: () => {
+            clearInterval(refreshTimer);
+            clearInterval(countdownTimer);
+        },
+    });
+
+    // The trace flag belongs to the user of the org that is connected
+    context.subscriptions.push(SFUtils.onDidChangeConnection(() => refreshTraceFlagStatusBar()));
+
+    refreshTraceFlagStatusBar();
+}
+
+/**
+ * Re-query the current user's trace flag and update the status bar
+ * Called periodically and whenever trace flags are changed from the Debug Logs panel
+ */
+export async function refreshTraceFlagStatusBar(): Promise<void> {
+    if (!traceFlagStatusBar) {
+        return;
+    }
+
+    try {
+        const traceFlag = await getCurrentUserTraceFlag();
+        expirationDate = traceFlag ? new Date(traceFlag.expirationDate) : null;
+        renderStatusBar();
+    } catch (error) {
+        Logger.debug(
+            `Could not refresh trace flag status: ${error instanceof Error ? error.message : String(error)}`,
+            'TraceFlagStatusBar.refreshTraceFlagStatusBar',
+        );
+        traceFlagStatusBar.hide();
+    }
+}
+
+function renderStatusBar(): void {
+    if (!traceFlagStatusBar) {
+        return;
+    }
+
+    const remaining = expirationDate ? expirationDate.getTime() - Date.now() : 0;
+    if (remaining <= 0) {
+        traceFlagStatusBar.text = '$(debug-disconnect) No trace flag';
+        traceFlagStatusBar.tooltip = 'Debug logs are not being recorded for you\nClick to manage trace flags';
+    } else {
+        traceFlagStatusBar.text = `$(debug) Trace: ${formatRemaining(remaining)}`;
+        traceFlagStatusBar.tooltip = `Your trace flag expires at ${expirationDate!.toLocaleString()}\nClick to manage trace flags`;
+    }
+    traceFlagStatusBar.show();
+}
+
+function formatRemaining(milliseconds: number): string {
+    const totalMinutes = Math.ceil(milliseconds / 60000);
+    const hours = Math.floor(totalMinutes / 60);
+    const minutes = totalMinutes % 60;
+    return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+}
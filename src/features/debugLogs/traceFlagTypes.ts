@@ -0,0 +1,62 @@
+/**
+ * Log categories of a DebugLevel record, as named by the Tooling API
+ */
+export const DEBUG_LEVEL_CATEGORIES = [
+    'ApexCode',
+    'ApexProfiling',
+    'Callout',
+    'Database',
+    'System',
+    'Validation',
+    'Visualforce',
+    'Workflow',
+    'Wave',
+    'Nba',
+] as const;
+
+export type DebugLevelCategory = (typeof DEBUG_LEVEL_CATEGORIES)[number];
+
+/**
+ * Levels that can be assigned to a debug level category
+ */
+export const LOG_CATEGORY_LEVELS = ['NONE', 'ERROR', 'WARN', 'INFO', 'DEBUG', 'FINE', 'FINER', 'FINEST'] as const;
+
+/**
+ * Log types a TraceFlag can have
+ */
+export const TRACE_FLAG_LOG_TYPES = ['USER_DEBUG', 'DEVELOPER_LOG', 'CLASS_TRACING'] as const;
+
+export type TraceFlagLogType = (typeof TRACE_FLAG_LOG_TYPES)[number];
+
+/**
+ * A DebugLevel record with its per-category levels
+ */
+export interface DebugLevel extends Partial<Record<DebugLevelCategory, string>> {
+    id: string;
+    developerName: string;
+    masterLabel: string;
+}
+
+/**
+ * A TraceFlag record
+ */
+export interface TraceFlag {
+    id: string;
+    tracedEntityId: string;
+    tracedEntityName: string | null;
+    logType: string;
+    startDate: string | null;
+    expirationDate: string;
+    debugLevelId: string;
+    debugLevelName: string | null;
+}
+
+/**
+ * Input for creating a TraceFlag
+ */
+export interface TraceFlagInput {
+    tracedEntityId: string;
+    debugLevelId: string;
+    durationMinutes: number;
+    logType?: TraceFlagLogType;
+}
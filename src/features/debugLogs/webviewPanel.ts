@@ -1,6 +1,8 @@
 import * as vscode from 'vscode';
 import { WebviewUtils } from '../../utils/webview';
+import { getProjectFolder } from '../../utils/projectFolders';
 import { Logger } from '../../utils/logger';
+import { SFUtils } from '../../utils/sfutils';
 import { handleDebugLogWebviewCommand } from './commands';
 import { configureWebviewForServer } from '../../utils/webviewUtils';
 
@@ -11,6 +13,7 @@ export class DebugLogWebviewPanel {
     public static readonly viewType = 'salesforceMultitools.debugLogs';
     private static _panel: vscode.WebviewPanel | undefined;
     private static _extensionUri: vscode.Uri;
+    private static _pendingLogId: string | null = null; // Log to analyze once a new panel is ready
 
     /**
      * Create or show the debug logs webview panel
@@ -47,10 +50,18 @@ export class DebugLogWebviewPanel {
         // Setup message handling
         this._setWebviewMessageListener(this._panel.webview);
 
+        // Reload the logs when the connection switches to another org
+        const connectionChangeListener = SFUtils.onDidChangeConnection((username) => {
+            if (this._panel) {
+                this._sendMessage(this._panel.webview, { command: 'orgChanged', data: { username } });
+            }
+        });
+
         // Reset when the panel is closed
         this._panel.onDidDispose(
             () => {
                 this._panel = undefined;
+                connectionChangeListener.dispose();
             },
             null,
             [],
@@ -67,6 +78,20 @@ export class DebugLogWebviewPanel {
         });
     }
 
+    /**
+     * Open a log in the analyzer of the debug logs webview panel, creating the panel if needed
+     */
+    public static showLog(extensionUri: vscode.Uri, logId: string): void {
+        if (this._panel) {
+            this.createOrShow(extensionUri);
+            this._sendMessage(this._panel.webview, { command: 'analyzeLog', data: { logId } });
+            return;
+        }
+
+        this._pendingLogId = logId;
+        this.createOrShow(extensionUri);
+    }
+
     /**
      * Close the webview panel if it exists
      */
@@ -93,6 +118,11 @@ export class DebugLogWebviewPanel {
                     component: 'debugLogFetcher',
                 });
 
+                if (this._pendingLogId) {
+                    webview.postMessage({ command: 'analyzeLog', data: { logId: this._pendingLogId } });
+                    this._pendingLogId = null;
+                }
+
                 return;
             }
 
@@ -131,8 +161,8 @@ export class DebugLogWebviewPanel {
     private static _sendInitialData(webview: vscode.Webview): void {
         Logger.debug('Sending initial data to debug logs webview panel', 'DebugLogWebviewPanel._sendInitialData');
 
-        // Get the workspace folder
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        // Get the project folder of the active file
+        const workspaceFolder = getProjectFolder()?.uri.fsPath;
 
         // Send initial data
         this._sendMessage(webview, {
@@ -2,6 +2,7 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
 import { WebviewUtils } from '../../../utils/webview';
+import { getProjectFolder } from '../../../utils/projectFolders';
 import { Logger } from '../../../utils/logger';
 import { configureWebviewForServer } from '../../../utils/webviewUtils';
 
@@ -138,8 +139,8 @@ export class FileSwitcherPanel {
     private _sendInitialData() {
         Logger.debug('Sending initial data to file switcher webview', 'FileSwitcherPanel._sendInitialData');
 
-        // Get the workspace folder
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        // Get the project folder of the active file
+        const workspaceFolder = getProjectFolder()?.uri.fsPath;
 
         // Send initial data
         this._sendMessage({
@@ -3,10 +3,12 @@ import { Logger } from '../../utils/logger';
 import { getMetadataInfoFromFilePath } from '../../utils/metadataUtils';
 import { getFileLastModifiedInfo } from './lastModifiedService';
 import { SFUtils } from '../../utils/sfutils';
+import { SalesforceApi } from '../../utils/salesforceApi';
 import { FormattedLastModifiedInfo } from './lastModifiedTypes';
 import { ConfigUtils } from '../../utils/config';
 import { getStoredLastModifiedInfo, storeLastModifiedInfo } from './lastModifiedStorage';
 import { isRegularFileEditor } from '../../utils/fileUtils';
+import { describeConnectionError } from '../../utils/connectionErrors';
 
 // Status bar item to show last modified info
 let lastModifiedStatusBar: vscode.StatusBarItem;
@@ -104,6 +106,12 @@ export function registerLastModifiedCommands(context: vscode.ExtensionContext):
         }
     });
 
+    // Details of another org no longer apply
+    const connectionChangeEvent = SFUtils.onDidChangeConnection(() => {
+        codeLensProvider.clear();
+        refreshLastModifiedInfo(true);
+    });
+
     // Update status bar on startup if editor is already open
     const editor = vscode.window.activeTextEditor;
     if (isValidEditor(editor)) {
@@ -119,6 +127,7 @@ export function registerLastModifiedCommands(context: vscode.ExtensionContext):
         activeEditorChangeEvent,
         documentSaveEvent,
         configChangeEvent,
+        connectionChangeEvent,
         {
             dispose: () => {
                 // Clear the auto-refresh timer when the extension is deactivated
@@ -265,7 +274,7 @@ export async function refreshLastModifiedInfo(forceRefresh: boolean = false): Pr
 
         // Step 1: Fetch fresh data from Salesforce
         const info = await getFileLastModifiedInfo(filePath);
-        const connection = await SFUtils.getConnection();
+        const connection = await SalesforceApi.getConnection();
 
         if (!info) {
             lastModifiedStatusBar.text = `$(history) No metadata found for this file`;
@@ -311,7 +320,7 @@ export async function refreshLastModifiedInfo(forceRefresh: boolean = false): Pr
             error,
         );
         lastModifiedStatusBar.text = `$(history) Error querying metadata`;
-        lastModifiedStatusBar.tooltip = `Error: ${error instanceof Error ? error.message : String(error)}\nClick to try again`;
+        lastModifiedStatusBar.tooltip = `Error: ${describeConnectionError(error)}\nClick to try again`;
         lastModifiedStatusBar.show();
     }
 }
@@ -399,6 +408,14 @@ class LastModifiedCodeLensProvider implements vscode.CodeLensProvider {
         this._onDidChangeCodeLenses.fire();
     }
 
+    /**
+     * Forget the info of all documents, e.g. after switching to another org
+     */
+    public clear(): void {
+        this._pendingRefresh.clear();
+        this._onDidChangeCodeLenses.fire();
+    }
+
     async provideCodeLenses(
         document: vscode.TextDocument,
         token: vscode.CancellationToken,
@@ -426,7 +443,7 @@ class LastModifiedCodeLensProvider implements vscode.CodeLensProvider {
             const range = new vscode.Range(position, position);
 
             // Get org username for tooltip
-            const connection = await SFUtils.getConnection();
+            const connection = await SalesforceApi.getConnection();
             const orgUsername = connection?.getUsername() || '';
 
             return [
@@ -1,6 +1,8 @@
 import * as vscode from 'vscode';
 import { Logger } from '../../utils/logger';
 import { SFUtils } from '../../utils/sfutils';
+import { SalesforceApi } from '../../utils/salesforceApi';
+import { getProjectFolder } from '../../utils/projectFolders';
 import { getMetadataInfoFromFilePath } from '../../utils/metadataUtils';
 import { FormattedLastModifiedInfo } from './lastModifiedTypes';
 import { storeLastModifiedInfo } from './lastModifiedStorage';
@@ -30,7 +32,6 @@ export async function getFileLastModifiedInfo(filePath: string): Promise<Formatt
         );
 
         await SFUtils.initialize();
-        const connection = await SFUtils.getConnection();
 
         let result;
         let query = '';
@@ -72,7 +73,11 @@ export async function getFileLastModifiedInfo(filePath: string): Promise<Formatt
         }
 
         Logger.debug(`Executing query: ${query}`, 'LastModifiedService.getFileLastModifiedInfo');
-        result = await connection.tooling.query(query);
+        // Query the org of the project the file belongs to
+        result = await SalesforceApi.withConnection(
+            (connection) => connection.tooling.query(query),
+            getProjectFolder(vscode.Uri.file(filePath)),
+        );
         Logger.debug(`Query result: ${JSON.stringify(result)}`, 'LastModifiedService.getFileLastModifiedInfo');
 
         if (result.records && result.records.length > 0) {
@@ -1,9 +1,9 @@
-import * as vscode from 'vscode';
 import * as path from 'path';
 import { Logger } from '../../utils/logger';
 import { ensureFolderExists, writeJsonFile, readJsonFile } from '../../utils/fileUtils';
 import { LastModifiedInfo } from './lastModifiedTypes';
-import { SFUtils } from '../../utils/sfutils';
+import { SalesforceApi } from '../../utils/salesforceApi';
+import { getProjectFolder } from '../../utils/projectFolders';
 
 // Constants
 const LAST_MODIFIED_SUBFOLDER = 'last-modified';
@@ -38,7 +38,8 @@ export async function storeLastModifiedInfo(
     modifiedInfo: LastModifiedInfo,
 ): Promise<void> {
     try {
-        if (!vscode.workspace.workspaceFolders || vscode.workspace.workspaceFolders.length === 0) {
+        const projectFolder = getProjectFolder();
+        if (!projectFolder) {
             Logger.warn(
                 'No workspace folder found to store last modified info',
                 'LastModifiedStorage.storeLastModifiedInfo',
@@ -46,7 +47,7 @@ export async function storeLastModifiedInfo(
             return;
         }
 
-        const rootPath = vscode.workspace.workspaceFolders[0].uri.fsPath;
+        const rootPath = projectFolder.uri.fsPath;
         const sfdxFolder = path.join(rootPath, '.sfdx');
         const multiToolFolder = path.join(sfdxFolder, MULTI_TOOL_FOLDER);
         const lastModifiedFolder = path.join(multiToolFolder, LAST_MODIFIED_SUBFOLDER);
@@ -96,15 +97,16 @@ export async function getStoredLastModifiedInfo(
     apiName: string,
 ): Promise<LastModifiedInfo | null> {
     try {
-        if (!vscode.workspace.workspaceFolders || vscode.workspace.workspaceFolders.length === 0) {
+        const projectFolder = getProjectFolder();
+        if (!projectFolder) {
             return null;
         }
 
         // Get current org info to find the right storage location
-        const connection = await SFUtils.getConnection();
+        const connection = await SalesforceApi.getConnection();
         const orgId = connection?.instanceUrl ? getSanitizedOrgId(connection.instanceUrl) : 'unknown-org';
 
-        const rootPath = vscode.workspace.workspaceFolders[0].uri.fsPath;
+        const rootPath = projectFolder.uri.fsPath;
         const filePath = path.join(
             rootPath,
             '.sfdx',
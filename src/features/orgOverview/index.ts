@@ -0,0 +1,3 @@
+export * from './orgOverviewTypes';
+export * from './orgLimits';
+export * from './orgOverviewService';
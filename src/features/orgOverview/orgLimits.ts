@@ -0,0 +1,66 @@
+import { OrgType } from '../orgSwitcher/orgDisplay';
+import { OrgLimit } from './orgOverviewTypes';
+
+/**
+ * A limit as returned by the /limits REST resource
+ */
+export interface RawOrgLimit {
+    Max: number;
+    Remaining: number;
+}
+
+// Limits shown first, in this order, with the label and unit to show them with
+const FEATURED_LIMITS: { name: string; label: string; unit?: string }[] = [
+    { name: 'DailyApiRequests', label: 'Daily API requests' },
+    { name: 'DataStorageMB', label: 'Data storage', unit: 'MB' },
+    { name: 'FileStorageMB', label: 'File storage', unit: 'MB' },
+    { name: 'DailyAsyncApexExecutions', label: 'Daily async Apex executions' },
+    { name: 'DailyBulkV2QueryJobs', label: 'Daily Bulk API 2.0 query jobs' },
+    { name: 'DailyWorkflowEmails', label: 'Daily workflow emails' },
+    { name: 'SingleEmail', label: 'Single emails' },
+    { name: 'HourlyPublishedPlatformEvents', label: 'Hourly published platform events' },
+];
+
+/**
+ * Turn the /limits response into the limits to show: the featured limits first, then the others by name.
+ * Limits with a maximum of 0 are not available in the org and are left out.
+ * @param raw The response of the /limits REST resource
+ */
+export function toOrgLimits(raw: Record<string, RawOrgLimit>): OrgLimit[] {
+    const toLimit = (name: string, label: string, unit?: string): OrgLimit => ({
+        name,
+        label,
+        max: raw[name].Max,
+        used: raw[name].Max - raw[name].Remaining,
+        unit: unit ?? (name.endsWith('MB') ? 'MB' : null),
+    });
+
+    const featured = FEATURED_LIMITS.filter(({ name }) => raw[name]?.Max > 0).map(({ name, label, unit }) =>
+        toLimit(name, label, unit),
+    );
+    const others = Object.keys(raw)
+        .filter((name) => raw[name]?.Max > 0 && !FEATURED_LIMITS.some((limit) => limit.name === name))
+        .sort((a, b) => a.localeCompare(b))
+        .map((name) => toLimit(name, toLimitLabel(name)));
+    return [...featured, ...others];
+}
+
+/**
+ * Get the kind of an org from its Organization record. Scratch orgs are sandboxes that expire.
+ */
+export function getOrganizationType(isSandbox: boolean, trialExpirationDate: string | null): OrgType {
+    if (!isSandbox) {
+        return 'Production';
+    }
+    return trialExpirationDate ? 'Scratch org' : 'Sandbox';
+}
+
+// DailyDurableStreamingApiEvents -> Daily durable streaming api events, keeping words like OData and V2
+function toLimitLabel(name: string): string {
+    return name
+        .replace(/MB$/, '')
+        .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+        .split(' ')
+        .map((word, index) => (index === 0 || /^[A-Z].*[A-Z0-9]/.test(word) ? word : word.toLowerCase()))
+        .join(' ');
+}
@@ -0,0 +1,48 @@
+import { Logger } from '../../utils/logger';
+import { SalesforceApi } from '../../utils/salesforceApi';
+import { getOrganizationType, RawOrgLimit, toOrgLimits } from './orgLimits';
+import { OrgOverview } from './orgOverviewTypes';
+
+interface OrganizationRecord {
+    Id: string;
+    Name: string;
+    OrganizationType: string;
+    InstanceName: string | null;
+    IsSandbox: boolean;
+    TrialExpirationDate: string | null;
+}
+
+/**
+ * Get the details of the connected org and the current usage of its limits
+ * @returns The overview, with limits fresh from the org
+ */
+export async function getOrgOverview(): Promise<OrgOverview> {
+    const { organization, username, instanceUrl, apiVersion } = await SalesforceApi.withConnection(
+        async (connection) => {
+            const result = await connection.query<OrganizationRecord>(
+                'SELECT Id, Name, OrganizationType, InstanceName, IsSandbox, TrialExpirationDate FROM Organization',
+            );
+            return {
+                organization: result.records[0],
+                username: connection.getUsername() ?? '',
+                instanceUrl: connection.instanceUrl ?? null,
+                apiVersion: connection.getApiVersion(),
+            };
+        },
+    );
+    const limits = await SalesforceApi.request<Record<string, RawOrgLimit>>({ path: '/limits' });
+    Logger.debug(`Fetched ${Object.keys(limits).length} limits`, 'OrgOverviewService.getOrgOverview');
+
+    return {
+        orgId: organization.Id,
+        name: organization.Name,
+        edition: organization.OrganizationType,
+        instanceName: organization.InstanceName,
+        instanceUrl,
+        orgType: getOrganizationType(organization.IsSandbox, organization.TrialExpirationDate),
+        expirationDate: organization.TrialExpirationDate,
+        username,
+        apiVersion,
+        limits: toOrgLimits(limits),
+    };
+}
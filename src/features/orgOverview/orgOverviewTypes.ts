@@ -0,0 +1,28 @@
+import { OrgType } from '../orgSwitcher/orgDisplay';
+
+/**
+ * Usage of one org limit, from the /limits REST resource
+ */
+export interface OrgLimit {
+    name: string; // Name of the limit in the API, e.g. DailyApiRequests
+    label: string;
+    max: number;
+    used: number;
+    unit: string | null; // e.g. MB, null for counts
+}
+
+/**
+ * Details of the connected org
+ */
+export interface OrgOverview {
+    orgId: string;
+    name: string;
+    edition: string; // OrganizationType, e.g. Developer Edition
+    instanceName: string | null;
+    instanceUrl: string | null;
+    orgType: OrgType;
+    expirationDate: string | null; // Expiry of scratch orgs and trial orgs
+    username: string;
+    apiVersion: string;
+    limits: OrgLimit[];
+}
@@ -0,0 +1,144 @@
+import * as vscode from 'vscode';
+import { OrgAuthorization } from '@salesforce/core';
+import { Logger } from '../../utils/logger';
+import { SFUtils } from '../../utils/sfutils';
+import { ConnectionHealth } from '../../utils/connectionHealth';
+import { getProjectFolder, getProjectFolders, onDidChangeActiveProjectFolder } from '../../utils/projectFolders';
+import { getOrgLabel, getOrgProblem, getOrgType, sortOrgs } from './orgDisplay';
+
+// Status bar item showing the org the extension is connected to
+let orgStatusBar: vscode.StatusBarItem | undefined;
+
+interface OrgQuickPickItem extends vscode.QuickPickItem {
+    authorization: OrgAuthorization;
+}
+
+/**
+ * Register the org status bar item and the command to switch orgs
+ * @param context The extension context to register commands with
+ */
+export function registerOrgSwitcherCommands(context: vscode.ExtensionContext): void {
+    orgStatusBar = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 50);
+    orgStatusBar.command = 'salesforce-multitools-3.switchOrg';
+
+    const switchOrgCmd = vscode.commands.registerCommand('salesforce-multitools-3.switchOrg', handleSwitchOrg);
+    const reauthenticateCmd = vscode.commands.registerCommand('salesforce-multitools-3.reauthenticate', () =>
+        ConnectionHealth.reauthenticate(),
+    );
+    const connectionChangeListener = SFUtils.onDidChangeConnection(() => {
+        // Problems of the previous org no longer apply
+        ConnectionHealth.reset();
+        refreshOrgStatusBar();
+    });
+    const folderChangeListener = onDidChangeActiveProjectFolder(() => refreshOrgStatusBar());
+    const healthChangeListener = ConnectionHealth.onDidChangeStatus(() => refreshOrgStatusBar());
+
+    context.subscriptions.push(
+        orgStatusBar,
+        switchOrgCmd,
+        reauthenticateCmd,
+        connectionChangeListener,
+        folderChangeListener,
+        healthChangeListener,
+    );
+
+    refreshOrgStatusBar();
+
+    Logger.debug('Org switcher commands registered', 'OrgSwitcherCommands.registerOrgSwitcherCommands');
+}
+
+/**
+ * Show the current org in the status bar
+ */
+async function refreshOrgStatusBar(): Promise<void> {
+    if (!orgStatusBar) {
+        return;
+    }
+
+    try {
+        const org = await SFUtils.getCurrentOrg();
+        // In a multi-root workspace, name the project the org belongs to
+        const project = getProjectFolders().length > 1 ? `Project: ${getProjectFolder()?.name}\n` : '';
+        const status = ConnectionHealth.getStatus();
+        orgStatusBar.command = 'salesforce-multitools-3.switchOrg';
+        orgStatusBar.backgroundColor = undefined;
+        if (!org) {
+            orgStatusBar.text = '$(cloud) No org';
+            orgStatusBar.tooltip = `${project}No default org is set for this project\nClick to choose an org`;
+        } else if (status === 'sessionExpired') {
+            orgStatusBar.text = `$(warning) ${getOrgLabel(org)} · Session expired`;
+            orgStatusBar.tooltip = `${project}${org.username}\n${ConnectionHealth.getStatusDetail()}\nClick to log in again`;
+            orgStatusBar.command = 'salesforce-multitools-3.reauthenticate';
+            orgStatusBar.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+        } else if (status === 'unreachable') {
+            orgStatusBar.text = `$(debug-disconnect) ${getOrgLabel(org)} · Unreachable`;
+            orgStatusBar.tooltip = `${project}${org.username}\n${ConnectionHealth.getStatusDetail()}\nClick to switch org`;
+            orgStatusBar.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+        } else {
+            orgStatusBar.text = `$(cloud) ${getOrgLabel(org)} · ${getOrgType(org)}`;
+            orgStatusBar.tooltip = `${project}${org.username}\n${org.instanceUrl ?? ''}\nClick to switch org`;
+        }
+        orgStatusBar.show();
+    } catch (error) {
+        Logger.debug(
+            `Could not refresh org status: ${error instanceof Error ? error.message : String(error)}`,
+            'OrgSwitcherCommands.refreshOrgStatusBar',
+        );
+        orgStatusBar.hide();
+    }
+}
+
+/**
+ * Pick one of the authenticated orgs and connect to it
+ */
+async function handleSwitchOrg(): Promise<void> {
+    // The project to switch, fixed before the focus moves to the quick pick
+    const folder = getProjectFolder();
+
+    try {
+        const [authorizations, currentOrg] = await Promise.all([
+            SFUtils.listAllAuthorizations(true),
+            SFUtils.getCurrentOrg(folder),
+        ]);
+        if (authorizations.length === 0) {
+            vscode.window.showWarningMessage('No authenticated orgs found. Log in to an org with the Salesforce CLI.');
+            return;
+        }
+
+        const items: OrgQuickPickItem[] = sortOrgs(authorizations).map((authorization) => {
+            const problem = getOrgProblem(authorization);
+            const isCurrent = authorization.username === currentOrg?.username;
+            return {
+                label: `${isCurrent ? '$(check) ' : ''}${getOrgLabel(authorization)}`,
+                description: `${authorization.username} · ${getOrgType(authorization)}`,
+                detail: problem ? `$(warning) ${problem}` : authorization.instanceUrl,
+                authorization,
+            };
+        });
+
+        const picked = await vscode.window.showQuickPick(items, {
+            placeHolder:
+                getProjectFolders().length > 1
+                    ? `Select the org to connect ${folder?.name} to`
+                    : 'Select the org to connect to',
+            matchOnDescription: true,
+        });
+        if (!picked || picked.authorization.username === currentOrg?.username) {
+            return;
+        }
+
+        await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Window,
+                title: `Switching to ${getOrgLabel(picked.authorization)}`,
+            },
+            () => SFUtils.switchOrg(picked.authorization, folder),
+        );
+        vscode.window.showInformationMessage(`Connected to ${getOrgLabel(picked.authorization)}`);
+    } catch (error) {
+        Logger.error('Error switching org:', 'OrgSwitcherCommands.handleSwitchOrg', error);
+        vscode.window.showErrorMessage(
+            `Failed to switch org: ${error instanceof Error ? error.message : String(error)}`,
+        );
+    }
+}
@@ -0,0 +1,4 @@
+export * from './orgDisplay';
+
+// Re-export the command handler for easier integration
+export { registerOrgSwitcherCommands } from './commands';
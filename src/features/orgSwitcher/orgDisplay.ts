@@ -0,0 +1,45 @@
+import { OrgAuthorization } from '@salesforce/core';
+
+export type OrgType = 'Production' | 'Sandbox' | 'Scratch org';
+
+// Hosts of My Domain sandboxes and scratch orgs, for authorizations saved without the org type
+const SANDBOX_HOST_REGEX = /(\.sandbox\.my\.salesforce\.com|--[a-z0-9]+\.(cs\d+\.)?my\.salesforce\.com|\/\/cs\d+\.)/i;
+const SCRATCH_HOST_REGEX = /\.scratch\.my\.salesforce\.com/i;
+
+/**
+ * Get the kind of an authenticated org
+ */
+export function getOrgType(authorization: OrgAuthorization): OrgType {
+    if (authorization.isScratchOrg || SCRATCH_HOST_REGEX.test(authorization.instanceUrl ?? '')) {
+        return 'Scratch org';
+    }
+    if (authorization.isSandbox || SANDBOX_HOST_REGEX.test(authorization.instanceUrl ?? '')) {
+        return 'Sandbox';
+    }
+    return 'Production';
+}
+
+/**
+ * Get the name an org is known by: its first alias, else its username
+ */
+export function getOrgLabel(authorization: OrgAuthorization): string {
+    return authorization.aliases?.[0] ?? authorization.username;
+}
+
+/**
+ * Get why an org cannot be connected to
+ * @returns The problem, or null if the authorization looks usable
+ */
+export function getOrgProblem(authorization: OrgAuthorization): string | null {
+    if (authorization.error) {
+        return authorization.error;
+    }
+    return authorization.isExpired === true ? 'Authorization expired' : null;
+}
+
+/**
+ * Sort orgs by the name they are known by
+ */
+export function sortOrgs(authorizations: OrgAuthorization[]): OrgAuthorization[] {
+    return [...authorizations].sort((a, b) => getOrgLabel(a).localeCompare(getOrgLabel(b)));
+}
@@ -1,6 +1,8 @@
 import * as vscode from 'vscode';
 import { WebviewUtils } from '../../utils/webview';
+import { getProjectFolder } from '../../utils/projectFolders';
 import { Logger } from '../../utils/logger';
+import { SFUtils } from '../../utils/sfutils';
 import { handleDebugLogWebviewCommand } from '../debugLogs/commands';
 import { configureWebviewForServer } from '../../utils/webviewUtils';
 
@@ -41,6 +43,11 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
             vscode.commands.registerCommand('salesforceMultitools.sidebar.setComponent', (componentName: string) => {
                 provider.setActiveComponent(componentName);
             }),
+
+            // Reload the active component when the connection switches to another org
+            SFUtils.onDidChangeConnection((username) => {
+                provider._sendMessage({ command: 'orgChanged', data: { username } });
+            }),
         ];
 
         vscode.window.onDidChangeActiveColorTheme((theme) => {
@@ -203,8 +210,8 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
             return;
         }
 
-        // Get the workspace folder
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        // Get the project folder of the active file
+        const workspaceFolder = getProjectFolder()?.uri.fsPath;
 
         // Send initial data
         this._sendMessage({
@@ -0,0 +1,53 @@
+import * as assert from 'assert';
+import { getAnonymousApexProblems } from '../features/anonymousApex/anonymousApexProblems';
+import { AnonymousApexResult } from '../features/anonymousApex/anonymousApexTypes';
+
+const SUCCESS: AnonymousApexResult = {
+    compiled: true,
+    success: true,
+    compileProblem: null,
+    exceptionMessage: null,
+    exceptionStackTrace: null,
+    line: -1,
+    column: -1,
+    logId: '07L000000000001AAA',
+};
+
+suite('Anonymous Apex Problems Test Suite', () => {
+    test('reports nothing for a successful run', () => {
+        assert.deepStrictEqual(getAnonymousApexProblems(SUCCESS), []);
+    });
+
+    test('positions compile problems where the compiler reports them', () => {
+        const result = {
+            ...SUCCESS,
+            compiled: false,
+            success: false,
+            line: 2,
+            column: 13,
+            compileProblem: 'Unexpected token',
+        };
+        assert.deepStrictEqual(getAnonymousApexProblems(result), [
+            { kind: 'compile', message: 'Unexpected token', line: 2, column: 13 },
+        ]);
+    });
+
+    test('positions uncaught exceptions at the last frame of the executed code', () => {
+        const result = {
+            ...SUCCESS,
+            success: false,
+            line: 1,
+            column: 1,
+            exceptionMessage: 'System.NullPointerException: Attempt to de-reference a null object',
+            exceptionStackTrace: 'Class.AccountService.load: line 12, column 1\nAnonymousBlock: line 4, column 1',
+        };
+        assert.deepStrictEqual(getAnonymousApexProblems(result), [
+            {
+                kind: 'runtime',
+                message: 'System.NullPointerException: Attempt to de-reference a null object',
+                line: 4,
+                column: 1,
+            },
+        ]);
+    });
+});
@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import { parseApexLog } from '../features/debugLogs/apexLogParser';
+import { buildLogOutline, computeFoldingRanges, getClosingEventType } from '../features/debugLogs/apexLogOutline';
+
+const SAMPLE_LOG = [
+    '59.0 APEX_CODE,FINEST',
+    '00:30:22.117 (100)|EXECUTION_STARTED',
+    '00:30:22.117 (200)|CODE_UNIT_STARTED|[EXTERNAL]|01q5f000002NEFh|Account on Account trigger event AfterInsert|__sfdc_trigger/Account',
+    '00:30:22.117 (300)|METHOD_ENTRY|[3]|01p6T000003kGEp|AccountHandler.afterInsert()',
+    '00:30:22.117 (400)|SOQL_EXECUTE_BEGIN|[12]|Aggregations:0|SELECT Id FROM Contact',
+    '00:30:22.117 (500)|METHOD_ENTRY|[13]|01p6T000003kGEp|AccountHandler.notify()',
+    '00:30:22.117 (600)|SOQL_EXECUTE_END|[12]|Rows:5',
+    '00:30:22.117 (700)|METHOD_EXIT|[3]|01p6T000003kGEp|AccountHandler.afterInsert()',
+    '00:30:22.117 (800)|CODE_UNIT_FINISHED|Account on Account trigger event AfterInsert|__sfdc_trigger/Account',
+    '00:30:22.117 (900)|CUMULATIVE_LIMIT_USAGE',
+    '00:30:22.117 (1000)|CUMULATIVE_LIMIT_USAGE_END',
+    '00:30:22.117 (1100)|EXECUTION_FINISHED',
+].join('\n');
+
+suite('Apex Log Outline Test Suite', () => {
+    test('pairs opening and closing event types', () => {
+        assert.strictEqual(getClosingEventType('SOQL_EXECUTE_BEGIN'), 'SOQL_EXECUTE_END');
+        assert.strictEqual(getClosingEventType('METHOD_ENTRY'), 'METHOD_EXIT');
+        assert.strictEqual(getClosingEventType('CODE_UNIT_STARTED'), 'CODE_UNIT_FINISHED');
+        assert.strictEqual(getClosingEventType('VF_APEX_CALL_START'), 'VF_APEX_CALL_END');
+        assert.strictEqual(getClosingEventType('CUMULATIVE_LIMIT_USAGE'), 'CUMULATIVE_LIMIT_USAGE_END');
+        assert.strictEqual(getClosingEventType('USER_DEBUG'), null);
+    });
+
+    test('folds matching pairs and skips unmatched entries', () => {
+        assert.deepStrictEqual(computeFoldingRanges(SAMPLE_LOG.split('\n')), [
+            { start: 1, end: 11 },
+            { start: 2, end: 8 },
+            { start: 3, end: 7 },
+            { start: 4, end: 6 },
+            { start: 9, end: 10 },
+        ]);
+    });
+
+    test('outlines code units and methods', () => {
+        const outline = buildLogOutline(parseApexLog(SAMPLE_LOG));
+
+        assert.strictEqual(outline.length, 1);
+        assert.strictEqual(outline[0].kind, 'codeUnit');
+        assert.strictEqual(outline[0].startLine, 2);
+        assert.strictEqual(outline[0].endLine, 8);
+
+        const handler = outline[0].children[0];
+        assert.strictEqual(handler.kind, 'method');
+        assert.strictEqual(handler.name, 'AccountHandler.afterInsert()');
+        assert.deepStrictEqual([handler.startLine, handler.endLine], [3, 7]);
+        // Methods inside a SOQL node still appear under the enclosing method
+        assert.strictEqual(handler.children[0].name, 'AccountHandler.notify()');
+    });
+});
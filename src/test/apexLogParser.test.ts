@@ -0,0 +1,138 @@
+import * as assert from 'assert';
+import {
+    extractLimitUsage,
+    extractLogErrors,
+    extractMethodName,
+    NO_METHOD_NAME_FOUND,
+    parseApexLog,
+    summarizeLimits,
+} from '../features/debugLogs/apexLogParser';
+
+const SAMPLE_LOG = [
+    '59.0 APEX_CODE,FINEST;APEX_PROFILING,INFO;DB,INFO',
+    '00:30:22.117 (100)|EXECUTION_STARTED',
+    '00:30:22.117 (200)|CODE_UNIT_STARTED|[EXTERNAL]|01q5f000002NEFh|Opportunity on Opportunity trigger event BeforeUpdate|__sfdc_trigger/Opportunity',
+    '00:30:22.117 (300)|METHOD_ENTRY|[20]|01p6T000003kGEp|OpportunityHandler.run()',
+    '00:30:22.117 (400)|SOQL_EXECUTE_BEGIN|[12]|Aggregations:0|SELECT Id FROM Account',
+    '00:30:22.117 (900)|SOQL_EXECUTE_END|[12]|Rows:5',
+    '00:30:22.117 (1000)|USER_DEBUG|[14]|DEBUG|first line',
+    'second line',
+    '00:30:22.117 (1100)|DML_BEGIN|[15]|Op:Update|Type:Account|Rows:5',
+    '00:30:22.117 (1500)|DML_END|[15]',
+    '00:30:22.117 (1600)|EXCEPTION_THROWN|[16]|System.NullPointerException: Attempt to de-reference a null object',
+    '00:30:22.117 (2000)|CODE_UNIT_FINISHED|Opportunity on Opportunity trigger event BeforeUpdate|__sfdc_trigger/Opportunity',
+    '00:30:22.117 (2100)|CUMULATIVE_LIMIT_USAGE',
+    '00:30:22.117 (2100)|LIMIT_USAGE_FOR_NS|(default)|',
+    '  Number of SOQL queries: 1 out of 100',
+    '  Maximum CPU time: 12 out of 10000',
+    '00:30:22.117 (2200)|CUMULATIVE_LIMIT_USAGE_END',
+    '00:30:22.117 (2300)|EXECUTION_FINISHED',
+].join('\n');
+
+suite('Apex Log Parser Test Suite', () => {
+    test('parses the header line', () => {
+        const parsed = parseApexLog(SAMPLE_LOG);
+        assert.strictEqual(parsed.header.apiVersion, '59.0');
+        assert.strictEqual(parsed.header.logLevels['APEX_CODE'], 'FINEST');
+    });
+
+    test('parses typed events with nanosecond timestamps', () => {
+        const parsed = parseApexLog(SAMPLE_LOG);
+        const soql = parsed.events.find((e) => e.kind === 'soqlBegin')!;
+        assert.strictEqual(soql.statement, 'SELECT Id FROM Account');
+        assert.strictEqual(soql.sourceLine, 12);
+        assert.strictEqual(soql.nanos, 400);
+
+        const dml = parsed.events.find((e) => e.kind === 'dmlBegin')!;
+        assert.strictEqual(dml.operation, 'Update');
+        assert.strictEqual(dml.objectType, 'Account');
+        assert.strictEqual(dml.rows, 5);
+
+        const debug = parsed.events.find((e) => e.kind === 'userDebug')!;
+        assert.strictEqual(debug.message, 'first line\nsecond line');
+
+        const limits = parsed.events.find((e) => e.kind === 'limitUsage')!;
+        assert.deepStrictEqual(limits.limits, [
+            { name: 'Number of SOQL queries', used: 1, max: 100 },
+            { name: 'Maximum CPU time', used: 12, max: 10000 },
+        ]);
+    });
+
+    test('builds a nested call tree and closes unmatched entries', () => {
+        const parsed = parseApexLog(SAMPLE_LOG);
+        const execution = parsed.root.children[0];
+        assert.strictEqual(execution.kind, 'execution');
+
+        const codeUnit = execution.children[0];
+        assert.strictEqual(codeUnit.name, 'Opportunity on Opportunity trigger event BeforeUpdate');
+        assert.strictEqual(codeUnit.durationNanos, 1800);
+
+        // METHOD_EXIT is missing, so the method is closed together with its code unit
+        const method = codeUnit.children[0];
+        assert.strictEqual(method.name, 'OpportunityHandler.run()');
+        assert.strictEqual(method.endNanos, 2000);
+        assert.strictEqual(method.endLine, null);
+
+        const [soql, dml] = method.children;
+        assert.strictEqual(soql.kind, 'soql');
+        assert.strictEqual(soql.rows, 5);
+        assert.strictEqual(soql.durationNanos, 500);
+        assert.strictEqual(dml.name, 'Update Account');
+        assert.strictEqual(parsed.totalNanos, 2300);
+    });
+
+    test('extracts the primary method name', () => {
+        assert.strictEqual(extractMethodName(SAMPLE_LOG), 'Opportunity on Opportunity trigger event BeforeUpdate');
+        assert.strictEqual(
+            extractMethodName('00:22:14.7 (2161081130)|METHOD_ENTRY|[76]||System.Pattern.compile(String)'),
+            NO_METHOD_NAME_FOUND,
+        );
+    });
+
+    test('summarizes governor limit usage', () => {
+        const events = extractLimitUsage(SAMPLE_LOG);
+        assert.strictEqual(events.length, 1);
+
+        const summary = summarizeLimits(events);
+        assert.deepStrictEqual(summary.soqlQueries, { name: 'Number of SOQL queries', used: 1, max: 100 });
+        assert.deepStrictEqual(summary.cpuTime, { name: 'Maximum CPU time', used: 12, max: 10000 });
+        assert.strictEqual(summary.dmlRows, null);
+        assert.deepStrictEqual(summarizeLimits(parseApexLog(SAMPLE_LOG).events), summary);
+    });
+
+    test('extracts exceptions, fatal errors and validation failures', () => {
+        const errors = extractLogErrors(
+            [
+                '00:30:22.117 (100)|EXCEPTION_THROWN|[16]|System.NullPointerException: Attempt to de-reference a null object',
+                '00:30:22.117 (200)|VALIDATION_RULE|03d5f000000Abcd|Require_Close_Reason',
+                '00:30:22.117 (300)|VALIDATION_FAIL',
+                '00:30:22.117 (400)|FATAL_ERROR|System.DmlException: Insert failed',
+                '',
+                'Class.AccountService.save: line 16, column 1',
+                '00:30:22.117 (500)|CODE_UNIT_FINISHED|AccountService',
+            ].join('\n'),
+        );
+
+        assert.deepStrictEqual(errors, [
+            {
+                type: 'EXCEPTION_THROWN',
+                message: 'System.NullPointerException: Attempt to de-reference a null object',
+                lineNumber: 1,
+                sourceLine: 16,
+            },
+            {
+                type: 'VALIDATION_FAIL',
+                message: 'Validation rule failed: Require_Close_Reason',
+                lineNumber: 3,
+                sourceLine: null,
+            },
+            {
+                type: 'FATAL_ERROR',
+                message: 'System.DmlException: Insert failed\n\nClass.AccountService.save: line 16, column 1',
+                lineNumber: 4,
+                sourceLine: null,
+            },
+        ]);
+        assert.strictEqual(extractLogErrors(SAMPLE_LOG).length, 1);
+    });
+});
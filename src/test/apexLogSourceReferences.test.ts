@@ -0,0 +1,53 @@
+import * as assert from 'assert';
+import { findSourceReferences } from '../features/debugLogs/apexLogSourceReferences';
+
+const SAMPLE_LINES = [
+    '59.0 APEX_CODE,FINEST',
+    '00:30:22.117 (200)|CODE_UNIT_STARTED|[EXTERNAL]|01q5f000002NEFh|Account on Account trigger event AfterInsert|__sfdc_trigger/AccountTrigger',
+    '00:30:22.117 (300)|STATEMENT_EXECUTE|[3]',
+    '00:30:22.117 (400)|METHOD_ENTRY|[4]|01p6T000003kGEp|AccountHandler.afterInsert(List<Account>)',
+    '00:30:22.117 (500)|STATEMENT_EXECUTE|[42]',
+    '00:30:22.117 (600)|METHOD_ENTRY|[43]||System.Pattern.compile(String)',
+    '00:30:22.117 (700)|METHOD_EXIT|[43]||System.Pattern.compile(String)',
+    '00:30:22.117 (800)|METHOD_EXIT|[4]|01p6T000003kGEp|AccountHandler|AccountHandler.afterInsert(List<Account>)',
+    '00:30:22.117 (900)|CODE_UNIT_FINISHED|Account on Account trigger event AfterInsert|__sfdc_trigger/AccountTrigger',
+    '00:30:22.117 (1000)|STATEMENT_EXECUTE|[7]',
+];
+
+suite('Apex Log Source References Test Suite', () => {
+    test('links line markers to the class or trigger running at that point', () => {
+        const references = findSourceReferences(SAMPLE_LINES).filter((r) => r.target.line !== null);
+
+        assert.deepStrictEqual(
+            references.map((r) => [r.line, r.target.type, r.target.name, r.target.line]),
+            [
+                [2, 'ApexTrigger', 'AccountTrigger', 3],
+                [3, 'ApexTrigger', 'AccountTrigger', 4],
+                [4, 'ApexClass', 'AccountHandler', 42],
+                [5, 'ApexClass', 'AccountHandler', 43],
+                [6, 'ApexClass', 'AccountHandler', 43],
+                [7, 'ApexTrigger', 'AccountTrigger', 4],
+            ],
+        );
+
+        // The span covers the [NN] marker
+        const marker = references[2];
+        assert.strictEqual(SAMPLE_LINES[marker.line].slice(marker.startColumn, marker.endColumn), '[42]');
+    });
+
+    test('links called methods to their class', () => {
+        const methods = findSourceReferences(SAMPLE_LINES).filter((r) => r.target.methodName !== null);
+
+        assert.strictEqual(methods.length, 1);
+        assert.deepStrictEqual(methods[0].target, {
+            type: 'ApexClass',
+            name: 'AccountHandler',
+            line: null,
+            methodName: 'afterInsert',
+        });
+        assert.strictEqual(
+            SAMPLE_LINES[3].slice(methods[0].startColumn, methods[0].endColumn),
+            'AccountHandler.afterInsert',
+        );
+    });
+});
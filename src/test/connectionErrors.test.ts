@@ -0,0 +1,34 @@
+import * as assert from 'assert';
+import { describeConnectionError, isOrgUnreachableError, isSessionExpiredError } from '../utils/connectionErrors';
+
+suite('Connection Errors Test Suite', () => {
+    test('detects expired sessions from jsforce, REST and plain errors', () => {
+        const jsforceError = Object.assign(new Error('Session expired or invalid'), {
+            name: 'INVALID_SESSION_ID',
+            errorCode: 'INVALID_SESSION_ID',
+        });
+        assert.strictEqual(isSessionExpiredError(jsforceError), true);
+        assert.strictEqual(isSessionExpiredError({ errorCode: 'ERROR_HTTP_401' }), true);
+        assert.strictEqual(isSessionExpiredError({ statusCode: 401, message: 'Unauthorized' }), true);
+        assert.strictEqual(isSessionExpiredError(new Error('INVALID_SESSION_ID: Session expired')), true);
+    });
+
+    test('does not treat other failures as expired sessions', () => {
+        assert.strictEqual(isSessionExpiredError(new Error("MALFORMED_QUERY: unexpected token: 'FORM'")), false);
+        assert.strictEqual(isSessionExpiredError({ statusCode: 500 }), false);
+        assert.strictEqual(isSessionExpiredError(undefined), false);
+    });
+
+    test('detects unreachable orgs, also when the network error is wrapped', () => {
+        assert.strictEqual(isOrgUnreachableError({ code: 'ENOTFOUND' }), true);
+        assert.strictEqual(isOrgUnreachableError(new Error('fetch failed', { cause: { code: 'ECONNREFUSED' } })), true);
+        assert.strictEqual(isOrgUnreachableError(new Error('INVALID_SESSION_ID')), false);
+        assert.strictEqual(isOrgUnreachableError(null), false);
+    });
+
+    test('describes connection problems in words and keeps other messages', () => {
+        assert.strictEqual(describeConnectionError({ errorCode: 'INVALID_SESSION_ID' }), 'Salesforce session expired');
+        assert.strictEqual(describeConnectionError({ code: 'ENOTFOUND' }), 'Salesforce org unreachable');
+        assert.strictEqual(describeConnectionError(new Error('No such column')), 'No such column');
+    });
+});
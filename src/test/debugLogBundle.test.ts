@@ -0,0 +1,63 @@
+import * as assert from 'assert';
+import {
+    BUNDLE_FORMAT,
+    BUNDLE_VERSION,
+    DebugLogBundle,
+    parseBundle,
+    serializeBundle,
+} from '../features/debugLogs/debugLogBundle';
+
+const BUNDLE: DebugLogBundle = {
+    manifest: {
+        type: 'manifest',
+        format: BUNDLE_FORMAT,
+        version: BUNDLE_VERSION,
+        exportedAt: '2024-06-30T10:00:00.000Z',
+        org: { instanceUrl: 'https://acme.my.salesforce.com', orgId: '00D000000000001', username: 'dev@acme.com' },
+        logCount: 1,
+    },
+    logs: [
+        {
+            type: 'log',
+            metadata: {
+                id: '07L000000000001AAA',
+                userName: 'Community User',
+                operation: '/apex/Portal',
+                application: 'Browser',
+                status: 'Success',
+                startTime: '2024-06-30T09:00:00.000Z',
+                requestIdentifier: null,
+                logLength: 24,
+                methodName: 'PortalController.load',
+                downloadedAt: '2024-06-30T09:30:00.000Z',
+            },
+            org: 'acme.my.salesforce.com',
+            limits: { soqlQueries: null, dmlRows: null, cpuTime: null, heapSize: null, limits: [] },
+            content: '59.0 APEX_CODE,FINEST\nline two',
+        },
+    ],
+};
+
+suite('Debug Log Bundle Test Suite', () => {
+    test('round-trips a bundle through NDJSON', () => {
+        const text = serializeBundle(BUNDLE);
+
+        assert.strictEqual(text.trim().split('\n').length, 2);
+        assert.deepStrictEqual(parseBundle(text), BUNDLE);
+    });
+
+    test('rejects files that are not bundles', () => {
+        assert.throws(() => parseBundle(''), /empty/);
+        assert.throws(() => parseBundle('{"type":"manifest","format":"other"}'), /Not a debug log bundle/);
+        assert.throws(() => parseBundle(serializeBundle(BUNDLE) + '{oops\n'), /Line 3 .* not valid JSON/);
+
+        const badId = {
+            ...BUNDLE,
+            logs: [{ ...BUNDLE.logs[0], metadata: { ...BUNDLE.logs[0].metadata, id: '../x' } }],
+        };
+        assert.throws(() => parseBundle(serializeBundle(badId)), /Line 2 .* not a valid log/);
+
+        const badOrg = { ...BUNDLE, logs: [{ ...BUNDLE.logs[0], org: '../../outside' }] };
+        assert.throws(() => parseBundle(serializeBundle(badOrg)), /Line 2 .* not a valid log/);
+    });
+});
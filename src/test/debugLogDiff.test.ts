@@ -0,0 +1,52 @@
+import * as assert from 'assert';
+import { parseApexLog } from '../features/debugLogs/apexLogParser';
+import { diffApexLogs, normalizeNodeName } from '../features/debugLogs/debugLogDiff';
+
+const ADMIN_LOG = [
+    '59.0 APEX_CODE,FINEST',
+    '10:00:00.1 (100)|CODE_UNIT_STARTED|[EXTERNAL]|01p000000000001|AccountController.load',
+    '10:00:00.1 (200)|SOQL_EXECUTE_BEGIN|[10]|Aggregations:0|SELECT Id FROM Account',
+    '10:00:00.1 (300)|SOQL_EXECUTE_END|[10]|Rows:3',
+    '10:00:00.1 (400)|DML_BEGIN|[12]|Op:Update|Type:Account|Rows:3',
+    '10:00:00.1 (500)|DML_END|[12]',
+    '10:00:00.1 (600)|CODE_UNIT_FINISHED|AccountController.load',
+    '10:00:00.1 (700)|LIMIT_USAGE_FOR_NS|(default)|',
+    '  Number of SOQL queries: 1 out of 100',
+].join('\n');
+
+const COMMUNITY_LOG = [
+    '59.0 APEX_CODE,FINEST',
+    '11:30:00.9 (1000)|CODE_UNIT_STARTED|[EXTERNAL]|01p000000000001|AccountController.load',
+    '11:30:00.9 (2000)|SOQL_EXECUTE_BEGIN|[10]|Aggregations:0|SELECT Id FROM Account',
+    '11:30:00.9 (3000)|SOQL_EXECUTE_END|[10]|Rows:0',
+    '11:30:00.9 (3500)|EXCEPTION_THROWN|[11]|System.QueryException',
+    '11:30:00.9 (4000)|CODE_UNIT_FINISHED|AccountController.load',
+    '11:30:00.9 (5000)|LIMIT_USAGE_FOR_NS|(default)|',
+    '  Number of SOQL queries: 1 out of 100',
+].join('\n');
+
+suite('Debug Log Diff Test Suite', () => {
+    test('removes heap addresses from names', () => {
+        assert.strictEqual(normalizeNodeName('Foo.bar(0x3f2a9c)  '), 'Foo.bar(0x?)');
+    });
+
+    test('compares operations regardless of timestamps', () => {
+        const diff = diffApexLogs(parseApexLog(ADMIN_LOG), parseApexLog(COMMUNITY_LOG));
+        const byName = (name: string) => diff.entries.find((e) => e.name === name)!;
+
+        assert.strictEqual(byName('Update Account').status, 'onlyLeft');
+        assert.strictEqual(byName('SELECT Id FROM Account').status, 'changed');
+        assert.strictEqual(byName('SELECT Id FROM Account').left!.rows, 3);
+        assert.strictEqual(byName('SELECT Id FROM Account').right!.rows, 0);
+        assert.strictEqual(byName('AccountController.load').status, 'same');
+        assert.strictEqual(diff.entries[0].status, 'onlyLeft');
+
+        assert.deepStrictEqual(diff.limits, [
+            {
+                name: 'Number of SOQL queries',
+                left: { name: 'Number of SOQL queries', used: 1, max: 100 },
+                right: { name: 'Number of SOQL queries', used: 1, max: 100 },
+            },
+        ]);
+    });
+});
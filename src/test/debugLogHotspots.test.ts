@@ -0,0 +1,82 @@
+import * as assert from 'assert';
+import { parseApexLog } from '../features/debugLogs/apexLogParser';
+import { findHotspots, normalizeStatement } from '../features/debugLogs/debugLogHotspots';
+
+function buildLog(): string {
+    const lines = [
+        '59.0 APEX_CODE,FINEST',
+        '10:00:00.1 (100)|CODE_UNIT_STARTED|[EXTERNAL]|01q000000000001|ContactTrigger on Contact trigger event AfterInsert',
+        '10:00:00.1 (150)|METHOD_ENTRY|[3]|01p000000000001|ContactHandler.afterInsert()',
+    ];
+    for (let i = 0; i < 6; i++) {
+        const t = 200 + i * 100;
+        lines.push(
+            `10:00:00.1 (${t})|SOQL_EXECUTE_BEGIN|[21]|Aggregations:0|SELECT Id FROM Account WHERE Id = '00100000000000${i}'`,
+            `10:00:00.1 (${t + 50})|SOQL_EXECUTE_END|[21]|Rows:1`,
+        );
+    }
+    lines.push(
+        "10:00:00.1 (900)|SOQL_EXECUTE_BEGIN|[40]|Aggregations:0|SELECT Id FROM Account WHERE Id = 'x'",
+        '10:00:00.1 (950)|SOQL_EXECUTE_END|[40]|Rows:1',
+        '10:00:00.1 (960)|DML_BEGIN|[45]|Op:Update|Type:Account|Rows:6',
+        '10:00:00.1 (990)|DML_END|[45]',
+        '10:00:00.1 (1000)|METHOD_EXIT|[3]|01p000000000001|ContactHandler.afterInsert()',
+        '10:00:00.1 (1100)|CODE_UNIT_FINISHED|ContactTrigger on Contact trigger event AfterInsert',
+    );
+    return lines.join('\n');
+}
+
+suite('Debug Log Hotspots Test Suite', () => {
+    test('normalizes literal values in statements', () => {
+        assert.strictEqual(
+            normalizeStatement(
+                "SELECT Id FROM Contact WHERE Name = 'O\\'Brien' AND Age > 30 AND Id IN ('a', 'b') LIMIT 5",
+            ),
+            'SELECT Id FROM Contact WHERE Name = ? AND Age > ? AND Id IN (?) LIMIT ?',
+        );
+        assert.strictEqual(
+            normalizeStatement('SELECT Id FROM Account WHERE Id = :accountId'),
+            'SELECT Id FROM Account WHERE Id = :accountId',
+        );
+    });
+
+    test('groups by call site and flags statements repeated inside loops', () => {
+        const report = findHotspots(parseApexLog(buildLog()));
+
+        const loop = report.callSites[0];
+        assert.strictEqual(loop.statement, 'SELECT Id FROM Account WHERE Id = ?');
+        assert.strictEqual(loop.sourceLine, 21);
+        assert.strictEqual(loop.method, 'ContactHandler.afterInsert()');
+        assert.strictEqual(loop.count, 6);
+        assert.strictEqual(loop.rows, 6);
+        assert.strictEqual(loop.totalNanos, 300);
+        assert.strictEqual(loop.inLoop, true);
+
+        const single = report.callSites.find((s) => s.sourceLine === 40)!;
+        assert.strictEqual(single.inLoop, false);
+
+        const dml = report.callSites.find((s) => s.kind === 'dml')!;
+        assert.strictEqual(dml.statement, 'Update Account');
+        assert.strictEqual(dml.rows, 6);
+    });
+
+    test('groups by statement across call sites', () => {
+        const report = findHotspots(parseApexLog(buildLog()));
+
+        assert.strictEqual(report.statements.length, 2);
+        assert.deepStrictEqual(
+            { ...report.statements[0] },
+            {
+                kind: 'soql',
+                statement: 'SELECT Id FROM Account WHERE Id = ?',
+                sourceLine: null,
+                method: null,
+                count: 7,
+                rows: 7,
+                totalNanos: 350,
+                callSites: 2,
+                inLoop: true,
+            },
+        );
+    });
+});
@@ -0,0 +1,80 @@
+import * as assert from 'assert';
+import {
+    buildDebugLogQuery,
+    decodeCursor,
+    encodeCursor,
+    escapeSoqlString,
+    isSalesforceId,
+    parseDebugLogQueryParams,
+    toDebugLogPage,
+} from '../features/debugLogs/debugLogQuery';
+
+suite('Debug Log Query Test Suite', () => {
+    test('escapes quotes and backslashes in string literals', () => {
+        assert.strictEqual(escapeSoqlString("O'Brien"), "O\\'Brien");
+        assert.strictEqual(escapeSoqlString("x\\' OR Name != '"), "x\\\\\\' OR Name != \\'");
+    });
+
+    test('accepts only 15 and 18 character IDs', () => {
+        assert.strictEqual(isSalesforceId('07L000000000001'), true);
+        assert.strictEqual(isSalesforceId('07L000000000001AAA'), true);
+        assert.strictEqual(isSalesforceId('07L0000000000001'), false);
+        assert.strictEqual(isSalesforceId("07L000000000001' OR Id != '"), false);
+        assert.strictEqual(isSalesforceId(undefined), false);
+    });
+
+    test('builds filters into the WHERE clause', () => {
+        const query = buildDebugLogQuery({
+            userName: "Jane O'Brien",
+            operation: '100%_api',
+            startTimeFrom: '2024-01-31T10:15:00.000Z',
+            minLength: 1024,
+            limit: 50,
+        });
+
+        assert.ok(query.includes("LogUser.Name = 'Jane O\\'Brien'"));
+        assert.ok(query.includes("Operation LIKE '%100\\%\\_api%'"));
+        assert.ok(query.includes('StartTime >= 2024-01-31T10:15:00Z'));
+        assert.ok(query.includes('LogLength > 1024'));
+        assert.ok(query.endsWith('ORDER BY StartTime DESC, Id DESC LIMIT 51'));
+    });
+
+    test('rejects invalid dates and cursors', () => {
+        assert.throws(() => buildDebugLogQuery({ startTimeTo: 'yesterday' }), /Invalid date/);
+        assert.throws(() => decodeCursor('not-a-cursor'), /Invalid cursor/);
+        assert.throws(
+            () => buildDebugLogQuery({ cursor: { startTime: '2024-01-31T10:15:00Z', id: "x' OR Id != '" } }),
+            /Invalid cursor ID/,
+        );
+    });
+
+    test('pages with a cursor after the last record', () => {
+        const records = [
+            { Id: '07L000000000003AAA', StartTime: '2024-01-31T10:15:02.000+0000' },
+            { Id: '07L000000000002AAA', StartTime: '2024-01-31T10:15:01.000+0000' },
+            { Id: '07L000000000001AAA', StartTime: '2024-01-31T10:15:00.000+0000' },
+        ];
+
+        const page = toDebugLogPage(records, 2);
+        assert.strictEqual(page.records.length, 2);
+        assert.deepStrictEqual(decodeCursor(page.nextCursor!), {
+            startTime: '2024-01-31T10:15:01.000+0000',
+            id: '07L000000000002AAA',
+        });
+        assert.strictEqual(toDebugLogPage(records, 3).nextCursor, null);
+
+        const query = buildDebugLogQuery(parseDebugLogQueryParams({ cursor: page.nextCursor!, limit: '2' }));
+        assert.ok(
+            query.includes(
+                "(StartTime < 2024-01-31T10:15:01Z OR (StartTime = 2024-01-31T10:15:01Z AND Id < '07L000000000002AAA'))",
+            ),
+        );
+    });
+
+    test('maps the legacy size filter and ignores the all users filter', () => {
+        const options = parseDebugLogQueryParams({ user: 'all', size: '500', sizeDirection: 'below' });
+        assert.strictEqual(options.userName, undefined);
+        assert.strictEqual(options.maxLength, 500);
+        assert.strictEqual(encodeCursor({ startTime: 'a', id: 'b' }).includes('='), false);
+    });
+});
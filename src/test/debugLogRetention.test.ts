@@ -0,0 +1,40 @@
+import * as assert from 'assert';
+import { RetainedLog, selectLogsToEvict } from '../features/debugLogs/debugLogRetention';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2024, 5, 30);
+
+function log(id: string, ageDays: number, accessedDaysAgo: number, size = 100, pinned = false): RetainedLog {
+    return {
+        id,
+        size,
+        downloadedAt: NOW - ageDays * DAY_MS,
+        lastAccessedAt: NOW - accessedDaysAgo * DAY_MS,
+        pinned,
+    };
+}
+
+suite('Debug Log Retention Test Suite', () => {
+    test('removes logs older than the maximum age, except pinned ones', () => {
+        const logs = [log('old', 40, 1), log('pinned', 40, 40, 100, true), log('new', 2, 2)];
+        assert.deepStrictEqual(selectLogsToEvict(logs, { maxAgeDays: 30, maxTotalBytes: 0, maxFiles: 0 }, NOW), [
+            'old',
+        ]);
+    });
+
+    test('removes least recently used logs until the quotas are met', () => {
+        const logs = [log('a', 5, 1, 300), log('b', 5, 4, 300), log('c', 5, 3, 300), log('d', 5, 9, 300, true)];
+
+        // 1200 bytes cached; the pinned log is the oldest but must stay
+        assert.deepStrictEqual(selectLogsToEvict(logs, { maxAgeDays: 0, maxTotalBytes: 700, maxFiles: 0 }, NOW), [
+            'b',
+            'c',
+        ]);
+        assert.deepStrictEqual(selectLogsToEvict(logs, { maxAgeDays: 0, maxTotalBytes: 0, maxFiles: 3 }, NOW), ['b']);
+    });
+
+    test('keeps everything when no limit is set', () => {
+        const logs = [log('a', 400, 400, 1e9)];
+        assert.deepStrictEqual(selectLogsToEvict(logs, { maxAgeDays: 0, maxTotalBytes: 0, maxFiles: 0 }, NOW), []);
+    });
+});
@@ -0,0 +1,95 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    createSearchMatcher,
+    DEFAULT_MAX_RESULTS,
+    getMaxResults,
+    searchLogContent,
+    searchLogFile,
+} from '../features/debugLogs/debugLogSearch';
+
+const SAMPLE_LOG = [
+    '59.0 APEX_CODE,FINEST',
+    '00:30:22.117 (100)|USER_DEBUG|[14]|DEBUG|Processing account 001',
+    'continued with Account details',
+    '00:30:22.117 (200)|SOQL_EXECUTE_BEGIN|[12]|Aggregations:0|SELECT Id FROM Account',
+    '00:30:22.117 (300)|EXCEPTION_THROWN|[16]|System.NullPointerException',
+    '00:30:22.117 (400)|USER_DEBUG|[20]|DEBUG|done',
+].join('\n');
+
+suite('Debug Log Search Test Suite', () => {
+    test('finds plain text case-insensitively with context', () => {
+        const options = { query: 'account', contextLines: 1 };
+        const matches = searchLogContent(SAMPLE_LOG, createSearchMatcher(options), options);
+
+        assert.deepStrictEqual(
+            matches.map((m) => m.lineNumber),
+            [2, 3, 4],
+        );
+        assert.deepStrictEqual(matches[0].before, ['59.0 APEX_CODE,FINEST']);
+        assert.deepStrictEqual(matches[0].after, ['continued with Account details']);
+    });
+
+    test('restricts matches to event types, including continuation lines', () => {
+        const options = { query: 'account', eventTypes: ['user_debug'] };
+        const matches = searchLogContent(SAMPLE_LOG, createSearchMatcher(options), options);
+
+        assert.deepStrictEqual(
+            matches.map((m) => [m.lineNumber, m.eventType]),
+            [
+                [2, 'USER_DEBUG'],
+                [3, 'USER_DEBUG'],
+            ],
+        );
+    });
+
+    test('supports regular expressions and result limits', () => {
+        const options = { query: 'System\\.\\w+Exception', regex: true, caseSensitive: true };
+        const matches = searchLogContent(SAMPLE_LOG, createSearchMatcher(options), options);
+        assert.strictEqual(matches.length, 1);
+        assert.strictEqual(matches[0].eventType, 'EXCEPTION_THROWN');
+
+        const limited = { query: 'USER_DEBUG' };
+        assert.strictEqual(searchLogContent(SAMPLE_LOG, createSearchMatcher(limited), limited, 1).length, 1);
+    });
+
+    test('keeps the context after the last match when the limit is reached', () => {
+        const options = { query: 'account', contextLines: 1 };
+        const matches = searchLogContent(SAMPLE_LOG, createSearchMatcher(options), options, 1);
+        assert.strictEqual(matches.length, 1);
+        assert.deepStrictEqual(matches[0].after, ['continued with Account details']);
+    });
+
+    test('caps the number of results', () => {
+        assert.strictEqual(getMaxResults({ query: 'x' }), DEFAULT_MAX_RESULTS);
+        assert.strictEqual(getMaxResults({ query: 'x', maxResults: 10 }), 10);
+        assert.strictEqual(getMaxResults({ query: 'x', maxResults: 1e9 }), DEFAULT_MAX_RESULTS);
+        assert.strictEqual(getMaxResults({ query: 'x', maxResults: -1 }), DEFAULT_MAX_RESULTS);
+    });
+
+    test('searches log files line by line like log content', async () => {
+        const filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'log-search-')), 'test.log');
+        fs.writeFileSync(filePath, SAMPLE_LOG.replace(/\n/g, '\r\n'));
+        try {
+            const options = { query: 'account', contextLines: 1 };
+            const matcher = createSearchMatcher(options);
+            assert.deepStrictEqual(
+                await searchLogFile(filePath, matcher, options),
+                searchLogContent(SAMPLE_LOG, matcher, options),
+            );
+        } finally {
+            fs.rmSync(path.dirname(filePath), { recursive: true, force: true });
+        }
+    });
+
+    test('rejects empty queries and invalid regular expressions', () => {
+        assert.throws(() => createSearchMatcher({ query: '' }), /required/);
+        assert.throws(() => createSearchMatcher({ query: '(', regex: true }), /Invalid regular expression/);
+        assert.throws(() => createSearchMatcher({ query: ['a'] } as never), /required/);
+        assert.throws(() => createSearchMatcher({ query: 'a', eventTypes: [1] } as never), /Event types/);
+        assert.throws(() => createSearchMatcher({ query: 'a', eventTypes: 'USER_DEBUG' } as never), /Event types/);
+        assert.throws(() => createSearchMatcher({ query: 'a', contextLines: 'x' } as never), /Context lines/);
+    });
+});
@@ -0,0 +1,38 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { OrgAuthorization } from '@salesforce/core';
+import { findOrgAuthorization, getOrgConfigLocations } from '../utils/orgConfig';
+
+function org(username: string, aliases: string[] | null = null): OrgAuthorization {
+    return { orgId: '00D000000000001AAA', username, oauthMethod: 'web', aliases, configs: null, isExpired: false };
+}
+
+suite('Org Config Test Suite', () => {
+    test('lists project config before global config, sf before sfdx', () => {
+        const locations = getOrgConfigLocations('/project', '/home/.sf', '/home/.sfdx');
+        assert.deepStrictEqual(
+            locations.map((location) => [path.join(location.folder, location.filename), location.key]),
+            [
+                [path.join('/project', '.sf', 'config.json'), 'target-org'],
+                [path.join('/project', '.sfdx', 'sfdx-config.json'), 'defaultusername'],
+                [path.join('/home/.sf', 'config.json'), 'target-org'],
+                [path.join('/home/.sfdx', 'sfdx-config.json'), 'defaultusername'],
+            ],
+        );
+        assert.strictEqual(getOrgConfigLocations(undefined, '/home/.sf', '/home/.sfdx').length, 2);
+    });
+
+    test('resolves a username or an alias', () => {
+        const orgs = [org('admin@acme.com.uat', ['uat']), org('admin@acme.com.dev', ['dev', 'sandbox'])];
+        assert.strictEqual(findOrgAuthorization('uat', orgs)?.username, 'admin@acme.com.uat');
+        assert.strictEqual(findOrgAuthorization('sandbox', orgs)?.username, 'admin@acme.com.dev');
+        assert.strictEqual(findOrgAuthorization('admin@acme.com.dev', orgs)?.username, 'admin@acme.com.dev');
+        assert.strictEqual(findOrgAuthorization('prod', orgs), undefined);
+        assert.strictEqual(findOrgAuthorization(undefined, orgs), undefined);
+    });
+
+    test('prefers a matching username over a matching alias', () => {
+        const orgs = [org('first@acme.com', ['second@acme.com']), org('second@acme.com')];
+        assert.strictEqual(findOrgAuthorization('second@acme.com', orgs), orgs[1]);
+    });
+});
@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+import { OrgAuthorization } from '@salesforce/core';
+import { getOrgLabel, getOrgProblem, getOrgType, sortOrgs } from '../features/orgSwitcher/orgDisplay';
+
+function org(fields: Partial<OrgAuthorization>): OrgAuthorization {
+    return {
+        orgId: '00D000000000001AAA',
+        username: 'admin@example.com',
+        oauthMethod: 'web',
+        aliases: null,
+        configs: null,
+        isExpired: false,
+        ...fields,
+    };
+}
+
+suite('Org Display Test Suite', () => {
+    test('detects sandboxes and scratch orgs, also from the instance URL', () => {
+        assert.strictEqual(getOrgType(org({ isSandbox: true })), 'Sandbox');
+        assert.strictEqual(getOrgType(org({ instanceUrl: 'https://acme--uat.sandbox.my.salesforce.com' })), 'Sandbox');
+        assert.strictEqual(getOrgType(org({ instanceUrl: 'https://acme--dev.cs42.my.salesforce.com' })), 'Sandbox');
+        assert.strictEqual(getOrgType(org({ isScratchOrg: true, isSandbox: true })), 'Scratch org');
+        assert.strictEqual(getOrgType(org({ instanceUrl: 'https://acme.my.salesforce.com' })), 'Production');
+    });
+
+    test('labels orgs by alias, else username, and sorts by label', () => {
+        const orgs = [
+            org({ username: 'b@example.com', aliases: ['uat'] }),
+            org({ username: 'a@example.com' }),
+            org({ username: 'c@example.com', aliases: ['dev', 'dev2'] }),
+        ];
+        assert.deepStrictEqual(sortOrgs(orgs).map(getOrgLabel), ['a@example.com', 'dev', 'uat']);
+    });
+
+    test('reports expired and broken authorizations', () => {
+        assert.strictEqual(getOrgProblem(org({})), null);
+        assert.strictEqual(getOrgProblem(org({ isExpired: 'unknown' })), null);
+        assert.strictEqual(getOrgProblem(org({ isExpired: true })), 'Authorization expired');
+        assert.strictEqual(getOrgProblem(org({ error: 'No refresh token' })), 'No refresh token');
+    });
+});
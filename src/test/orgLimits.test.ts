@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+import { getOrganizationType, toOrgLimits } from '../features/orgOverview/orgLimits';
+
+suite('Org Limits Test Suite', () => {
+    test('shows the featured limits first, then the others by name', () => {
+        const limits = toOrgLimits({
+            SingleEmail: { Max: 5000, Remaining: 5000 },
+            DailyApiRequests: { Max: 15000, Remaining: 14000 },
+            HourlyODataCallout: { Max: 10000, Remaining: 9990 },
+            DataStorageMB: { Max: 5, Remaining: 2 },
+            DailyBulkV2QueryFileStorageMB: { Max: 976562, Remaining: 976562 },
+        });
+
+        assert.deepStrictEqual(
+            limits.map((limit) => limit.name),
+            ['DailyApiRequests', 'DataStorageMB', 'SingleEmail', 'DailyBulkV2QueryFileStorageMB', 'HourlyODataCallout'],
+        );
+        assert.deepStrictEqual(limits[0], {
+            name: 'DailyApiRequests',
+            label: 'Daily API requests',
+            max: 15000,
+            used: 1000,
+            unit: null,
+        });
+        assert.strictEqual(limits[1].unit, 'MB');
+        assert.strictEqual(limits[3].label, 'Daily bulk V2 query file storage');
+        assert.strictEqual(limits[3].unit, 'MB');
+        assert.strictEqual(limits[4].label, 'Hourly OData callout');
+    });
+
+    test('leaves out limits that are not available in the org', () => {
+        assert.deepStrictEqual(toOrgLimits({ DailyAsyncApexExecutions: { Max: 0, Remaining: 0 } }), []);
+    });
+
+    test('tells scratch orgs from sandboxes by their expiry date', () => {
+        assert.strictEqual(getOrganizationType(false, null), 'Production');
+        assert.strictEqual(getOrganizationType(false, '2026-11-01T00:00:00.000+0000'), 'Production');
+        assert.strictEqual(getOrganizationType(true, null), 'Sandbox');
+        assert.strictEqual(getOrganizationType(true, '2026-11-01T00:00:00.000+0000'), 'Scratch org');
+    });
+});
@@ -55,6 +55,83 @@ export class ConfigUtils {
         return safeSeconds * 1000;
     }
 
+    /**
+     * Get the percentage of a limit at which debug logs and org limits are highlighted
+     * @returns The warning threshold as a percentage between 1 and 100
+     */
+    public static getDebugLogLimitWarningThreshold(): number {
+        const config = vscode.workspace.getConfiguration(this.CONFIG_NAMESPACE);
+        const percentage = config.get<number>('debugLogLimitWarningThreshold', 80);
+
+        return Math.min(100, Math.max(1, percentage));
+    }
+
+    /**
+     * Get how often new debug logs are polled for while live tail is on
+     * @returns The poll interval in milliseconds
+     */
+    public static getDebugLogTailInterval(): number {
+        const config = vscode.workspace.getConfiguration(this.CONFIG_NAMESPACE);
+        const seconds = config.get<number>('debugLogTailInterval', 5);
+
+        // Ensure minimum of 2 seconds to stay well within API limits
+        return Math.max(2, seconds) * 1000;
+    }
+
+    /**
+     * Check if new debug logs should be downloaded automatically while live tail is on
+     */
+    public static isDebugLogTailAutoDownloadEnabled(): boolean {
+        const config = vscode.workspace.getConfiguration(this.CONFIG_NAMESPACE);
+        return config.get<boolean>('debugLogTailAutoDownload', false);
+    }
+
+    /**
+     * Get the Salesforce API version set in the settings
+     * @returns The version, e.g. "61.0", or undefined to use the project's sourceApiVersion
+     */
+    public static getApiVersion(): string | undefined {
+        const config = vscode.workspace.getConfiguration(this.CONFIG_NAMESPACE);
+        const version = config.get<string>('apiVersion', '').trim();
+
+        return /^\d{2,3}\.0$/.test(version) ? version : undefined;
+    }
+
+    /**
+     * Get the limits for the logs kept per org in the local debug log cache. 0 disables a limit, and all limits are off by default.
+     */
+    public static getDebugLogRetentionPolicy(): { maxAgeDays: number; maxTotalBytes: number; maxFiles: number } {
+        const config = vscode.workspace.getConfiguration(this.CONFIG_NAMESPACE);
+        const maxAgeDays = config.get<number>('debugLogCacheMaxAgeDays', 0);
+        const maxSizeMb = config.get<number>('debugLogCacheMaxSizeMB', 0);
+        const maxFiles = config.get<number>('debugLogCacheMaxFiles', 0);
+
+        return {
+            maxAgeDays: Math.max(0, maxAgeDays),
+            maxTotalBytes: Math.max(0, maxSizeMb) * 1024 * 1024,
+            maxFiles: Math.max(0, Math.floor(maxFiles)),
+        };
+    }
+
+    /**
+     * Get the redaction applied to debug logs before they are written to disk
+     */
+    public static getDebugLogRedactionSettings(): {
+        enabled: boolean;
+        rules: string[];
+        customPatterns: string[];
+        keepUnredactedCopy: boolean;
+    } {
+        const config = vscode.workspace.getConfiguration(this.CONFIG_NAMESPACE);
+
+        return {
+            enabled: config.get<boolean>('debugLogRedactionEnabled', false),
+            rules: config.get<string[]>('debugLogRedactionRules', ['email', 'sessionId', 'accessToken', 'creditCard']),
+            customPatterns: config.get<string[]>('debugLogRedactionCustomPatterns', []),
+            keepUnredactedCopy: config.get<boolean>('debugLogKeepUnredactedCopy', false),
+        };
+    }
+
     /**
      * Check if the extension is running in development mode
      */
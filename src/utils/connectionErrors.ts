@@ -0,0 +1,60 @@
+// Network errors that mean the org cannot be reached at all
+const UNREACHABLE_ERROR_CODES = new Set([
+    'ENOTFOUND',
+    'ECONNREFUSED',
+    'ECONNRESET',
+    'ETIMEDOUT',
+    'EAI_AGAIN',
+    'EHOSTUNREACH',
+    'ENETUNREACH',
+]);
+
+// Error codes Salesforce and jsforce use for a session that expired or was revoked
+const SESSION_EXPIRED_ERROR_CODES = new Set(['INVALID_SESSION_ID', 'ERROR_HTTP_401']);
+
+interface ErrorFields {
+    name?: string;
+    errorCode?: string;
+    code?: string;
+    statusCode?: number;
+    message?: string;
+    cause?: unknown;
+}
+
+/**
+ * Check whether a request failed because the access token is no longer valid
+ */
+export function isSessionExpiredError(error: unknown): boolean {
+    const { name, errorCode, statusCode, message } = (error ?? {}) as ErrorFields;
+    return (
+        SESSION_EXPIRED_ERROR_CODES.has(errorCode ?? '') ||
+        SESSION_EXPIRED_ERROR_CODES.has(name ?? '') ||
+        statusCode === 401 ||
+        /INVALID_SESSION_ID|Session expired or invalid/.test(message ?? '')
+    );
+}
+
+/**
+ * Describe why a request failed in words for the user, instead of the raw error for connection problems
+ */
+export function describeConnectionError(error: unknown): string {
+    if (isSessionExpiredError(error)) {
+        return 'Salesforce session expired';
+    }
+    if (isOrgUnreachableError(error)) {
+        return 'Salesforce org unreachable';
+    }
+    return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Check whether a request failed because the org could not be reached, e.g. offline or a wrong instance URL
+ */
+export function isOrgUnreachableError(error: unknown): boolean {
+    const { code, cause } = (error ?? {}) as ErrorFields;
+    if (UNREACHABLE_ERROR_CODES.has(code ?? '')) {
+        return true;
+    }
+    // fetch wraps the network error
+    return cause !== undefined && cause !== error && isOrgUnreachableError(cause);
+}
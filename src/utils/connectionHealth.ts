@@ -0,0 +1,105 @@
+import * as vscode from 'vscode';
+import { Logger } from './logger';
+import { SFUtils } from './sfutils';
+import { isOrgUnreachableError, isSessionExpiredError } from './connectionErrors';
+
+export type ConnectionStatus = 'healthy' | 'sessionExpired' | 'unreachable';
+
+/**
+ * Tracks whether requests to the connected org succeed, from the outcome of the requests features make.
+ * Asks the user to log in again when the session expired and could not be refreshed.
+ */
+export class ConnectionHealth {
+    private static status: ConnectionStatus = 'healthy';
+    private static statusDetail = '';
+    private static readonly statusChanged = new vscode.EventEmitter<ConnectionStatus>();
+
+    /**
+     * Fired when requests start or stop failing
+     */
+    public static readonly onDidChangeStatus = ConnectionHealth.statusChanged.event;
+
+    /**
+     * Get the status of the connection, as of the last request
+     */
+    public static getStatus(): ConnectionStatus {
+        return this.status;
+    }
+
+    /**
+     * Get why the last request failed, empty when the connection is healthy
+     */
+    public static getStatusDetail(): string {
+        return this.statusDetail;
+    }
+
+    /**
+     * Record that a request succeeded
+     */
+    public static reportSuccess(): void {
+        this.setStatus('healthy', '');
+    }
+
+    /**
+     * Record that a request failed. Failures that are not about the connection, e.g. invalid queries, are ignored.
+     * @param error The error the request failed with, after the session could not be refreshed
+     */
+    public static reportFailure(error: unknown): void {
+        const message = error instanceof Error ? error.message : String(error);
+        if (isSessionExpiredError(error)) {
+            if (this.setStatus('sessionExpired', message)) {
+                this.promptReauthenticate();
+            }
+        } else if (isOrgUnreachableError(error)) {
+            this.setStatus('unreachable', message);
+        }
+    }
+
+    /**
+     * Start a web login to the current org in a terminal.
+     * The next request picks up the new session once the login completed.
+     */
+    public static async reauthenticate(): Promise<void> {
+        const org = await SFUtils.getCurrentOrg().catch(() => undefined);
+        const args = ['org', 'login', 'web'];
+        if (org?.instanceUrl) {
+            args.push('--instance-url', `"${org.instanceUrl}"`);
+        }
+        if (org?.aliases?.[0]) {
+            args.push('--alias', `"${org.aliases[0]}"`);
+        }
+
+        const terminal = vscode.window.createTerminal('Salesforce Login');
+        terminal.show();
+        terminal.sendText(`sf ${args.join(' ')}`);
+        Logger.info(`Started login for ${org?.username ?? 'a new org'}`, 'ConnectionHealth.reauthenticate');
+    }
+
+    /**
+     * Forget the status of the previous org, e.g. after switching orgs
+     */
+    public static reset(): void {
+        this.setStatus('healthy', '');
+    }
+
+    private static setStatus(status: ConnectionStatus, detail: string): boolean {
+        const changed = status !== this.status;
+        this.status = status;
+        this.statusDetail = detail;
+        if (changed) {
+            Logger.info(`Connection status: ${status}${detail ? ` (${detail})` : ''}`, 'ConnectionHealth.setStatus');
+            this.statusChanged.fire(status);
+        }
+        return changed;
+    }
+
+    private static async promptReauthenticate(): Promise<void> {
+        const choice = await vscode.window.showWarningMessage(
+            'Your Salesforce session has expired and could not be refreshed. Log in again to keep working with the org.',
+            'Reauthenticate',
+        );
+        if (choice === 'Reauthenticate') {
+            await this.reauthenticate();
+        }
+    }
+}
@@ -4,9 +4,61 @@ import { AddressInfo } from 'net';
 import * as vscode from 'vscode';
 import cors from 'cors';
 import { Logger } from './logger';
-import { SFUtils } from './sfutils';
-
-const LOG_EVENTS = ['CODE_UNIT_STARTED', 'METHOD_ENTRY'];
+import { SalesforceApi } from './salesforceApi';
+import { getProjectFolder } from './projectFolders';
+import { ConfigUtils } from './config';
+import { readFileTail } from './fileUtils';
+import {
+    extractLimitUsage,
+    extractLogErrors,
+    extractMethodName,
+    NO_METHOD_NAME_FOUND,
+    parseApexLog,
+    summarizeLimits,
+} from '../features/debugLogs/apexLogParser';
+import * as TraceFlagService from '../features/debugLogs/traceFlagService';
+import { refreshTraceFlagStatusBar } from '../features/debugLogs/traceFlagStatusBar';
+import { DebugLogTail } from '../features/debugLogs/debugLogTail';
+import { deleteDebugLogs } from '../features/debugLogs/debugLogDeletion';
+import { diffApexLogs } from '../features/debugLogs/debugLogDiff';
+import { findHotspots } from '../features/debugLogs/debugLogHotspots';
+import { BUNDLE_EXTENSION, DebugLogBundleManifest } from '../features/debugLogs/debugLogBundle';
+import { exportDebugLogBundle } from '../features/debugLogs/debugLogBundleService';
+import { runAnonymousApex } from '../features/anonymousApex';
+import { getOrgOverview } from '../features/orgOverview';
+import { resolveMethodNames } from '../features/debugLogs/debugLogMethodNames';
+import {
+    createSearchMatcher,
+    DebugLogSearchOptions,
+    getMaxResults,
+    searchLogFile,
+} from '../features/debugLogs/debugLogSearch';
+import {
+    DebugLogMetadata,
+    enforceRetentionPolicy,
+    findStoredLogPath,
+    listLocalLogs,
+    markLogAccessed,
+    readLogMetadata,
+    removeStoredLogs,
+    saveLogFile,
+    setLogPinned,
+    writeLogMetadata,
+} from '../features/debugLogs/debugLogStorage';
+import {
+    buildDebugLogConditions,
+    buildDebugLogQuery,
+    DEBUG_LOG_FIELDS,
+    DebugLogQueryOptions,
+    escapeSoqlLike,
+    escapeSoqlString,
+    isSalesforceId,
+    parseDebugLogQueryParams,
+    toDebugLogPage,
+} from '../features/debugLogs/debugLogQuery';
+
+// Enough of the end of a log to hold the last limit usage block of every namespace
+const LIMIT_USAGE_TAIL_BYTES = 64 * 1024;
 
 /**
  * ExpressServer class for handling HTTP requests within the extension
@@ -185,68 +237,66 @@ export class ExpressServer {
             });
         });
 
+        // Every :id is a Salesforce ID; it ends up in file paths, SOQL and REST paths, so nothing else gets through
+        this.app.param('id', (req, res, next, id) => {
+            if (!isSalesforceId(id)) {
+                res.status(400).json({ success: false, error: `Invalid ID: ${id}` });
+                return;
+            }
+            next();
+        });
+
         // Debug logs routes
         this.setupDebugLogRoutes();
 
+        // Trace flag and debug level routes
+        this.setupTraceFlagRoutes();
+
+        // Anonymous Apex routes
+        this.setupAnonymousApexRoutes();
+
         // File Switcher routes
         this.setupFileSwitcherRoutes();
+
+        // Org overview routes
+        this.setupOrgOverviewRoutes();
     }
 
     /**
      * Setup routes for Debug Logs feature
      */
     private setupDebugLogRoutes(): void {
-        // Get all debug logs
+        // Get a page of debug logs, newest first
         this.app.get('/api/debugLogs', async (req, res) => {
             try {
-                // Since SFUtils doesn't have fetchDebugLogs, we'll use VS Code command
-                // and define a simple handler for this API endpoint
                 Logger.debug('API request received for /api/debugLogs', 'ExpressServer.setupDebugLogRoutes');
 
-                const sfconnection = await SFUtils.getConnection();
-
-                // Get the user filter if provided
-                const userFilter = req.query.user as string;
-                const sizeParam = req.query.size as string;
-                const sizeDirection = req.query.sizeDirection as string; // 'above' or 'below'
-                const size = sizeParam ? parseInt(sizeParam, 10) : undefined;
-
-                // Construct the query with optional user filter
-                let query =
-                    'SELECT Id, LogUser.Name, LogLength, Operation, Application, Status, StartTime, RequestIdentifier FROM ApexLog';
-
-                // Add WHERE clause if user filter is provided and not 'all'
-                if (userFilter && userFilter !== 'all' && userFilter !== 'All Users') {
-                    query += ` WHERE LogUser.Name = '${userFilter}'`;
+                let options: DebugLogQueryOptions;
+                let query: string;
+                try {
+                    options = parseDebugLogQueryParams(req.query);
+                    query = buildDebugLogQuery(options);
+                } catch (error: unknown) {
+                    res.status(400).json({
+                        success: false,
+                        error: error instanceof Error ? error.message : String(error),
+                    });
+                    return;
                 }
 
-                // Add ORDER BY and LIMIT
-                query += ' ORDER BY StartTime DESC LIMIT 200';
+                const result = await SalesforceApi.withConnection((sfconnection) => sfconnection.query(query));
+                const page = toDebugLogPage(result.records, options.limit);
 
-                const logs = await sfconnection.query(query);
-
-                Logger.debug(`Retrieved ${logs.totalSize} debug logs`, 'ExpressServer.setupDebugLogRoutes');
-
-                let logRecords: any;
-
-                if (logs.totalSize > 0) {
-                    logRecords = logs;
-                } else {
-                    logRecords = {};
-                }
+                Logger.debug(`Retrieved ${page.records.length} debug logs`, 'ExpressServer.setupDebugLogRoutes');
 
-                // Filter by log size if requested
-                if (logRecords.records && size && (sizeDirection === 'above' || sizeDirection === 'below')) {
-                    logRecords.records = logRecords.records.filter((log: any) =>
-                        sizeDirection === 'above' ? log.LogLength > size : log.LogLength < size,
-                    );
-                    logRecords.totalSize = logRecords.records.length;
-                }
-
-                // Return an empty array for now - actual implementation would come from your DebugLogProvider
                 res.json({
                     success: true,
-                    logs: logRecords,
+                    logs: {
+                        records: page.records,
+                        totalSize: page.records.length,
+                        done: page.nextCursor === null,
+                    },
+                    nextCursor: page.nextCursor,
                 });
             } catch (error: unknown) {
                 Logger.error('Error fetching debug logs via API:', 'ExpressServer.setupDebugLogRoutes', error);
@@ -257,41 +307,101 @@ export class ExpressServer {
             }
         });
 
+        // Stream new debug logs as server-sent events until the client disconnects
+        this.app.get('/api/debugLogs/tail', (req, res) => {
+            const userFilter = req.query.user as string;
+            const userName = userFilter && userFilter !== 'all' && userFilter !== 'All Users' ? userFilter : undefined;
+            const autoDownload = ConfigUtils.isDebugLogTailAutoDownloadEnabled();
+
+            Logger.debug(
+                `API request received for debug log tail (user: ${userName ?? 'all'})`,
+                'ExpressServer.setupDebugLogRoutes',
+            );
+
+            res.writeHead(200, {
+                'Content-Type': 'text/event-stream',
+                'Cache-Control': 'no-cache',
+                Connection: 'keep-alive',
+            });
+
+            const sendEvent = (event: string, data: unknown) => {
+                res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+            };
+
+            const tail = new DebugLogTail({
+                interval: ConfigUtils.getDebugLogTailInterval(),
+                userName,
+                onLogs: async (logs) => {
+                    sendEvent('logs', { logs });
+
+                    if (autoDownload) {
+                        for (const log of logs) {
+                            try {
+                                const filePath = await this.ensureStoredLog(log.Id);
+                                sendEvent('downloaded', { logId: log.Id, filePath });
+                            } catch (error: unknown) {
+                                Logger.error(
+                                    `Error auto-downloading debug log ${log.Id}:`,
+                                    'ExpressServer.setupDebugLogRoutes',
+                                    error,
+                                );
+                            }
+                        }
+                    }
+                },
+                onError: (error, retryIn) => {
+                    sendEvent('error', {
+                        error: error instanceof Error ? error.message : String(error),
+                        retryIn,
+                    });
+                },
+            });
+
+            // Keep the connection open while no logs arrive
+            const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), 15000);
+
+            req.on('close', () => {
+                clearInterval(heartbeat);
+                tail.stop();
+            });
+
+            sendEvent('started', { autoDownload });
+            tail.start();
+        });
+
         // Get Salesforce users for autocomplete
         this.app.get('/api/users', async (req, res) => {
             try {
-                const searchTerm = req.query.search as string;
+                const searchTerm = typeof req.query.search === 'string' ? req.query.search : '';
                 Logger.debug(
                     `API request received for Salesforce users with search: ${searchTerm || 'none'}`,
                     'ExpressServer.setupDebugLogRoutes',
                 );
 
-                const sfconnection = await SFUtils.getConnection();
-
                 // Construct the query with search filter
                 let query = 'SELECT Id, Name, Username FROM User WHERE IsActive = true';
 
                 // Add search term if provided - use LIKE for case-insensitive partial match
-                if (searchTerm && searchTerm.length > 0) {
-                    // Escape any single quotes in the search term
-                    const escapedSearchTerm = searchTerm.replace(/'/g, "\\'");
-                    query += ` AND (Name LIKE '%${escapedSearchTerm}%' OR Username LIKE '%${escapedSearchTerm}%')`;
+                if (searchTerm.length > 0) {
+                    const pattern = escapeSoqlLike(searchTerm);
+                    query += ` AND (Name LIKE '%${pattern}%' OR Username LIKE '%${pattern}%')`;
                 }
 
                 // Add sorting and limit - increase limit for better suggestions but not too many
                 query += ' ORDER BY Name LIMIT 25';
 
                 Logger.debug(`Executing user search query: ${query}`, 'ExpressServer.setupDebugLogRoutes');
-                const users = await sfconnection.query(query);
+                const { users, currentUserInfo } = await SalesforceApi.withConnection(async (sfconnection) => ({
+                    users: await sfconnection.query(query),
+                    // Get the current user's info
+                    currentUserInfo: await sfconnection.identity(),
+                }));
 
                 Logger.debug(
                     `Retrieved ${users.totalSize} Salesforce users matching search "${searchTerm || 'none'}"`,
                     'ExpressServer.setupDebugLogRoutes',
                 );
 
-                // Get the current user's info
-                const currentUserInfo = await sfconnection.identity();
-
                 res.json({
                     success: true,
                     users: users.records,
@@ -313,32 +423,8 @@ export class ExpressServer {
                 Logger.debug(`API request received for full debug log: ${logId}`, 'ExpressServer.setupDebugLogRoutes');
 
                 try {
-                    // Get the connection to Salesforce
-                    const connection = await SFUtils.getConnection();
-
-                    // Get the instance URL and access token from the connection
-                    const instanceUrl = connection.instanceUrl;
-                    const accessToken = connection.accessToken;
-
-                    // Make sure we have a valid access token
-                    if (!accessToken) {
-                        throw new Error('No valid access token available');
-                    }
-
-                    // Check if the log file already exists in the _multi-tool folder
-                    const storedLogPath = await this.getStoredLogPath(logId);
-                    let logFilePath: string;
-
-                    if (await this.fileExists(storedLogPath)) {
-                        // If log exists, use it directly
-                        Logger.debug(`Using existing log file: ${storedLogPath}`, 'ExpressServer.setupDebugLogRoutes');
-                        logFilePath = storedLogPath;
-                    } else {
-                        // If log doesn't exist, download and save it
-                        Logger.debug(`Downloading log ${logId} from Salesforce`, 'ExpressServer.setupDebugLogRoutes');
-                        const logContent = await this.getLogBody(logId, instanceUrl, accessToken, false);
-                        logFilePath = await this.saveLogFile(logId, logContent);
-                    }
+                    // Use the stored copy of the log, downloading it first if needed
+                    const logFilePath = await this.ensureStoredLog(logId);
 
                     // Open the file in VS Code
                     vscode.commands.executeCommand('vscode.open', vscode.Uri.file(logFilePath));
@@ -375,40 +461,7 @@ export class ExpressServer {
                 );
 
                 try {
-                    // Check if we already have the log file stored
-                    const storedLogPath = await this.getStoredLogPath(logId);
-                    let methodName: string;
-
-                    if (await this.fileExists(storedLogPath)) {
-                        // Read the log file in batches until we find a method name
-                        methodName = await this.extractMethodNameFromStoredLog(storedLogPath);
-                        Logger.debug(
-                            `Using stored log file for method name: ${storedLogPath}`,
-                            'ExpressServer.setupDebugLogRoutes',
-                        );
-                    } else {
-                        // Get the connection to Salesforce
-                        const connection = await SFUtils.getConnection();
-                        const instanceUrl = connection.instanceUrl;
-                        const accessToken = connection.accessToken;
-
-                        // Make sure we have a valid access token
-                        if (!accessToken) {
-                            throw new Error('No valid access token available');
-                        }
-
-                        // Fetch first 10KB of log data
-                        const initialLogContent = await this.getLogBody(logId, instanceUrl, accessToken, true, 10240);
-                        methodName = this.extractMethodNameFromLog(initialLogContent);
-
-                        // If method name not found, log it but don't fetch more
-                        if (methodName === 'NO_METHOD_NAME_FOUND') {
-                            Logger.debug(
-                                'Method name not found in first 10KB, stopping search',
-                                'ExpressServer.setupDebugLogRoutes',
-                            );
-                        }
-                    }
+                    const methodName = await this.resolveMethodName(logId);
 
                     res.json({
                         success: true,
@@ -432,17 +485,297 @@ export class ExpressServer {
             }
         });
 
-        // Delete a debug log
-        this.app.delete('/api/debugLogs/:id', async (req, res) => {
+        // Method names of many logs, streamed as server-sent events as each one is resolved
+        this.app.post('/api/debugLogs/methodNames', async (req, res) => {
+            const logIds: string[] = Array.isArray(req.body?.logIds)
+                ? req.body.logIds.map(String).filter(isSalesforceId)
+                : [];
+            let closed = false;
+            req.on('close', () => (closed = true));
+
+            Logger.debug(
+                `API request received for ${logIds.length} debug log method names`,
+                'ExpressServer.getMethodNames',
+            );
+            res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+            const sendEvent = (event: string, data: unknown) => {
+                if (!closed) {
+                    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+                }
+            };
+
+            try {
+                await resolveMethodNames(
+                    logIds,
+                    (logId) => this.resolveMethodName(logId),
+                    (result) => sendEvent('methodName', result),
+                    () => closed,
+                );
+                sendEvent('done', { success: true, total: logIds.length });
+            } catch (error) {
+                Logger.error('Error resolving debug log method names:', 'ExpressServer.getMethodNames', error);
+                sendEvent('error', { success: false, error: error instanceof Error ? error.message : String(error) });
+            }
+            res.end();
+        });
+
+        // Get the governor limit usage summary of a debug log
+        this.app.get('/api/debugLogs/:id/limits', async (req, res) => {
             try {
                 const logId = req.params.id;
-                Logger.debug(`API request received to delete log: ${logId}`, 'ExpressServer.deleteDebugLog');
+                Logger.debug(
+                    `API request received for debug log limits: ${logId}`,
+                    'ExpressServer.setupDebugLogRoutes',
+                );
+
+                // The REST API can only return a log body from the start, so the limits of a log that is not
+                // stored are unknown until the user asks to download it
+                const storedLogPath = await findStoredLogPath(logId);
+                if (!storedLogPath && req.query.load !== 'true') {
+                    res.json({
+                        success: true,
+                        logId,
+                        limits: null,
+                        threshold: ConfigUtils.getDebugLogLimitWarningThreshold(),
+                    });
+                    return;
+                }
+
+                // The cumulative limit usage of the transaction is written at the end of the log
+                const logFilePath = storedLogPath ?? (await this.ensureStoredLog(logId));
+                const limits = summarizeLimits(
+                    extractLimitUsage(await readFileTail(logFilePath, LIMIT_USAGE_TAIL_BYTES)),
+                );
 
-                // Return a success response without actually deleting anything
                 res.json({
                     success: true,
-                    message: `This is a placeholder. Debug log deletion is not implemented in the server API yet.`,
+                    logId,
+                    limits,
+                    threshold: ConfigUtils.getDebugLogLimitWarningThreshold(),
                 });
+            } catch (error: unknown) {
+                Logger.error(`Error reading debug log limits via API:`, 'ExpressServer.setupDebugLogRoutes', error);
+                res.status(500).json({
+                    success: false,
+                    error: error instanceof Error ? error.message : String(error),
+                });
+            }
+        });
+
+        // Exceptions, fatal errors and validation failures of a stored debug log, recorded in its sidecar when
+        // the log was downloaded. Null for logs that are not stored, their errors are unknown until downloaded.
+        this.app.get('/api/debugLogs/:id/errors', async (req, res) => {
+            try {
+                const logId = req.params.id;
+                Logger.debug(`API request received for debug log errors: ${logId}`, 'ExpressServer.getLogErrors');
+
+                const logFilePath = await findStoredLogPath(logId);
+                if (!logFilePath) {
+                    res.json({ success: true, logId, errors: null });
+                    return;
+                }
+                let metadata = await readLogMetadata(logFilePath);
+
+                // Logs cached before errors were detected get their sidecar completed once
+                if (!metadata?.errors) {
+                    const fs = require('fs').promises;
+                    const content = await fs.readFile(logFilePath, 'utf8');
+                    metadata = metadata
+                        ? { ...metadata, errors: extractLogErrors(content) }
+                        : await this.getLogMetadata(logId, content);
+                    await writeLogMetadata(logFilePath, metadata);
+                }
+
+                res.json({ success: true, logId, errors: metadata.errors ?? [] });
+            } catch (error: unknown) {
+                Logger.error(`Error reading debug log errors via API:`, 'ExpressServer.getLogErrors', error);
+                res.status(500).json({
+                    success: false,
+                    error: error instanceof Error ? error.message : String(error),
+                });
+            }
+        });
+
+        // Get the parsed execution tree of a debug log
+        this.app.get('/api/debugLogs/:id/tree', async (req, res) => {
+            try {
+                const logId = req.params.id;
+                Logger.debug(`API request received for debug log tree: ${logId}`, 'ExpressServer.setupDebugLogRoutes');
+
+                const fs = require('fs').promises;
+                const logFilePath = await this.ensureStoredLog(logId);
+                const parsedLog = parseApexLog(await fs.readFile(logFilePath, 'utf8'));
+
+                res.json({
+                    success: true,
+                    logId,
+                    root: parsedLog.root,
+                    totalNanos: parsedLog.totalNanos,
+                    lineCount: parsedLog.lineCount,
+                });
+            } catch (error: unknown) {
+                Logger.error(`Error parsing debug log via API:`, 'ExpressServer.setupDebugLogRoutes', error);
+                res.status(500).json({
+                    success: false,
+                    error: error instanceof Error ? error.message : String(error),
+                });
+            }
+        });
+
+        // SOQL and DML hotspots of a debug log, grouped by statement and call site
+        this.app.get('/api/debugLogs/:id/hotspots', async (req, res) => {
+            try {
+                const logId = req.params.id;
+                Logger.debug(`API request received for debug log hotspots: ${logId}`, 'ExpressServer.getHotspots');
+
+                const fs = require('fs').promises;
+                const logFilePath = await this.ensureStoredLog(logId);
+                const report = findHotspots(parseApexLog(await fs.readFile(logFilePath, 'utf8')));
+
+                res.json({ success: true, logId, ...report });
+            } catch (error: unknown) {
+                Logger.error(`Error finding debug log hotspots via API:`, 'ExpressServer.getHotspots', error);
+                res.status(500).json({
+                    success: false,
+                    error: error instanceof Error ? error.message : String(error),
+                });
+            }
+        });
+
+        // Structural comparison of two debug logs
+        this.app.get('/api/debugLogs/diff', async (req, res) => {
+            const leftId = typeof req.query.left === 'string' ? req.query.left : '';
+            const rightId = typeof req.query.right === 'string' ? req.query.right : '';
+            if (!leftId || !rightId) {
+                res.status(400).json({ success: false, error: 'Both left and right log IDs are required' });
+                return;
+            }
+            if (!isSalesforceId(leftId) || !isSalesforceId(rightId)) {
+                res.status(400).json({ success: false, error: 'Invalid log ID' });
+                return;
+            }
+
+            try {
+                Logger.debug(`API request received to diff logs ${leftId} and ${rightId}`, 'ExpressServer.diffLogs');
+
+                const fs = require('fs').promises;
+                const [leftPath, rightPath] = await Promise.all([
+                    this.ensureStoredLog(leftId),
+                    this.ensureStoredLog(rightId),
+                ]);
+                const [leftContent, rightContent] = await Promise.all([
+                    fs.readFile(leftPath, 'utf8'),
+                    fs.readFile(rightPath, 'utf8'),
+                ]);
+
+                res.json({
+                    success: true,
+                    leftId,
+                    rightId,
+                    diff: diffApexLogs(parseApexLog(leftContent), parseApexLog(rightContent)),
+                });
+            } catch (error: unknown) {
+                Logger.error(`Error diffing debug logs via API:`, 'ExpressServer.diffLogs', error);
+                res.status(500).json({
+                    success: false,
+                    error: error instanceof Error ? error.message : String(error),
+                });
+            }
+        });
+
+        // Export the given logs, with their org and user context, to a bundle file chosen by the user
+        this.app.post('/api/debugLogs/export', async (req, res) => {
+            const logIds: string[] = Array.isArray(req.body?.logIds) ? req.body.logIds.map(String) : [];
+            if (logIds.length === 0) {
+                res.status(400).json({ success: false, error: 'No log IDs provided' });
+                return;
+            }
+            const invalidId = logIds.find((id) => !isSalesforceId(id));
+            if (invalidId !== undefined) {
+                res.status(400).json({ success: false, error: `Invalid log ID: ${invalidId}` });
+                return;
+            }
+
+            try {
+                Logger.debug(`API request received to export ${logIds.length} logs`, 'ExpressServer.exportLogs');
+
+                const path = require('path');
+                const os = require('os');
+                const target = await vscode.window.showSaveDialog({
+                    defaultUri: vscode.Uri.file(
+                        path.join(
+                            getProjectFolder()?.uri.fsPath ?? os.homedir(),
+                            `debug-logs-${new Date().toISOString().slice(0, 10)}.${BUNDLE_EXTENSION}`,
+                        ),
+                    ),
+                    filters: { 'Debug Log Bundle': [BUNDLE_EXTENSION] },
+                    title: `Export ${logIds.length} debug logs`,
+                });
+                if (!target) {
+                    res.json({ success: false, cancelled: true });
+                    return;
+                }
+
+                const logFilePaths: string[] = [];
+                for (const logId of logIds) {
+                    logFilePaths.push(await this.ensureStoredLog(logId));
+                }
+                await exportDebugLogBundle(logFilePaths, await this.getBundleOrg(), target.fsPath);
+
+                res.json({ success: true, filePath: target.fsPath, exported: logFilePaths.length });
+            } catch (error: unknown) {
+                Logger.error(`Error exporting debug logs via API:`, 'ExpressServer.exportLogs', error);
+                res.status(500).json({
+                    success: false,
+                    error: error instanceof Error ? error.message : String(error),
+                });
+            }
+        });
+
+        // Open a stored debug log at a specific line
+        this.app.post('/api/debugLogs/:id/openLine', async (req, res) => {
+            try {
+                const logId = req.params.id;
+                const line = Math.max(1, parseInt(req.body.line, 10) || 1);
+                Logger.debug(`API request received to open log ${logId} at line ${line}`, 'ExpressServer.openLogLine');
+
+                const logFilePath = await this.ensureStoredLog(logId);
+                const position = new vscode.Position(line - 1, 0);
+
+                // Open beside the webview so the analyzer stays visible
+                await vscode.window.showTextDocument(vscode.Uri.file(logFilePath), {
+                    selection: new vscode.Range(position, position),
+                    viewColumn: vscode.ViewColumn.Beside,
+                    preview: false,
+                });
+
+                res.json({ success: true, path: logFilePath, line });
+            } catch (error: unknown) {
+                Logger.error(`Error opening debug log line via API:`, 'ExpressServer.openLogLine', error);
+                res.status(500).json({
+                    success: false,
+                    error: error instanceof Error ? error.message : String(error),
+                });
+            }
+        });
+
+        // Delete a debug log
+        this.app.delete('/api/debugLogs/:id', async (req, res) => {
+            try {
+                const logId = req.params.id;
+                Logger.debug(`API request received to delete log: ${logId}`, 'ExpressServer.deleteDebugLog');
+
+                const { deletedIds } = await deleteDebugLogs([logId]);
+                if (deletedIds.length === 0) {
+                    res.status(500).json({
+                        success: false,
+                        error: `Failed to delete debug log ${logId}`,
+                    });
+                    return;
+                }
+
+                await removeStoredLogs(deletedIds);
+                res.json({ success: true, logId });
             } catch (error: unknown) {
                 Logger.error(`Error deleting debug log via API:`, 'ExpressServer.deleteDebugLog', error);
                 res.status(500).json({
@@ -452,66 +785,148 @@ export class ExpressServer {
             }
         });
 
-        // Bulk delete debug logs for a user or all users
+        // Bulk delete the given debug logs, or all logs of a user or all users.
+        // Clients that accept text/event-stream receive a progress event after every chunk.
         this.app.post('/api/debugLogs/delete', async (req, res) => {
+            const streamProgress = req.headers.accept === 'text/event-stream';
+            const sendEvent = (event: string, data: unknown) => {
+                res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+            };
+
             try {
-                const userName = req.body.userName;
-                const sfconnection = await SFUtils.getConnection();
-                let query = 'SELECT Id FROM ApexLog';
+                const { userName, logIds } = req.body ?? {};
+                let idsToDelete: string[];
 
-                Logger.debug(`Deleting debug logs for user: ${userName}`, 'ExpressServer.bulkDeleteDebugLogs');
+                if (Array.isArray(logIds)) {
+                    idsToDelete = logIds.map(String);
+                } else {
+                    const conditions = buildDebugLogConditions({
+                        userName: userName && userName !== 'all' ? userName : undefined,
+                    });
+                    const query = `SELECT Id FROM ApexLog${conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : ''}`;
 
-                if (userName && userName !== 'all') {
-                    query += ` WHERE LogUser.Name = '${userName.replace(/'/g, "\\'")}'`;
+                    Logger.debug(`Executing query: ${query}`, 'ExpressServer.bulkDeleteDebugLogs');
+                    const logs = await SalesforceApi.withConnection((sfconnection) =>
+                        sfconnection.query(query, { autoFetch: true, maxFetch: 50000 }),
+                    );
+                    idsToDelete = logs.records.map((log: any) => log.Id);
                 }
 
-                Logger.debug(`Executing query: ${query}`, 'ExpressServer.bulkDeleteDebugLogs');
+                Logger.debug(`Deleting ${idsToDelete.length} debug logs`, 'ExpressServer.bulkDeleteDebugLogs');
 
-                const logs = await sfconnection.query(query);
+                if (streamProgress) {
+                    res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+                    sendEvent('progress', { deleted: 0, failed: 0, total: idsToDelete.length, deletedIds: [] });
+                }
 
-                Logger.debug(`Retrieved ${JSON.stringify(logs)} debug logs`, 'ExpressServer.bulkDeleteDebugLogs');
+                const { deletedIds, failed } = await deleteDebugLogs(idsToDelete, (progress) => {
+                    if (streamProgress) {
+                        sendEvent('progress', progress);
+                    }
+                });
+                await removeStoredLogs(deletedIds);
 
-                const logIds = logs.records.map((log: any) => log.Id);
-                let deleted = 0,
-                    failed = 0;
-                const batchSize = 10;
-                for (let i = 0; i < logIds.length; i += batchSize) {
-                    const batch = logIds.slice(i, i + batchSize);
-                    Logger.debug(
-                        `Deleting batch ${i / batchSize + 1}: ${batch.length} logs`,
-                        'ExpressServer.bulkDeleteDebugLogs',
-                    );
-                    const results = await Promise.allSettled(
-                        batch.map(async (logId) => {
-                            try {
-                                await sfconnection.request({
-                                    url: `/services/data/v56.0/sobjects/ApexLog/${logId}`,
-                                    method: 'DELETE',
-                                });
-                                Logger.debug(`Deleted log ${logId}`, 'ExpressServer.bulkDeleteDebugLogs');
-                                return 'deleted';
-                            } catch (err) {
-                                Logger.error(
-                                    `Failed to delete log ${logId}:`,
-                                    'ExpressServer.bulkDeleteDebugLogs',
-                                    err,
-                                );
-                                return 'failed';
-                            }
-                        }),
-                    );
-                    deleted += results.filter((r) => r.status === 'fulfilled' && r.value === 'deleted').length;
-                    failed += results.filter((r) => r.status === 'fulfilled' && r.value === 'failed').length;
-                    failed += results.filter((r) => r.status === 'rejected').length;
+                const result = { success: true, deleted: deletedIds.length, failed, total: idsToDelete.length };
+                if (streamProgress) {
+                    sendEvent('done', result);
+                    res.end();
+                } else {
+                    res.json(result);
+                }
+            } catch (error) {
+                Logger.error('Error bulk deleting debug logs:', 'ExpressServer.bulkDeleteDebugLogs', error);
+                const message = error instanceof Error ? error.message : String(error);
+                if (res.headersSent) {
+                    sendEvent('error', { success: false, error: message });
+                    res.end();
+                } else {
+                    res.status(500).json({ success: false, error: message });
                 }
+            }
+        });
+
+        // List logs stored in the local cache, across all orgs. Works without a connection.
+        this.app.get('/api/localLogs', async (req, res) => {
+            try {
+                Logger.debug('API request received for /api/localLogs', 'ExpressServer.setupDebugLogRoutes');
+                const logs = await listLocalLogs();
+
                 res.json({
                     success: true,
-                    deleted,
-                    failed,
-                    total: logIds.length,
+                    logs,
                 });
-            } catch (error) {
-                Logger.error('Error bulk deleting debug logs:', 'ExpressServer.bulkDeleteDebugLogs', error);
+            } catch (error: unknown) {
+                Logger.error('Error listing local debug logs:', 'ExpressServer.setupDebugLogRoutes', error);
+                res.status(500).json({
+                    success: false,
+                    error: error instanceof Error ? error.message : String(error),
+                });
+            }
+        });
+
+        // Pin or unpin a log in the local cache, pinned logs are never removed by the retention policy
+        this.app.post('/api/localLogs/:id/pin', async (req, res) => {
+            try {
+                const logId = req.params.id;
+                const pinned = req.body?.pinned !== false;
+                Logger.debug(`API request received to set pinned=${pinned} on log ${logId}`, 'ExpressServer.pinLog');
+
+                const metadata = await setLogPinned(logId, pinned);
+                res.json({ success: true, logId, pinned: metadata.pinned });
+            } catch (error: unknown) {
+                Logger.error('Error pinning local debug log:', 'ExpressServer.pinLog', error);
+                res.status(500).json({
+                    success: false,
+                    error: error instanceof Error ? error.message : String(error),
+                });
+            }
+        });
+
+        // Search the content of every log in the local cache
+        this.app.post('/api/debugLogs/search', async (req, res) => {
+            try {
+                // Checked by createSearchMatcher before any other use
+                const options: DebugLogSearchOptions = req.body ?? {};
+                Logger.debug(
+                    `API request received to search local logs for: ${options.query}`,
+                    'ExpressServer.setupDebugLogRoutes',
+                );
+
+                let matcher: (line: string) => boolean;
+                try {
+                    matcher = createSearchMatcher(options);
+                } catch (error: unknown) {
+                    res.status(400).json({
+                        success: false,
+                        error: error instanceof Error ? error.message : String(error),
+                    });
+                    return;
+                }
+
+                const maxResults = getMaxResults(options);
+                const results = [];
+                let totalMatches = 0;
+
+                for (const log of await listLocalLogs()) {
+                    if (totalMatches >= maxResults) {
+                        break;
+                    }
+
+                    const matches = await searchLogFile(log.filePath, matcher, options, maxResults - totalMatches);
+                    if (matches.length > 0) {
+                        results.push({ log, matches });
+                        totalMatches += matches.length;
+                    }
+                }
+
+                res.json({
+                    success: true,
+                    results,
+                    totalMatches,
+                    truncated: totalMatches >= maxResults,
+                });
+            } catch (error: unknown) {
+                Logger.error('Error searching local debug logs:', 'ExpressServer.setupDebugLogRoutes', error);
                 res.status(500).json({
                     success: false,
                     error: error instanceof Error ? error.message : String(error),
@@ -529,8 +944,7 @@ export class ExpressServer {
                 );
 
                 try {
-                    const storedLogPath = await this.getStoredLogPath(logId);
-                    const exists = await this.fileExists(storedLogPath);
+                    const exists = (await findStoredLogPath(logId)) !== null;
 
                     res.json({
                         success: true,
@@ -577,91 +991,119 @@ export class ExpressServer {
     }
 
     /**
-     * Get the path where a log file should be stored in _multi-tool folder
+     * Get the path of a stored log, downloading and saving it first if it is not stored yet
      * @param logId The ID of the log
      * @returns Path to the stored log file
      */
-    private async getStoredLogPath(logId: string): Promise<string> {
-        const path = require('path');
-        const fs = require('fs');
+    private async ensureStoredLog(logId: string): Promise<string> {
+        // The ID becomes a file name and part of a REST path
+        if (!isSalesforceId(logId)) {
+            throw new Error(`Invalid log ID: ${logId}`);
+        }
+
+        const storedLogPath = await findStoredLogPath(logId);
 
-        if (!vscode.workspace.workspaceFolders || vscode.workspace.workspaceFolders.length === 0) {
-            throw new Error('No workspace folder found to store logs');
+        if (storedLogPath) {
+            Logger.debug(`Using existing log file: ${storedLogPath}`, 'ExpressServer.ensureStoredLog');
+            await markLogAccessed(storedLogPath);
+            return storedLogPath;
         }
 
-        const rootPath = vscode.workspace.workspaceFolders[0].uri.fsPath;
-        const sfdxFolder = path.join(rootPath, '.sfdx');
-        const multiToolFolder = path.join(sfdxFolder, '_multi-tool');
-        const logsFolder = path.join(multiToolFolder, 'debug-logs');
-
-        // Create folders if they don't exist
-        await this.ensureFolderExists(sfdxFolder);
-        await this.ensureFolderExists(multiToolFolder);
-        await this.ensureFolderExists(logsFolder);
-
-        // Get organization identifier for organization-specific storage
-        const connection = await SFUtils.getConnection();
-        const orgId = connection?.instanceUrl
-            ? connection.instanceUrl
-                  .replace(/^https?:\/\//, '')
-                  .replace(/[^a-zA-Z0-9.-]/g, '-')
-                  .toLowerCase()
-            : 'unknown-org';
-
-        const orgFolder = path.join(logsFolder, orgId);
-        await this.ensureFolderExists(orgFolder);
-
-        return path.join(orgFolder, `${logId}.log`);
+        Logger.debug(`Downloading log ${logId} from Salesforce`, 'ExpressServer.ensureStoredLog');
+        const logContent = await SalesforceApi.download(`/sobjects/ApexLog/${logId}/Body`);
+        const logFilePath = await saveLogFile(logId, logContent, await this.getLogMetadata(logId, logContent));
+
+        // Keep the cache within its quotas, without waiting for the cleanup
+        enforceRetentionPolicy([logId]).catch((error) =>
+            Logger.warn(
+                `Could not apply the debug log retention policy: ${error instanceof Error ? error.message : String(error)}`,
+                'ExpressServer.ensureStoredLog',
+            ),
+        );
+        return logFilePath;
     }
 
     /**
-     * Check if a file exists
-     * @param filePath Path to the file
-     * @returns True if the file exists, false otherwise
+     * Describe the connected org for a debug log bundle. Exporting cached logs works without a connection.
      */
-    private async fileExists(filePath: string): Promise<boolean> {
-        const fs = require('fs').promises;
+    private async getBundleOrg(): Promise<DebugLogBundleManifest['org']> {
         try {
-            await fs.access(filePath);
-            return true;
-        } catch {
-            return false;
+            const connection = await SalesforceApi.getConnection();
+            return {
+                instanceUrl: connection.instanceUrl ?? null,
+                orgId: connection.getAuthInfoFields().orgId ?? null,
+                username: connection.getUsername() ?? null,
+            };
+        } catch (error) {
+            Logger.warn(
+                `Exporting logs without org details: ${error instanceof Error ? error.message : String(error)}`,
+                'ExpressServer.getBundleOrg',
+            );
+            return { instanceUrl: null, orgId: null, username: null };
         }
     }
 
     /**
-     * Save log content to a file in the _multi-tool folder
+     * Build the metadata stored next to a downloaded log, so it can be listed offline later
      * @param logId The ID of the log
-     * @param content The log content to save
-     * @returns Path to the saved file
+     * @param logContent The full log body
      */
-    private async saveLogFile(logId: string, content: string): Promise<string> {
-        const fs = require('fs').promises;
-
-        // Get the path where the log should be stored
-        const logFilePath = await this.getStoredLogPath(logId);
-
-        // Write the content to the file
-        await fs.writeFile(logFilePath, content, 'utf8');
+    private async getLogMetadata(logId: string, logContent: string): Promise<DebugLogMetadata> {
+        let record: any = null;
+        try {
+            const result = await SalesforceApi.withConnection((connection) =>
+                connection.query(
+                    `SELECT ${DEBUG_LOG_FIELDS.join(', ')} FROM ApexLog WHERE Id = '${escapeSoqlString(logId)}'`,
+                ),
+            );
+            record = result.records[0] ?? null;
+        } catch (error) {
+            Logger.warn(
+                `Could not fetch details of log ${logId}: ${error instanceof Error ? error.message : String(error)}`,
+                'ExpressServer.getLogMetadata',
+            );
+        }
 
-        Logger.debug(`Saved log content to file: ${logFilePath}`, 'ExpressServer.saveLogFile');
-        return logFilePath;
+        const methodName = extractMethodName(logContent);
+        return {
+            id: logId,
+            userName: record?.LogUser?.Name ?? null,
+            operation: record?.Operation ?? null,
+            application: record?.Application ?? null,
+            status: record?.Status ?? null,
+            startTime: record?.StartTime ?? null,
+            requestIdentifier: record?.RequestIdentifier ?? null,
+            logLength: record?.LogLength ?? Buffer.byteLength(logContent),
+            methodName: methodName !== NO_METHOD_NAME_FOUND ? methodName : null,
+            downloadedAt: new Date().toISOString(),
+            errors: extractLogErrors(logContent),
+        };
     }
 
     /**
-     * Ensure a folder exists, creating it if necessary
-     * @param folderPath Path to the folder
+     * Get the method name of a log, from the stored log if there is one, otherwise from the start of the log
+     * @param logId The ID of the log
+     * @returns The method name, or NO_METHOD_NAME_FOUND
      */
-    private async ensureFolderExists(folderPath: string): Promise<void> {
-        const fs = require('fs').promises;
-        try {
-            await fs.mkdir(folderPath, { recursive: true });
-        } catch (error) {
-            // If folder already exists, that's fine
-            if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
-                throw error;
-            }
+    private async resolveMethodName(logId: string): Promise<string> {
+        // Check if we already have the log file stored
+        const storedLogPath = await findStoredLogPath(logId);
+
+        if (storedLogPath) {
+            // Read the log file in batches until we find a method name
+            Logger.debug(`Using stored log file for method name: ${storedLogPath}`, 'ExpressServer.resolveMethodName');
+            return this.extractMethodNameFromStoredLog(storedLogPath);
         }
+
+        // Fetch first 10KB of log data
+        const initialLogContent = await SalesforceApi.download(`/sobjects/ApexLog/${logId}/Body`, 10240);
+        const methodName = extractMethodName(initialLogContent);
+
+        // If method name not found, log it but don't fetch more
+        if (methodName === NO_METHOD_NAME_FOUND) {
+            Logger.debug('Method name not found in first 10KB, stopping search', 'ExpressServer.resolveMethodName');
+        }
+        return methodName;
     }
 
     /**
@@ -676,7 +1118,7 @@ export class ExpressServer {
             highWaterMark: 1024, // Read 1KB at a time
         });
 
-        let methodName = 'NO_METHOD_NAME_FOUND';
+        let methodName = NO_METHOD_NAME_FOUND;
         let buffer = '';
         let foundMethod = false;
         let bytesProcessed = 0;
@@ -697,8 +1139,8 @@ export class ExpressServer {
                 bytesProcessed += chunk.length;
 
                 // Process the current buffer
-                const extractedName = this.extractMethodNameFromLog(buffer);
-                if (extractedName !== 'NO_METHOD_NAME_FOUND') {
+                const extractedName = extractMethodName(buffer);
+                if (extractedName !== NO_METHOD_NAME_FOUND) {
                     methodName = extractedName;
                     foundMethod = true;
                     stream.destroy(); // Stop reading
@@ -718,8 +1160,8 @@ export class ExpressServer {
                 clearTimeout(timeout);
                 // If we've read the entire file and didn't find a method, try one more time with the full buffer
                 if (!foundMethod) {
-                    const finalExtractedName = this.extractMethodNameFromLog(buffer);
-                    if (finalExtractedName !== 'NO_METHOD_NAME_FOUND') {
+                    const finalExtractedName = extractMethodName(buffer);
+                    if (finalExtractedName !== NO_METHOD_NAME_FOUND) {
                         methodName = finalExtractedName;
                     }
                 }
@@ -744,190 +1186,139 @@ export class ExpressServer {
     }
 
     /**
-     * Retrieves the body of an Apex log from the Salesforce REST API.
-     *
-     * This method constructs a URL to access the log body for a given log ID,
-     * makes an HTTPS GET request to the Salesforce API, and returns the log body
-     * as a string. The method handles the response by accumulating data chunks
-     * and resolving the promise with the complete log body once the response ends.
-     * If limitSize is true, it will stop receiving data after maxSize bytes to limit
-     * network usage for method name extraction.
-     *
-     * @param {string} logId - The ID of the log whose body is to be retrieved.
-     * @param {string} instanceUrl - The Salesforce instance URL
-     * @param {string} authToken - The access token for authentication
-     * @param {boolean} limitSize - Whether to limit download size
-     * @param {number} maxSize - Maximum size in bytes to download (default: 1024)
-     * @returns {Promise<string>} A promise that resolves to the log body as a string.
-     * @throws {Error} If there is an error during the HTTPS request.
+     * Setup routes for managing trace flags and debug levels
      */
-    private getLogBody(
-        logId: string,
-        instanceUrl: string,
-        authToken: string,
-        limitSize: boolean = false,
-        maxSize: number = 1024,
-    ): Promise<string> {
-        const https = require('https');
-        const { IncomingMessage } = require('http');
-        const restApiUrl = `${instanceUrl}/services/data/v59.0/sobjects/ApexLog/${logId}/Body`;
-
-        Logger.debug(
-            `Fetching ${limitSize ? maxSize / 1024 + 'KB of' : 'full'} log body for ID: ${logId}`,
-            'ExpressServer.getLogBody',
+    private setupTraceFlagRoutes(): void {
+        // Wrap a handler so errors are logged and returned the same way for every route
+        const handle =
+            (handler: (req: express.Request) => Promise<object>) =>
+            async (req: express.Request, res: express.Response) => {
+                try {
+                    res.json({ success: true, ...(await handler(req)) });
+                } catch (error: unknown) {
+                    Logger.error(
+                        `Error handling ${req.method} ${req.path}:`,
+                        'ExpressServer.setupTraceFlagRoutes',
+                        error,
+                    );
+                    // Invalid input is the client's mistake, anything else went wrong talking to the org
+                    res.status(error instanceof TraceFlagService.InvalidTraceFlagInputError ? 400 : 500).json({
+                        success: false,
+                        error: error instanceof Error ? error.message : String(error),
+                    });
+                }
+            };
+
+        // Trace flags
+        this.app.get(
+            '/api/traceFlags',
+            handle(async () => ({
+                traceFlags: await TraceFlagService.listTraceFlags(),
+                currentUserId: await TraceFlagService.getCurrentUserId(),
+            })),
         );
 
-        return new Promise((resolve, reject) => {
-            let buff = Buffer.alloc(0);
-            const startTime = Date.now();
-
-            https
-                .get(
-                    restApiUrl,
-                    {
-                        headers: {
-                            Authorization: `Bearer ${authToken}`,
-                        },
-                    },
-                    (response: typeof IncomingMessage) => {
-                        // Log response code
-                        Logger.debug(
-                            `Log API response status: ${response.statusCode} ${response.statusMessage}`,
-                            'ExpressServer.getLogBody',
-                        );
-
-                        if (response.statusCode !== 200) {
-                            return reject(new Error(`API returned status code ${response.statusCode}`));
-                        }
-
-                        response.on('data', (chunk: Uint8Array) => {
-                            buff = Buffer.concat([buff, chunk]);
-                            if (limitSize && buff.length > maxSize) {
-                                // If we're limiting size and we've got enough data, stop receiving
-                                response.destroy();
-                                return resolve(buff.toString().substring(0, maxSize));
-                            }
-                        });
-
-                        response.on('end', () => {
-                            const endTime = Date.now();
-                            const duration = endTime - startTime;
-                            const size = buff.length;
-
-                            Logger.debug(
-                                `Log download complete: ${logId}, Size: ${size} bytes, Duration: ${duration}ms`,
-                                'ExpressServer.getLogBody',
-                            );
-
-                            resolve(buff.toString());
-                        });
-
-                        response.on('error', (error: Error) => {
-                            Logger.error(
-                                `Error in response stream: ${error.message}`,
-                                'ExpressServer.getLogBody',
-                                error,
-                            );
-                            reject(error);
-                        });
-                    },
-                )
-                .on('error', (error: Error) => {
-                    Logger.error(`HTTPS request error: ${error.message}`, 'ExpressServer.getLogBody', error);
-                    reject(error);
-                });
-        });
-    }
+        this.app.post(
+            '/api/traceFlags',
+            handle(async (req) => {
+                const id = await TraceFlagService.createTraceFlag(req.body);
+                refreshTraceFlagStatusBar();
+                return { id };
+            }),
+        );
 
-    /**
-     * Extract method name from debug log content
-     * @param logBody The content of the debug log
-     * @returns The extracted method name or a default message if not found
-     */
-    private extractMethodNameFromLog(logBody: string): string {
-        let methodName = 'NO_METHOD_NAME_FOUND';
-
-        const logLines = logBody.split('\n');
-        for (const line of logLines) {
-            const parts = line.split('|');
-            if (parts?.length && LOG_EVENTS?.includes(parts[1])) {
-                const extractedName =
-                    parts[1] === 'CODE_UNIT_STARTED'
-                        ? this.processCodeUnitStartedLine(parts)
-                        : this.processMethodEntryLine(parts);
-
-                if (extractedName) {
-                    methodName = extractedName;
-                    break;
-                }
-            }
-        }
+        this.app.post(
+            '/api/traceFlags/:id/extend',
+            handle(async (req) => {
+                await TraceFlagService.extendTraceFlag(req.params.id, Number(req.body?.minutes));
+                refreshTraceFlagStatusBar();
+                return {};
+            }),
+        );
 
-        return methodName;
-    }
+        this.app.delete(
+            '/api/traceFlags/:id',
+            handle(async (req) => {
+                await TraceFlagService.deleteTraceFlag(req.params.id);
+                refreshTraceFlagStatusBar();
+                return {};
+            }),
+        );
 
-    private processCodeUnitStartedLine(parts: string[]): string | null {
-        // 00:30:32.0 (198512)|CODE_UNIT_STARTED|[EXTERNAL]|apex://CometD_Controller/ACTION$getSessionId
-        // 00:28:49.0 (210089)|CODE_UNIT_STARTED|[EXTERNAL]|01qVN000000tgzW|GuideCXTrigger on BeyndProject trigger event BeforeUpdate|__sfdc_trigger/GuideCXTrigger
-        // 00:30:22.117 (117180945)|CODE_UNIT_STARTED|[EXTERNAL]|01q5f000002NEFh|Opportunity on Opportunity trigger event BeforeUpdate|__sfdc_trigger/Opportunity
-        // 00:28:49.0 (194084)|CODE_UNIT_STARTED|[EXTERNAL]|TRIGGERS -- this should be ignored
-        // 00:21:32.0 (247348)|CODE_UNIT_STARTED|[EXTERNAL]|Flow:Opportunity
+        // Debug levels
+        this.app.get(
+            '/api/debugLevels',
+            handle(async () => ({ debugLevels: await TraceFlagService.listDebugLevels() })),
+        );
 
-        if (parts.length < 4) return null;
+        this.app.post(
+            '/api/debugLevels',
+            handle(async (req) => ({ id: await TraceFlagService.createDebugLevel(req.body) })),
+        );
 
-        // Ignore lines with just TRIGGERS
-        if (parts[parts.length - 1].trim() === 'TRIGGERS') {
-            return null;
-        }
+        this.app.patch(
+            '/api/debugLevels/:id',
+            handle(async (req) => {
+                await TraceFlagService.updateDebugLevel(req.params.id, req.body);
+                return {};
+            }),
+        );
 
-        const lastPart = parts[parts.length - 1].trim();
+        this.app.delete(
+            '/api/debugLevels/:id',
+            handle(async (req) => {
+                await TraceFlagService.deleteDebugLevel(req.params.id);
+                return {};
+            }),
+        );
+    }
 
-        // Format Apex method names for apex:// format
-        if (lastPart.startsWith('apex://')) {
-            const match = lastPart.match(/^apex:\/\/([^/]+)\/ACTION\$(.+)$/);
-            if (match) {
-                return `${match[1]}.${match[2]}`;
+    /**
+     * Setup routes for Anonymous Apex feature
+     */
+    private setupAnonymousApexRoutes(): void {
+        // Run anonymous Apex and open its log in the debug log analyzer
+        this.app.post('/api/anonymousApex/execute', async (req, res) => {
+            const code = typeof req.body?.code === 'string' ? req.body.code : '';
+            if (!code.trim()) {
+                res.status(400).json({ success: false, error: 'No Apex provided' });
+                return;
             }
-        }
 
-        // Match Flow pattern
-        if (lastPart.startsWith('Flow:')) {
-            return lastPart; // Return the full "Flow:FlowName" format
-        }
-
-        // Check for trigger pattern with description
-        // Example: 01q5f000002NEFh|Opportunity on Opportunity trigger event BeforeUpdate|__sfdc_trigger/Opportunity
-        if (parts.length >= 6 && lastPart.includes('__sfdc_trigger/')) {
-            // Extract and return the trigger description part (second to last part)
-            return parts[parts.length - 2].trim();
-        }
-
-        // No fallback to raw name - if we can't identify a specific pattern, return null
-        return null;
+            try {
+                Logger.debug('API request received to execute anonymous Apex', 'ExpressServer.executeAnonymousApex');
+                res.json({ success: true, result: await runAnonymousApex(code) });
+            } catch (error: unknown) {
+                Logger.error('Error executing anonymous Apex via API:', 'ExpressServer.executeAnonymousApex', error);
+                res.status(500).json({
+                    success: false,
+                    error: error instanceof Error ? error.message : String(error),
+                });
+            }
+        });
     }
 
-    private processMethodEntryLine(parts: string[]): string | null {
-        // 00:22:12.0 (575653256)|METHOD_ENTRY|[20]|01p6T000003kGEp|MDMDRUtility.invokeMethod(String, Map<String,ANY>, Map<String,ANY>, Map<String,ANY>)
-        // 00:22:14.7 (2160790012)|METHOD_ENTRY|[23]|01pEm000008zqxx|PreSalesConsentValueValidation.validateConsentValues(List<ANY>)
-        // 00:22:14.7 (2161081130)|METHOD_ENTRY|[76]||System.Pattern.compile(String) --- dont match the System class methods
-        // 00:22:14.7 (2161235559)|METHOD_ENTRY|[78]||System.Matcher.matches() --- dont match the System class methods
-
-        if (parts.length < 5) return null;
-
-        const methodPart = parts[parts.length - 1].trim();
-
-        // Skip System class methods
-        if (methodPart.startsWith('System.')) {
-            return null;
-        }
-
-        // Check if we have a class.method format
-        const methodMatch = methodPart.match(/^([^.]+)\.([^(]+)/);
-        if (methodMatch) {
-            return `${methodMatch[1]}.${methodMatch[2]}`;
-        }
-
-        return null;
+    /**
+     * Setup routes for Org Overview feature
+     */
+    private setupOrgOverviewRoutes(): void {
+        // Details of the connected org and the usage of its limits
+        this.app.get('/api/org/overview', async (req, res) => {
+            try {
+                Logger.debug('API request received for org overview', 'ExpressServer.setupOrgOverviewRoutes');
+                res.json({
+                    success: true,
+                    overview: await getOrgOverview(),
+                    threshold: ConfigUtils.getDebugLogLimitWarningThreshold(),
+                });
+            } catch (error: unknown) {
+                Logger.error('Error fetching org overview via API:', 'ExpressServer.setupOrgOverviewRoutes', error);
+                res.status(500).json({
+                    success: false,
+                    error: error instanceof Error ? error.message : String(error),
+                });
+            }
+        });
     }
 
     /**
@@ -1081,4 +1472,3 @@ export async function disposeExpressServer(): Promise<void> {
         Logger.error('Error disposing Express server:', 'ExpressServer.disposeExpressServer', err);
     }
 }
-
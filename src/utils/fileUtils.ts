@@ -54,6 +54,25 @@ export async function readJsonFile<T>(filePath: string): Promise<T | null> {
     }
 }
 
+/**
+ * Read the end of a text file without loading the rest of it
+ * @param filePath The path to the file
+ * @param maxBytes The number of bytes to read from the end
+ * @returns The last maxBytes of the file, the first line may be cut off
+ */
+export async function readFileTail(filePath: string, maxBytes: number): Promise<string> {
+    const handle = await fs.promises.open(filePath, 'r');
+    try {
+        const { size } = await handle.stat();
+        const length = Math.min(size, maxBytes);
+        const buffer = Buffer.alloc(length);
+        await handle.read(buffer, 0, length, size - length);
+        return buffer.toString('utf8');
+    } finally {
+        await handle.close();
+    }
+}
+
 /**
  * Check if a file path is a valid regular file (not an extension output, temp file, etc.)
  * @param filePath The path to check
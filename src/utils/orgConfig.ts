@@ -0,0 +1,67 @@
+import * as path from 'path';
+import { OrgAuthorization } from '@salesforce/core';
+
+// Config key of the default org, as written by sf CLI v2 and by the legacy sfdx CLI
+export const TARGET_ORG_KEY = 'target-org';
+export const LEGACY_TARGET_ORG_KEY = 'defaultusername';
+
+/**
+ * A config file that may set the default org
+ */
+export interface OrgConfigLocation {
+    folder: string;
+    filename: string;
+    key: string;
+    isGlobal: boolean;
+}
+
+/**
+ * Get the config files that may set the default org, in the order the Salesforce CLI applies them:
+ * project config before global config, and sf config before the legacy sfdx config
+ * @param projectPath The root of the project, undefined to only use the global config
+ * @param sfDir The global sf folder, e.g. ~/.sf
+ * @param sfdxDir The global legacy sfdx folder, e.g. ~/.sfdx
+ */
+export function getOrgConfigLocations(
+    projectPath: string | undefined,
+    sfDir: string,
+    sfdxDir: string,
+): OrgConfigLocation[] {
+    const locations: OrgConfigLocation[] = [];
+    if (projectPath) {
+        locations.push(
+            { folder: path.join(projectPath, '.sf'), filename: 'config.json', key: TARGET_ORG_KEY, isGlobal: false },
+            {
+                folder: path.join(projectPath, '.sfdx'),
+                filename: 'sfdx-config.json',
+                key: LEGACY_TARGET_ORG_KEY,
+                isGlobal: false,
+            },
+        );
+    }
+    locations.push(
+        { folder: sfDir, filename: 'config.json', key: TARGET_ORG_KEY, isGlobal: true },
+        { folder: sfdxDir, filename: 'sfdx-config.json', key: LEGACY_TARGET_ORG_KEY, isGlobal: true },
+    );
+    return locations;
+}
+
+/**
+ * Find the org a config value refers to
+ * @param value A username or an alias
+ * @param authorizations The authenticated orgs
+ * @returns The org, or undefined if no authenticated org has that username or alias
+ */
+export function findOrgAuthorization(
+    value: string | undefined,
+    authorizations: OrgAuthorization[],
+): OrgAuthorization | undefined {
+    if (!value) {
+        return undefined;
+    }
+    // A username is unique, an alias could in theory look like another org's username
+    return (
+        authorizations.find((authorization) => authorization.username === value) ??
+        authorizations.find((authorization) => authorization.aliases?.includes(value))
+    );
+}
@@ -0,0 +1,81 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Logger } from './logger';
+
+// Files that mark the root of a Salesforce DX project. Projects of the sf CLI v2 may have
+// no .sfdx folder, and no .sf folder until an org is set.
+const PROJECT_MARKER_FILES = [
+    'sfdx-project.json',
+    path.join('.sf', 'config.json'),
+    path.join('.sfdx', 'sfdx-config.json'),
+];
+
+// Project folder of the last file that was active, kept while a webview or a non-project file has the focus
+let lastActiveFolder: vscode.WorkspaceFolder | undefined;
+
+const activeFolderChanged = new vscode.EventEmitter<vscode.WorkspaceFolder | undefined>();
+
+/**
+ * Fired when a file of another project folder becomes active
+ */
+export const onDidChangeActiveProjectFolder = activeFolderChanged.event;
+
+/**
+ * Check whether a workspace folder is the root of a Salesforce DX project
+ */
+export function isProjectFolder(folder: vscode.WorkspaceFolder): boolean {
+    return PROJECT_MARKER_FILES.some((file) => fs.existsSync(path.join(folder.uri.fsPath, file)));
+}
+
+/**
+ * Get the workspace folders that are Salesforce DX projects
+ */
+export function getProjectFolders(): vscode.WorkspaceFolder[] {
+    return (vscode.workspace.workspaceFolders ?? []).filter(isProjectFolder);
+}
+
+/**
+ * Get the project folder features should work in
+ * @param uri A file to get the project of, defaults to the active file
+ * @returns The project folder owning the file, else the project of the last active file, else the first project.
+ * Undefined if no folder is open.
+ */
+export function getProjectFolder(uri?: vscode.Uri): vscode.WorkspaceFolder | undefined {
+    const owner = getOwningProjectFolder(uri ?? vscode.window.activeTextEditor?.document.uri);
+    return owner ?? lastActiveFolder ?? getProjectFolders()[0] ?? vscode.workspace.workspaceFolders?.[0];
+}
+
+/**
+ * Track the project folder of the active file
+ * @param context The extension context to register the listeners with
+ */
+export function registerProjectFolderTracking(context: vscode.ExtensionContext): void {
+    lastActiveFolder = getOwningProjectFolder(vscode.window.activeTextEditor?.document.uri);
+
+    context.subscriptions.push(
+        activeFolderChanged,
+        vscode.window.onDidChangeActiveTextEditor((editor) => {
+            const folder = getOwningProjectFolder(editor?.document.uri);
+            if (folder && folder.uri.toString() !== lastActiveFolder?.uri.toString()) {
+                lastActiveFolder = folder;
+                Logger.debug(`Active project folder: ${folder.name}`, 'ProjectFolders.registerProjectFolderTracking');
+                activeFolderChanged.fire(folder);
+            }
+        }),
+        vscode.workspace.onDidChangeWorkspaceFolders((event) => {
+            if (event.removed.some((folder) => folder.uri.toString() === lastActiveFolder?.uri.toString())) {
+                lastActiveFolder = undefined;
+                activeFolderChanged.fire(getProjectFolder());
+            }
+        }),
+    );
+}
+
+function getOwningProjectFolder(uri: vscode.Uri | undefined): vscode.WorkspaceFolder | undefined {
+    if (!uri || uri.scheme !== 'file') {
+        return undefined;
+    }
+    const folder = vscode.workspace.getWorkspaceFolder(uri);
+    return folder && isProjectFolder(folder) ? folder : undefined;
+}
@@ -0,0 +1,295 @@
+import * as sfcore from '@salesforce/core';
+import * as vscode from 'vscode';
+import * as https from 'https';
+import * as path from 'path';
+import { Logger } from './logger';
+import { SFUtils } from './sfutils';
+import { ConfigUtils } from './config';
+import { readJsonFile } from './fileUtils';
+import { getProjectFolder } from './projectFolders';
+import { ConnectionHealth } from './connectionHealth';
+import { isSessionExpiredError } from './connectionErrors';
+
+// Requests are retried this many times on network errors and server errors
+const MAX_RETRIES = 2;
+const RETRY_DELAY_MS = 500;
+
+const API_VERSION_REGEX = /^\d{2,3}\.0$/;
+
+// Network errors worth retrying
+const TRANSIENT_ERROR_CODES = new Set(['ECONNRESET', 'ETIMEDOUT', 'ECONNREFUSED', 'EPIPE', 'EAI_AGAIN']);
+
+/**
+ * Options for a REST API request
+ */
+export interface SalesforceApiRequest {
+    path: string; // Relative to /services/data/vXX.0, e.g. /sobjects/ApexLog/07L...
+    method?: 'GET' | 'POST' | 'PATCH' | 'DELETE';
+    body?: unknown;
+}
+
+/**
+ * Error returned by the REST API
+ */
+export class SalesforceApiError extends Error {
+    constructor(
+        message: string,
+        readonly statusCode: number,
+    ) {
+        super(message);
+        this.name = 'SalesforceApiError';
+    }
+}
+
+/**
+ * Single entry point for calls to the Salesforce APIs.
+ * Uses the API version of the project, refreshes expired sessions, retries transient failures
+ * and reports the outcome to ConnectionHealth.
+ */
+export class SalesforceApi {
+    // sourceApiVersion of each project folder, by folder path, once sfdx-project.json is read
+    private static projectApiVersions = new Map<string, string | null>();
+
+    // Session refreshes in progress, by project folder, so requests that fail together share one refresh
+    private static refreshes = new Map<string, Promise<sfcore.Connection>>();
+
+    /**
+     * Get the connection to the default org, set to the configured API version
+     * @param folder The project folder, defaults to the project of the active file
+     */
+    public static async getConnection(
+        folder: vscode.WorkspaceFolder | undefined = getProjectFolder(),
+    ): Promise<sfcore.Connection> {
+        const connection = await SFUtils.getConnection(folder);
+        const apiVersion = await this.getApiVersion(folder);
+        if (apiVersion && connection.getApiVersion() !== apiVersion) {
+            connection.setApiVersion(apiVersion);
+            Logger.debug(`Using API version ${apiVersion}`, 'SalesforceApi.getConnection');
+        }
+        return connection;
+    }
+
+    /**
+     * Get the API version to use: the apiVersion setting, else sourceApiVersion of sfdx-project.json
+     * @param folder The project folder, defaults to the project of the active file
+     * @returns The version, e.g. "61.0", or null to use the default of the connection
+     */
+    public static async getApiVersion(
+        folder: vscode.WorkspaceFolder | undefined = getProjectFolder(),
+    ): Promise<string | null> {
+        const configured = ConfigUtils.getApiVersion();
+        if (configured) {
+            return configured;
+        }
+
+        const rootPath = folder?.uri.fsPath;
+        if (!rootPath) {
+            return null;
+        }
+        if (!this.projectApiVersions.has(rootPath)) {
+            this.projectApiVersions.set(rootPath, await this.readProjectApiVersion(rootPath));
+        }
+        return this.projectApiVersions.get(rootPath) ?? null;
+    }
+
+    /**
+     * Forget the API versions read from sfdx-project.json, e.g. after the file changed
+     */
+    public static clearApiVersion(): void {
+        this.projectApiVersions.clear();
+    }
+
+    /**
+     * Run queries and other calls on the connection. If the session expired, it is refreshed
+     * (or the connection rebuilt) and the operation runs once more.
+     * @param operation The calls to make, may run twice
+     * @param folder The project folder, defaults to the project of the active file
+     * @returns The result of the operation
+     */
+    public static async withConnection<T>(
+        operation: (connection: sfcore.Connection) => PromiseLike<T>,
+        folder: vscode.WorkspaceFolder | undefined = getProjectFolder(),
+    ): Promise<T> {
+        return this.trackHealth(() => this.withSession(operation, folder));
+    }
+
+    /**
+     * Call the REST API
+     * @returns The parsed response body
+     * @throws Error if the request still fails after the retries
+     */
+    public static async request<T = unknown>(request: SalesforceApiRequest): Promise<T> {
+        const folder = getProjectFolder();
+        return this.trackHealth(() =>
+            this.withRetry(`${request.method ?? 'GET'} ${request.path}`, () =>
+                this.withSession(
+                    (connection) =>
+                        connection.request<T>({
+                            url: `/services/data/v${connection.getApiVersion()}${request.path}`,
+                            method: request.method ?? 'GET',
+                            body: request.body === undefined ? undefined : JSON.stringify(request.body),
+                            headers: request.body === undefined ? undefined : { 'Content-Type': 'application/json' },
+                        }),
+                    folder,
+                ),
+            ),
+        );
+    }
+
+    /**
+     * Download a response body as text, streaming it so large bodies can be cut off early
+     * @param apiPath Relative to /services/data/vXX.0, e.g. /sobjects/ApexLog/07L.../Body
+     * @param maxBytes Stop downloading after this many bytes, 0 for the full body
+     * @returns The body, truncated to maxBytes
+     */
+    public static async download(apiPath: string, maxBytes: number = 0): Promise<string> {
+        const folder = getProjectFolder();
+        return this.trackHealth(() =>
+            this.withRetry(`GET ${apiPath}`, () =>
+                this.withSession(
+                    (connection) =>
+                        this.streamBody(
+                            `${connection.instanceUrl}/services/data/v${connection.getApiVersion()}${apiPath}`,
+                            connection.accessToken,
+                            maxBytes,
+                        ),
+                    folder,
+                ),
+            ),
+        );
+    }
+
+    private static async withSession<T>(
+        operation: (connection: sfcore.Connection) => PromiseLike<T>,
+        folder: vscode.WorkspaceFolder | undefined,
+    ): Promise<T> {
+        const connection = await this.getConnection(folder);
+        try {
+            return await operation(connection);
+        } catch (error) {
+            if (!isSessionExpiredError(error)) {
+                throw error;
+            }
+
+            Logger.info('Session expired, refreshing the connection', 'SalesforceApi.withSession');
+            return operation(await this.refreshConnection(connection, folder));
+        }
+    }
+
+    private static refreshConnection(
+        connection: sfcore.Connection,
+        folder: vscode.WorkspaceFolder | undefined,
+    ): Promise<sfcore.Connection> {
+        const key = folder?.uri.toString() ?? '';
+        let refresh = this.refreshes.get(key);
+        if (!refresh) {
+            refresh = this.refreshSession(connection, folder).finally(() => this.refreshes.delete(key));
+            this.refreshes.set(key, refresh);
+        }
+        return refresh;
+    }
+
+    private static async refreshSession(
+        connection: sfcore.Connection,
+        folder: vscode.WorkspaceFolder | undefined,
+    ): Promise<sfcore.Connection> {
+        try {
+            await connection.refreshAuth();
+            return connection;
+        } catch (error) {
+            // No refresh token, or it was revoked: connect again in case the CLI has a newer session
+            Logger.warn(
+                `Could not refresh the session, reconnecting: ${error instanceof Error ? error.message : String(error)}`,
+                'SalesforceApi.refreshSession',
+            );
+            SFUtils.invalidateConnection(folder);
+            return this.getConnection(folder);
+        }
+    }
+
+    private static async trackHealth<T>(run: () => Promise<T>): Promise<T> {
+        try {
+            const result = await run();
+            ConnectionHealth.reportSuccess();
+            return result;
+        } catch (error) {
+            ConnectionHealth.reportFailure(error);
+            throw error;
+        }
+    }
+
+    private static streamBody(url: string, accessToken: string | null | undefined, maxBytes: number): Promise<string> {
+        if (!accessToken) {
+            return Promise.reject(new Error('No valid access token available'));
+        }
+
+        return new Promise((resolve, reject) => {
+            const chunks: Buffer[] = [];
+            let size = 0;
+
+            const request = https.get(url, { headers: { Authorization: `Bearer ${accessToken}` } }, (response) => {
+                if (response.statusCode !== 200) {
+                    response.resume();
+                    reject(
+                        new SalesforceApiError(
+                            `API returned status code ${response.statusCode}`,
+                            response.statusCode ?? 0,
+                        ),
+                    );
+                    return;
+                }
+
+                response.on('data', (chunk: Buffer) => {
+                    chunks.push(chunk);
+                    size += chunk.length;
+                    if (maxBytes > 0 && size >= maxBytes) {
+                        // Enough data, stop receiving the rest
+                        response.destroy();
+                        resolve(Buffer.concat(chunks).subarray(0, maxBytes).toString('utf8'));
+                    }
+                });
+                response.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+                response.on('error', (error: Error) => reject(error));
+            });
+            request.on('error', (error: Error) => reject(error));
+        });
+    }
+
+    private static async withRetry<T>(label: string, operation: () => Promise<T>): Promise<T> {
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await operation();
+            } catch (error) {
+                if (attempt >= MAX_RETRIES || !this.isTransient(error)) {
+                    throw error;
+                }
+
+                const delay = RETRY_DELAY_MS * 2 ** attempt;
+                Logger.warn(
+                    `${label} failed, retrying in ${delay}ms: ${error instanceof Error ? error.message : String(error)}`,
+                    'SalesforceApi.withRetry',
+                );
+                await new Promise((resolve) => setTimeout(resolve, delay));
+            }
+        }
+    }
+
+    private static isTransient(error: unknown): boolean {
+        if (error instanceof SalesforceApiError) {
+            return error.statusCode >= 500;
+        }
+
+        const { code, statusCode } = (error ?? {}) as { code?: string; statusCode?: number };
+        return TRANSIENT_ERROR_CODES.has(code ?? '') || (statusCode !== undefined && statusCode >= 500);
+    }
+
+    private static async readProjectApiVersion(rootPath: string): Promise<string | null> {
+        const project = await readJsonFile<{ sourceApiVersion?: string }>(path.join(rootPath, 'sfdx-project.json'));
+        const version = project?.sourceApiVersion;
+        if (version && !API_VERSION_REGEX.test(version)) {
+            Logger.warn(`Ignoring invalid sourceApiVersion ${version}`, 'SalesforceApi.readProjectApiVersion');
+            return null;
+        }
+        return version ?? null;
+    }
+}
@@ -3,18 +3,36 @@ import './sfcoreConfig';
 
 import * as sfcore from '@salesforce/core';
 import * as vscode from 'vscode';
-import * as path from 'path';
-import * as fs from 'fs';
 import { Logger } from './logger';
+import { findOrgAuthorization, getOrgConfigLocations, OrgConfigLocation, TARGET_ORG_KEY } from './orgConfig';
+import { getProjectFolder, onDidChangeActiveProjectFolder } from './projectFolders';
+
+/**
+ * Config, connection and watchers of one project folder
+ */
+interface FolderState {
+    folder: vscode.WorkspaceFolder | undefined;
+    orgConfigs: { location: OrgConfigLocation; config: sfcore.ConfigFile }[] | undefined;
+    configWatchers: vscode.FileSystemWatcher[];
+    connection: sfcore.Connection | undefined;
+    username: string; // Username of the connection, or of the default org when it was last resolved
+}
 
 export class SFUtils {
     private static authInfos: sfcore.OrgAuthorization[];
-    private static myLocalConfig: sfcore.ConfigFile;
-    private static configWatcher: fs.FSWatcher | undefined;
-    private static connection: any;
+    // Every project folder of a multi-root workspace has its own default org, keyed by folder URI
+    private static folderStates = new Map<string, FolderState>();
+    private static activeFolder: vscode.WorkspaceFolder | undefined;
+    private static activeFolderListener: vscode.Disposable | undefined;
     private static currentOrgUrl: string = '';
-    private static currentUsername: string = '';
     private static isInitialized: boolean = false;
+    private static readonly connectionChanged = new vscode.EventEmitter<string>();
+
+    /**
+     * Fired with the username of the new org when the connection of the active project folder switches to another
+     * org, either because its config changed or because a file of a project with another org became active
+     */
+    public static readonly onDidChangeConnection = SFUtils.connectionChanged.event;
 
     /**
      * Initialize Salesforce core components
@@ -28,9 +46,20 @@ export class SFUtils {
         // Reset cached data if forcing refresh
         if (forceRefresh) {
             Logger.debug('Force refreshing SFUtils static members', 'SFUtils.initialize');
-            this.myLocalConfig = undefined as unknown as sfcore.ConfigFile;
             this.authInfos = undefined as unknown as sfcore.OrgAuthorization[];
-            this.connection = undefined;
+            for (const state of this.folderStates.values()) {
+                state.orgConfigs = undefined;
+                state.connection = undefined;
+            }
+        }
+
+        if (!this.activeFolderListener) {
+            this.activeFolder = getProjectFolder();
+            this.activeFolderListener = onDidChangeActiveProjectFolder((folder) =>
+                this.handleActiveFolderChange(folder).catch((error) =>
+                    Logger.error('Error switching project folder:', error, 'SFUtils.initialize'),
+                ),
+            );
         }
 
         // Initialize logger to prevent transport target error
@@ -50,98 +79,226 @@ export class SFUtils {
         }
     }
 
-    public static async getDefaultUsername() {
+    /**
+     * Get the username of the default org, set as target-org or defaultusername in the project or global config
+     * @param folder The project folder, defaults to the project of the active file
+     * @returns The username, or an empty string if no authenticated org matches the config
+     */
+    public static async getDefaultUsername(folder: vscode.WorkspaceFolder | undefined = getProjectFolder()) {
         await this.initialize();
 
-        if (vscode?.workspace?.workspaceFolders) {
-            await this.initLocalConfig();
-
-            const localValue = this.myLocalConfig.get('defaultusername');
-            Logger.debug('Default username from config:', 'SFUtils.getDefaultUsername', localValue);
-
-            const authInfos = await this.listAllAuthorizations();
-
-            const authInfo = authInfos.find((authInfo) => authInfo?.aliases?.includes(localValue as string));
+        const value = await this.getTargetOrgValue(this.getFolderState(folder));
+        Logger.debug('Default org from config:', 'SFUtils.getDefaultUsername', value);
 
-            if (!authInfo) {
-                Logger.warn(
-                    `No authentication info found for username: ${JSON.stringify(localValue)}`,
-                    'SFUtils.getDefaultUsername',
-                );
-            }
+        // The org may have been authenticated since the authorizations were loaded
+        const authInfo =
+            findOrgAuthorization(value, await this.listAllAuthorizations()) ??
+            (value ? findOrgAuthorization(value, await this.listAllAuthorizations(true)) : undefined);
 
-            return authInfo?.username ?? '';
+        if (!authInfo) {
+            Logger.warn(
+                `No authentication info found for default org: ${JSON.stringify(value)}`,
+                'SFUtils.getDefaultUsername',
+            );
         }
+
+        return authInfo?.username ?? '';
     }
 
-    public static async getConnection(): Promise<sfcore.Connection> {
+    /**
+     * Get the connection to the default org of a project folder
+     * @param folder The project folder, defaults to the project of the active file
+     */
+    public static async getConnection(
+        folder: vscode.WorkspaceFolder | undefined = getProjectFolder(),
+    ): Promise<sfcore.Connection> {
         await this.initialize();
 
-        if (!this.connection) {
-            const defaultusername = await this.getDefaultUsername();
+        const state = this.getFolderState(folder);
+        if (!state.connection) {
+            const defaultusername = await this.getDefaultUsername(folder);
             Logger.debug('Getting connection for username:', 'SFUtils.getConnection', defaultusername);
 
-            this.connection = await sfcore.Connection.create({
+            state.connection = await sfcore.Connection.create({
                 authInfo: await sfcore.AuthInfo.create({ username: defaultusername }),
             });
+            state.username = defaultusername;
             Logger.info('Salesforce connection created successfully', 'SFUtils.getConnection');
         }
-        return this.connection;
+        return state.connection;
     }
 
-    private static async initLocalConfig() {
-        if (!this.myLocalConfig && vscode?.workspace?.workspaceFolders) {
-            const rootPath = vscode.workspace.workspaceFolders[0].uri.fsPath;
-            const configPath = path.join(rootPath, '.sfdx', 'sfdx-config.json');
-
-            Logger.debug(`Initializing config file from: ${configPath}`, 'SFUtils.initLocalConfig');
-
-            try {
-                this.myLocalConfig = await sfcore.ConfigFile.create({
-                    isGlobal: false,
-                    rootFolder: path.join(rootPath, '.sfdx'),
-                    filename: 'sfdx-config.json',
-                });
-
-                // Setup file watcher for config changes
-                this.setupConfigWatcher(configPath);
-            } catch (error) {
-                Logger.error('Failed to initialize config file:', error, 'SFUtils.initLocalConfig');
-                throw error;
+    /**
+     * Get the authorization of the org the connection is made to
+     * @param folder The project folder, defaults to the project of the active file
+     * @returns The authorization, or undefined if no default org is set
+     */
+    public static async getCurrentOrg(
+        folder: vscode.WorkspaceFolder | undefined = getProjectFolder(),
+    ): Promise<sfcore.OrgAuthorization | undefined> {
+        const username = await this.getDefaultUsername(folder);
+        const authInfos = await this.listAllAuthorizations();
+        return authInfos.find((authInfo) => authInfo.username === username);
+    }
+
+    /**
+     * Make another authenticated org the default org of a project and connect to it
+     * @param authorization The org to switch to, from listAllAuthorizations()
+     * @param folder The project folder, defaults to the project of the active file
+     */
+    public static async switchOrg(
+        authorization: sfcore.OrgAuthorization,
+        folder: vscode.WorkspaceFolder | undefined = getProjectFolder(),
+    ): Promise<void> {
+        await this.initialize();
+        const state = this.getFolderState(folder);
+        const orgConfigs = await this.loadOrgConfigs(state);
+
+        // Prefer the alias, like the Salesforce CLI does when setting the default org
+        const value = authorization.aliases?.[0] ?? authorization.username;
+
+        // Set target-org in the project's sf config, and keep a legacy defaultusername in sync so it cannot disagree
+        for (const { location, config } of orgConfigs.filter(({ location }) => !location.isGlobal)) {
+            if (location.key === TARGET_ORG_KEY || config.has(location.key)) {
+                config.set(location.key, value);
+                await config.write();
             }
         }
-        return this.myLocalConfig;
+
+        state.connection = undefined;
+        await this.getConnection(folder);
+        Logger.info(`Switched to org ${authorization.username}`, 'SFUtils.switchOrg');
+        if (this.isActiveFolder(state)) {
+            this.connectionChanged.fire(authorization.username);
+        }
+    }
+
+    /**
+     * Drop the cached connection of a project folder, so the next request connects again with the saved auth info
+     * @param folder The project folder, defaults to the project of the active file
+     */
+    public static invalidateConnection(folder: vscode.WorkspaceFolder | undefined = getProjectFolder()): void {
+        this.getFolderState(folder).connection = undefined;
+        // Auth info is cached as well, and a login may have replaced it since
+        sfcore.StateAggregator.clearInstance();
+        Logger.debug('Connection invalidated', 'SFUtils.invalidateConnection');
     }
 
-    private static setupConfigWatcher(configPath: string) {
-        // Dispose any existing watcher
-        if (this.configWatcher) {
-            this.configWatcher.close();
+    private static getFolderState(folder: vscode.WorkspaceFolder | undefined): FolderState {
+        const key = folder?.uri.toString() ?? '';
+        let state = this.folderStates.get(key);
+        if (!state) {
+            state = { folder, orgConfigs: undefined, configWatchers: [], connection: undefined, username: '' };
+            this.folderStates.set(key, state);
         }
+        return state;
+    }
 
-        try {
-            this.configWatcher = fs.watch(configPath, (eventType) => {
-                if (eventType === 'change') {
-                    Logger.info('Config file changed, resetting cache', 'SFUtils.setupConfigWatcher');
-                    // Reset the cached config so it will be reloaded on next request
-                    this.myLocalConfig = undefined as unknown as sfcore.ConfigFile;
-                    // Also reset the connection since it depends on config
-                    this.connection = undefined;
-
-                    // Notify the extension that connection needs to be refreshed
-                    vscode.commands.executeCommand('salesforce-multitools-3.refreshConnection');
-                }
-            });
-            Logger.debug(`File watcher set up for: ${configPath}`, 'SFUtils.setupConfigWatcher');
-        } catch (error) {
-            // If the file doesn't exist yet or other errors
-            Logger.error('Error setting up config file watcher:', error, 'SFUtils.setupConfigWatcher');
-            throw error;
+    private static isActiveFolder(state: FolderState): boolean {
+        return state.folder?.uri.toString() === this.activeFolder?.uri.toString();
+    }
+
+    /**
+     * Get the configured default org, an alias or a username, from the first config file that sets it
+     */
+    private static async getTargetOrgValue(state: FolderState): Promise<string | undefined> {
+        for (const { location, config } of await this.loadOrgConfigs(state)) {
+            const value = config.get(location.key);
+            if (typeof value === 'string' && value) {
+                return value;
+            }
+        }
+        return undefined;
+    }
+
+    private static async loadOrgConfigs(state: FolderState) {
+        if (!state.orgConfigs) {
+            const locations = getOrgConfigLocations(
+                state.folder?.uri.fsPath,
+                sfcore.Global.SF_DIR,
+                sfcore.Global.SFDX_DIR,
+            );
+
+            state.orgConfigs = await Promise.all(
+                locations.map(async (location) => ({
+                    location,
+                    config: await sfcore.ConfigFile.create({
+                        isGlobal: location.isGlobal,
+                        rootFolder: location.folder,
+                        filename: location.filename,
+                    }),
+                })),
+            );
+
+            if (state.configWatchers.length === 0) {
+                this.setupConfigWatchers(state, locations);
+            }
+        }
+        return state.orgConfigs;
+    }
+
+    private static setupConfigWatchers(state: FolderState, locations: OrgConfigLocation[]) {
+        const handleChange = () =>
+            this.handleConfigFileChange(state).catch((error) =>
+                Logger.error('Error reloading config file:', error, 'SFUtils.setupConfigWatchers'),
+            );
+
+        // Files that do not exist yet are watched too, e.g. .sf/config.json before the first `sf config set`
+        for (const location of locations) {
+            const watcher = vscode.workspace.createFileSystemWatcher(
+                new vscode.RelativePattern(vscode.Uri.file(location.folder), location.filename),
+            );
+            watcher.onDidChange(handleChange);
+            watcher.onDidCreate(handleChange);
+            watcher.onDidDelete(handleChange);
+            state.configWatchers.push(watcher);
+            Logger.debug(
+                `File watcher set up for: ${location.folder}/${location.filename}`,
+                'SFUtils.setupConfigWatchers',
+            );
+        }
+    }
+
+    private static async handleConfigFileChange(state: FolderState) {
+        Logger.info('Config file changed, resetting cache', 'SFUtils.handleConfigFileChange');
+        // Reset the cached config so it will be reloaded on next request
+        state.orgConfigs = undefined;
+
+        // Nothing to do when the default org is unchanged, e.g. after switchOrg() wrote the file
+        const username = await this.getDefaultUsername(state.folder);
+        if (username === state.username) {
+            return;
+        }
+
+        // Reset the connection since it depends on config
+        state.connection = undefined;
+        state.username = username;
+
+        // Notify the extension that connection needs to be refreshed
+        if (this.isActiveFolder(state)) {
+            this.connectionChanged.fire(username);
+            vscode.commands.executeCommand('salesforce-multitools-3.refreshConnection');
+        }
+    }
+
+    private static async handleActiveFolderChange(folder: vscode.WorkspaceFolder | undefined) {
+        const previousUsername = await this.getDefaultUsername(this.activeFolder);
+        this.activeFolder = folder;
+
+        // Projects connected to the same org need no refresh
+        const username = await this.getDefaultUsername(folder);
+        if (username !== previousUsername) {
+            Logger.info(`Project ${folder?.name} uses org ${username}`, 'SFUtils.handleActiveFolderChange');
+            this.connectionChanged.fire(username);
         }
     }
 
-    private static async listAllAuthorizations() {
-        if (!this.authInfos) {
+    /**
+     * List every org authenticated with the Salesforce CLI
+     * @param forceRefresh Reload the authorizations, e.g. to pick up orgs authenticated since
+     */
+    public static async listAllAuthorizations(forceRefresh: boolean = false) {
+        if (!this.authInfos || forceRefresh) {
             Logger.debug('Loading all Salesforce authorizations', 'SFUtils.listAllAuthorizations');
             this.authInfos = await sfcore.AuthInfo.listAllAuthorizations();
         }
@@ -151,9 +308,12 @@ export class SFUtils {
     // Clean up watchers when extension is deactivated
     public static dispose() {
         Logger.debug('Disposing SFUtils resources', 'SFUtils.dispose');
-        if (this.configWatcher) {
-            this.configWatcher.close();
-            this.configWatcher = undefined;
+        for (const state of this.folderStates.values()) {
+            state.configWatchers.forEach((watcher) => watcher.dispose());
         }
+        this.folderStates.clear();
+        this.activeFolderListener?.dispose();
+        this.activeFolderListener = undefined;
+        this.connectionChanged.dispose();
     }
 }